@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server"
+import {
+  getProviderConfig,
+  getProviders,
+  resolveGenerationMode,
+  resolveGenerationModel,
+  resolveSamplingParams,
+  runProvider,
+  ProviderHttpError,
+} from "@/lib/generation-providers"
+import { parseResolution, validateOutputSize } from "@/lib/output-size"
+import { AppError, InvalidInputError, NetworkError, type AppErrorType } from "@/lib/errors"
+import { stripDataUrlMetadata } from "@/lib/image-metadata"
+import type {
+  GenerateImageErrorCode,
+  GenerateImageErrorResponse,
+  GenerateImageRequest,
+  GenerateImageResult,
+} from "@/lib/types"
+
+// Provider adapters need Node APIs (Buffer) and server-only environment variables
+export const runtime = "nodejs"
+
+// Per-user access tokens for this route, comma-separated in server config
+function getAllowedTokens(): string[] {
+  return (process.env.GENERATION_API_TOKENS || "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean)
+}
+
+// Check the bearer token against the configured tokens.
+// With no tokens configured the route is only open outside production.
+function isAuthorized(request: Request): boolean {
+  const allowedTokens = getAllowedTokens()
+  if (allowedTokens.length === 0) {
+    return process.env.NODE_ENV !== "production"
+  }
+
+  const header = request.headers.get("authorization") || ""
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : ""
+  return allowedTokens.includes(token)
+}
+
+// Build a normalized error response
+function errorResponse(code: GenerateImageErrorCode, message: string, status: number, type?: AppErrorType) {
+  return NextResponse.json<GenerateImageErrorResponse>({ error: { code, message, type } }, { status })
+}
+
+// Validate the access token and report which providers have credentials configured
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return errorResponse("unauthorized", "Invalid or missing access token.", 401)
+  }
+
+  const providers = getProviders().map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    configured: !provider.capabilities.requiresApiKey || !!getProviderConfig(provider).apiKey,
+  }))
+
+  return NextResponse.json({ valid: true, message: "Access token is valid.", providers })
+}
+
+// Proxy a generation request to the selected provider
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return errorResponse("unauthorized", "Invalid or missing access token.", 401)
+  }
+
+  let body: GenerateImageRequest
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse("invalid_request", "Request body must be valid JSON.", 400)
+  }
+
+  if (!body.prompt || !body.modelType || !/^\d+x\d+$/.test(body.resolution || "")) {
+    return errorResponse("invalid_request", "modelType, prompt and resolution are required.", 400)
+  }
+
+  const resolved = resolveGenerationModel(body.modelType)
+  if (!resolved) {
+    return errorResponse("unknown_model", `Unknown model type: ${body.modelType}`, 400)
+  }
+  const { provider, model } = resolved
+
+  const { width, height } = parseResolution(body.resolution)
+  const sizeProblems = validateOutputSize(width, height, provider.capabilities.sizeConstraints)
+  if (sizeProblems.length > 0) {
+    const message = `${width}×${height} is not supported by ${provider.name}. ${sizeProblems.join(" ")}`
+    return errorResponse("invalid_request", message, 400)
+  }
+
+  // Missing credentials won't fix themselves, so don't answer with a retryable 503
+  if (provider.capabilities.requiresApiKey && !getProviderConfig(provider).apiKey) {
+    return errorResponse("provider_not_configured", `${provider.name} credentials are not configured on the server.`, 501)
+  }
+
+  // Fall back to what the provider can do when it can't accept images or masks
+  const mode = body.initImage ? resolveGenerationMode(provider, body.generationMode || "text") : "text"
+  const strength = mode === "text" ? undefined : Math.min(1, Math.max(0, body.strength ?? 0.75))
+
+  // Only pass sampling controls the provider honors, so metadata reflects what was actually used
+  const sampling = resolveSamplingParams(provider, body)
+
+  // Every backend is reached through here, so strip EXIF/XMP (GPS, owner, serial numbers) even if a
+  // client sends the original upload
+  let initImage: string | undefined
+  let maskImage: string | undefined
+  try {
+    initImage = mode === "text" || !body.initImage ? undefined : stripDataUrlMetadata(body.initImage)
+    maskImage = mode === "inpainting" && body.maskImage ? stripDataUrlMetadata(body.maskImage) : undefined
+  } catch (error) {
+    const message = error instanceof InvalidInputError ? error.message : "initImage and maskImage could not be read."
+    return errorResponse("invalid_request", message, 400)
+  }
+
+  // Start timing for performance measurement
+  const startTime = Date.now()
+
+  try {
+    const imageUrl = await runProvider(provider, {
+      model,
+      prompt: body.prompt,
+      negativePrompt: body.negativePrompt,
+      width,
+      height,
+      mode,
+      initImage,
+      maskImage,
+      strength,
+      ...sampling,
+      signal: request.signal, // Stop the upstream call when the client cancels
+    })
+
+    return NextResponse.json<GenerateImageResult>({
+      imageUrl,
+      metadata: {
+        processingTime: Date.now() - startTime,
+        aiModel: model.name,
+        prompt: body.prompt,
+        negativePrompt: body.negativePrompt,
+        generationMode: mode,
+        strength,
+        ...sampling,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating image:", error)
+
+    // Pass rate limits and temporary unavailability through so clients can back off and retry, and report
+    // a provider that never answered as a gateway timeout
+    const status =
+      error instanceof ProviderHttpError && (error.status === 429 || error.status === 503)
+        ? error.status
+        : error instanceof NetworkError
+          ? 504
+          : 502
+    // Keep the provider's error category (auth, quota, ...) so the client can explain it
+    const type = error instanceof AppError ? error.type : "provider"
+    return errorResponse("provider_error", error instanceof Error ? error.message : String(error), status, type)
+  }
+}
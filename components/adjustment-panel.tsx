@@ -0,0 +1,204 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { RotateCcw } from "lucide-react"
+import {
+  createToneCurve,
+  defaultAdjustments,
+  evaluateCurve,
+  isNeutralAdjustments,
+  TONE_CURVE_INPUTS,
+  type ImageAdjustments,
+} from "@/lib/adjustments"
+
+interface AdjustmentPanelProps {
+  adjustments: ImageAdjustments
+  onChange: (adjustments: ImageAdjustments) => void
+}
+
+// One labelled slider row
+function SettingSlider({
+  label,
+  value,
+  display,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string
+  value: number
+  display: string
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <Label className="text-xs">{label}</Label>
+        <span className="text-xs text-muted-foreground">{display}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={(v) => onChange(v[0])} />
+    </div>
+  )
+}
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`)
+
+export function AdjustmentPanel({ adjustments, onChange }: AdjustmentPanelProps) {
+  const set = <K extends keyof ImageAdjustments>(key: K, value: ImageAdjustments[K]) =>
+    onChange({ ...adjustments, [key]: value })
+
+  // The curve is edited through three handles; read their current offsets back from it
+  const [shadows, midtones, highlights] = TONE_CURVE_INPUTS.map((x) => evaluateCurve(adjustments.curve, x) - x)
+  const curvePath = Array.from({ length: 33 }, (_, i) => {
+    const x = Math.min(255, i * 8)
+    return `${i === 0 ? "M" : "L"}${x},${255 - evaluateCurve(adjustments.curve, x)}`
+  }).join(" ")
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label>Adjustments</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isNeutralAdjustments(adjustments)}
+          onClick={() => onChange(defaultAdjustments)}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <SettingSlider
+          label="Exposure"
+          value={adjustments.exposure}
+          display={`${adjustments.exposure > 0 ? "+" : ""}${adjustments.exposure.toFixed(1)} EV`}
+          min={-2}
+          max={2}
+          step={0.1}
+          onChange={(value) => set("exposure", value)}
+        />
+        <SettingSlider
+          label="Brightness"
+          value={adjustments.brightness}
+          display={`${adjustments.brightness}%`}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(value) => set("brightness", value)}
+        />
+        <SettingSlider
+          label="Contrast"
+          value={adjustments.contrast}
+          display={`${adjustments.contrast}%`}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(value) => set("contrast", value)}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <SettingSlider
+          label="Saturation"
+          value={adjustments.saturation}
+          display={`${adjustments.saturation}%`}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(value) => set("saturation", value)}
+        />
+        <SettingSlider
+          label="Temperature"
+          value={adjustments.temperature}
+          display={signed(adjustments.temperature)}
+          min={-100}
+          max={100}
+          step={1}
+          onChange={(value) => set("temperature", value)}
+        />
+        <SettingSlider
+          label="Tint"
+          value={adjustments.tint}
+          display={signed(adjustments.tint)}
+          min={-100}
+          max={100}
+          step={1}
+          onChange={(value) => set("tint", value)}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Tone Curve</Label>
+          <svg viewBox="0 0 255 255" className="h-16 w-16 rounded border bg-muted">
+            <path d="M0,255 L255,0" className="stroke-muted-foreground/30" strokeWidth={2} fill="none" />
+            <path d={curvePath} className="stroke-primary" strokeWidth={6} fill="none" />
+          </svg>
+        </div>
+        <SettingSlider
+          label="Shadows"
+          value={shadows}
+          display={signed(shadows)}
+          min={-64}
+          max={64}
+          step={1}
+          onChange={(value) => set("curve", createToneCurve(value, midtones, highlights))}
+        />
+        <SettingSlider
+          label="Midtones"
+          value={midtones}
+          display={signed(midtones)}
+          min={-64}
+          max={64}
+          step={1}
+          onChange={(value) => set("curve", createToneCurve(shadows, value, highlights))}
+        />
+        <SettingSlider
+          label="Highlights"
+          value={highlights}
+          display={signed(highlights)}
+          min={-64}
+          max={64}
+          step={1}
+          onChange={(value) => set("curve", createToneCurve(shadows, midtones, value))}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <SettingSlider
+          label="Sharpen"
+          value={adjustments.sharpen}
+          display={`${adjustments.sharpen}%`}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(value) => set("sharpen", value)}
+        />
+        <SettingSlider
+          label="Vignette"
+          value={adjustments.vignette}
+          display={`${adjustments.vignette}%`}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(value) => set("vignette", value)}
+        />
+      </div>
+    </div>
+  )
+}
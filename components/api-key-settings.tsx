@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
-import { validateHuggingFaceApiKey } from "@/lib/api"
+import { GENERATION_TOKEN_STORAGE_KEY, validateGenerationToken } from "@/lib/api"
 
 interface ApiKeySettingsProps {
   onApiKeyValidated?: (isValid: boolean) => void
@@ -23,9 +23,12 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
   const [showApiKey, setShowApiKey] = useState(false)
   const [lastValidatedKey, setLastValidatedKey] = useState("")
 
-  // Check if we have a saved API key on component mount
+  // Check if we have a saved access token on component mount
   useEffect(() => {
-    const savedKey = localStorage.getItem("huggingface_api_key")
+    // Provider keys now live in server config; drop any raw key left over from older versions
+    localStorage.removeItem("huggingface_api_key")
+
+    const savedKey = localStorage.getItem(GENERATION_TOKEN_STORAGE_KEY)
     if (savedKey) {
       setSavedApiKey(savedKey)
       setApiKey(savedKey)
@@ -34,7 +37,7 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
     }
   }, [])
 
-  // Function to validate the API key
+  // Function to validate the access token
   const validateApiKey = async (key: string) => {
     // Don't revalidate if the key hasn't changed since last validation
     if (key === lastValidatedKey && validationResult) {
@@ -45,13 +48,13 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
     setValidationResult(null)
 
     try {
-      const result = await validateHuggingFaceApiKey(key)
+      const result = await validateGenerationToken(key)
       setValidationResult(result)
       setLastValidatedKey(key)
 
       if (result.valid) {
-        // Save the valid key to localStorage
-        localStorage.setItem("huggingface_api_key", key)
+        // Save the valid token to localStorage
+        localStorage.setItem(GENERATION_TOKEN_STORAGE_KEY, key)
         setSavedApiKey(key)
       }
 
@@ -74,31 +77,31 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
     validateApiKey(apiKey)
   }
 
-  // Clear the API key
+  // Clear the access token
   const handleClear = () => {
     setApiKey("")
     setSavedApiKey("")
     setValidationResult(null)
-    localStorage.removeItem("huggingface_api_key")
+    localStorage.removeItem(GENERATION_TOKEN_STORAGE_KEY)
     onApiKeyValidated?.(false)
   }
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Hugging Face API Key</CardTitle>
+        <CardTitle>Generation Access Token</CardTitle>
         <CardDescription>
-          Configure your Hugging Face API key to use open-source image generation models
+          Configure your personal access token for the image generation service
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <div className="flex justify-between items-center">
-              <Label htmlFor="api-key">API Key</Label>
+              <Label htmlFor="api-key">Access Token</Label>
               {savedApiKey && (
                 <span className="text-xs text-green-600 font-medium flex items-center">
-                  <CheckCircle2 className="h-3 w-3 mr-1" /> Key Saved
+                  <CheckCircle2 className="h-3 w-3 mr-1" /> Token Saved
                 </span>
               )}
             </div>
@@ -106,7 +109,7 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
               <Input
                 id="api-key"
                 type={showApiKey ? "text" : "password"}
-                placeholder="Enter your Hugging Face API key (starts with hf_)"
+                placeholder="Enter your access token"
                 value={apiKey}
                 onChange={(e) => setApiKey(e.target.value)}
                 className={validationResult?.valid ? "border-green-500" : ""}
@@ -116,22 +119,14 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
                 variant="outline" 
                 onClick={() => setShowApiKey(!showApiKey)}
                 size="icon"
-                title={showApiKey ? "Hide API Key" : "Show API Key"}
+                title={showApiKey ? "Hide Access Token" : "Show Access Token"}
               >
                 {showApiKey ? "Hide" : "Show"}
               </Button>
             </div>
             <div className="flex justify-between items-center">
               <p className="text-xs text-muted-foreground">
-                Get your API key from{" "}
-                <a
-                  href="https://huggingface.co/settings/tokens"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  huggingface.co/settings/tokens
-                </a>
+                Ask your administrator for a token. Provider API keys are configured on the server.
               </p>
               {apiKey && apiKey !== savedApiKey && (
                 <p className="text-xs text-amber-600">Unsaved changes</p>
@@ -150,7 +145,7 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
           <div className="flex space-x-2">
             <Button 
               type="submit" 
-              disabled={isValidating || !apiKey}
+              disabled={isValidating}
               className="flex-1"
             >
               {isValidating ? (
@@ -169,15 +164,15 @@ export function ApiKeySettings({ onApiKeyValidated }: ApiKeySettingsProps) {
                 onClick={handleClear}
                 className="flex-1"
               >
-                Clear API Key
+                Clear Token
               </Button>
             )}
           </div>
         </form>
       </CardContent>
       <CardFooter className="flex justify-between border-t pt-4 text-xs text-muted-foreground">
-        <p>API keys are stored locally in your browser and never sent to our servers.</p>
-        {savedApiKey && <p>Using saved API key</p>}
+        <p>Only this access token is stored in your browser. Provider keys never leave the server.</p>
+        {savedApiKey && <p>Using saved token</p>}
       </CardFooter>
     </Card>
   )
@@ -0,0 +1,133 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, Pin, PinOff, Star, Trash2 } from "lucide-react"
+import { isFinished, type GenerationJob } from "@/lib/generation-queue"
+import type { GenerateImageResult } from "@/lib/types"
+
+// One image in a multi-candidate generation
+export interface GenerationCandidate {
+  id: string
+  jobId: string
+  label: string // Seed or prompt variation that produced it
+  imageUrl?: string
+  metadata?: GenerateImageResult["metadata"]
+  kept: boolean
+}
+
+export interface CandidateGridProps {
+  candidates: GenerationCandidate[]
+  jobs: GenerationJob[]
+  workingImage: string | null
+  onPromote: (candidate: GenerationCandidate) => void
+  onToggleKeep: (candidate: GenerationCandidate) => void
+  onDiscard: (candidate: GenerationCandidate) => void
+  onDiscardUnkept: () => void
+}
+
+export function CandidateGrid({
+  candidates,
+  jobs,
+  workingImage,
+  onPromote,
+  onToggleKeep,
+  onDiscard,
+  onDiscardUnkept,
+}: CandidateGridProps) {
+  if (candidates.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base">Candidates</CardTitle>
+          <CardDescription>Promote one to the working image; keep the ones worth revisiting</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onDiscardUnkept} disabled={candidates.every((c) => c.kept)}>
+          Discard Unkept
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {candidates.map((candidate) => {
+            const job = jobs.find((j) => j.id === candidate.jobId)
+            const isWorking = !!candidate.imageUrl && candidate.imageUrl === workingImage
+
+            return (
+              <div
+                key={candidate.id}
+                className={`border rounded-md overflow-hidden ${isWorking ? "border-primary ring-2 ring-primary/30" : ""}`}
+              >
+                <div className="aspect-square relative bg-muted">
+                  {candidate.imageUrl ? (
+                    <img
+                      src={candidate.imageUrl}
+                      alt={candidate.label}
+                      className="w-full h-full object-cover cursor-pointer"
+                      onClick={() => onPromote(candidate)}
+                    />
+                  ) : (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center p-2 text-center">
+                      {job && !isFinished(job) && <Loader2 className="h-6 w-6 animate-spin text-primary mb-2" />}
+                      <p className="text-xs text-muted-foreground">{job ? job.state : "cancelled"}</p>
+                      {job?.state === "failed" && job.error && (
+                        <p className="text-xs text-destructive mt-1 line-clamp-3">{job.error}</p>
+                      )}
+                    </div>
+                  )}
+                  <div className="absolute top-1 left-1 flex gap-1">
+                    {isWorking && <Badge className="text-[10px] px-1.5">Working</Badge>}
+                    {candidate.kept && (
+                      <Badge variant="secondary" className="text-[10px] px-1.5">
+                        Kept
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="p-2 space-y-1">
+                  <p className="text-xs text-muted-foreground truncate" title={candidate.label}>
+                    {candidate.label}
+                  </p>
+                  <div className="flex justify-between">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Promote to working image"
+                      disabled={!candidate.imageUrl || isWorking}
+                      onClick={() => onPromote(candidate)}
+                    >
+                      <Star className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title={candidate.kept ? "Stop keeping" : "Keep"}
+                      onClick={() => onToggleKeep(candidate)}
+                    >
+                      {candidate.kept ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Discard"
+                      onClick={() => onDiscard(candidate)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
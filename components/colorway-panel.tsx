@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Download, Loader2, Palette } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { getErrorToast } from "@/lib/errors"
+import { generateColorways, parseColorwayList, type ColorwayVariant } from "@/lib/recolor"
+import type { SegmentationModel } from "@/lib/image-processing"
+
+interface ColorwayPanelProps {
+  images: { id: string; url: string; name?: string }[] // The selected image, or every image in batch mode
+  modelType: SegmentationModel
+}
+
+const EXAMPLE_SWATCHES = "RED #C8102E Crimson\nNAVY #1F2A44 Navy\nOLIVE #6B7A3A Olive"
+
+// File name without its extension, used as the default SKU
+const getBaseSku = (name?: string) => (name ? name.replace(/\.[^.]+$/, "") : "product")
+
+function downloadVariant(variant: ColorwayVariant) {
+  const link = document.createElement("a")
+  link.href = variant.imageUrl
+  link.download = variant.fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+export function ColorwayPanel({ images, modelType }: ColorwayPanelProps) {
+  const { toast } = useToast()
+  const [swatchList, setSwatchList] = useState("")
+  const [baseSku, setBaseSku] = useState("")
+  const [matchLightness, setMatchLightness] = useState(true)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [progressMessage, setProgressMessage] = useState<string | null>(null)
+  const [variants, setVariants] = useState<ColorwayVariant[]>([])
+
+  const isBatch = images.length > 1
+  const { colorways, invalidLines } = parseColorwayList(swatchList)
+
+  const handleGenerate = async () => {
+    if (images.length === 0 || colorways.length === 0) return
+
+    setIsGenerating(true)
+    setVariants([])
+
+    try {
+      for (let i = 0; i < images.length; i++) {
+        const image = images[i]
+        const sku = isBatch ? getBaseSku(image.name) : baseSku || getBaseSku(image.name)
+        const imageVariants = await generateColorways(image.url, sku, colorways, {
+          modelType,
+          matchLightness,
+          progressCallback: (progress, message) => {
+            const prefix = isBatch ? `Image ${i + 1}/${images.length}: ` : ""
+            setProgressMessage(`${prefix}${message} (${Math.round(progress * 100)}%)`)
+          },
+        })
+        setVariants((current) => [...current, ...imageVariants])
+      }
+
+      toast({
+        title: "Colorways ready",
+        description: `Generated ${images.length * colorways.length} colorway images.`,
+      })
+    } catch (error) {
+      console.error("Colorway generation error:", error)
+      toast({ ...getErrorToast(error, "Colorway generation failed"), variant: "destructive" })
+    } finally {
+      setIsGenerating(false)
+      setProgressMessage(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Palette className="h-5 w-5 mr-2" />
+          Colorways
+        </CardTitle>
+        <CardDescription>Recolor the product into each listed color, one image per SKU</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="colorway-swatches">Swatches</Label>
+          <Textarea
+            id="colorway-swatches"
+            rows={4}
+            placeholder={EXAMPLE_SWATCHES}
+            value={swatchList}
+            onChange={(e) => setSwatchList(e.target.value)}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">One per line: SKU suffix, hex color and an optional name</p>
+          {invalidLines.length > 0 && (
+            <p className="text-xs text-destructive">Skipping unreadable lines: {invalidLines.join("; ")}</p>
+          )}
+        </div>
+
+        {!isBatch && (
+          <div className="space-y-2">
+            <Label htmlFor="colorway-sku">Base SKU</Label>
+            <Input
+              id="colorway-sku"
+              placeholder={getBaseSku(images[0]?.name)}
+              value={baseSku}
+              onChange={(e) => setBaseSku(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="colorway-lightness">Match Lightness</Label>
+            <p className="text-xs text-muted-foreground">Off keeps the original lightness and only shifts the hue</p>
+          </div>
+          <Switch id="colorway-lightness" checked={matchLightness} onCheckedChange={setMatchLightness} />
+        </div>
+
+        <Button
+          className="w-full"
+          disabled={isGenerating || images.length === 0 || colorways.length === 0}
+          onClick={handleGenerate}
+        >
+          {isGenerating ? (
+            <div className="flex items-center">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {progressMessage || "Recoloring..."}
+            </div>
+          ) : isBatch ? (
+            `Generate for ${images.length} Images (${images.length * colorways.length})`
+          ) : (
+            `Generate Colorways (${colorways.length})`
+          )}
+        </Button>
+
+        {variants.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="text-sm font-medium">Results</h3>
+              <Button variant="outline" size="sm" onClick={() => variants.forEach(downloadVariant)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download All
+              </Button>
+            </div>
+            <ScrollArea className="h-[240px] rounded-md border">
+              <div className="p-2 grid grid-cols-3 gap-2">
+                {variants.map((variant) => (
+                  <button
+                    key={variant.fileName}
+                    type="button"
+                    className="text-left rounded-md border overflow-hidden hover:border-primary transition-colors"
+                    onClick={() => downloadVariant(variant)}
+                    title={`Download ${variant.fileName}`}
+                  >
+                    <img src={variant.imageUrl} alt={variant.fileName} className="w-full h-20 object-contain bg-muted" />
+                    <div className="flex items-center gap-1 p-1">
+                      <span
+                        className="h-3 w-3 rounded-full border flex-shrink-0"
+                        style={{ backgroundColor: variant.colorway.hex }}
+                      />
+                      <span className="text-[10px] truncate">{variant.fileName}</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,6 +11,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch"
 import { Separator } from "@/components/ui/separator"
 import { Download, Copy, FileImage, Loader2 } from "lucide-react"
+import { UPSCALE_METHODS, type UpscaleMethod } from "@/lib/upscaling"
+import { useToast } from "@/hooks/use-toast"
 
 interface ExportOptionsProps {
   imageUrl: string | null
@@ -26,9 +28,12 @@ export interface ExportOptions {
   filename: string
   includeMetadata: boolean
   optimizeForWeb: boolean
+  upscaleMethod: UpscaleMethod // How to resample to width x height
+  sharpenAmount: number // Edge-aware upscaling strength
 }
 
 export function ExportOptions({ imageUrl, onExport, isExporting = false }: ExportOptionsProps) {
+  const { toast } = useToast()
   const [activeTab, setActiveTab] = useState<"image" | "metadata">("image")
   const [exportFormat, setExportFormat] = useState<"png" | "jpg" | "webp">("png")
   const [quality, setQuality] = useState(90)
@@ -38,6 +43,8 @@ export function ExportOptions({ imageUrl, onExport, isExporting = false }: Expor
   const [filename, setFilename] = useState("product-image")
   const [includeMetadata, setIncludeMetadata] = useState(true)
   const [optimizeForWeb, setOptimizeForWeb] = useState(true)
+  const [upscaleMethod, setUpscaleMethod] = useState<UpscaleMethod>("lanczos")
+  const [sharpenAmount, setSharpenAmount] = useState(0.8)
   const [exportedUrl, setExportedUrl] = useState<string | null>(null)
   const [isCopied, setIsCopied] = useState(false)
 
@@ -79,6 +86,8 @@ export function ExportOptions({ imageUrl, onExport, isExporting = false }: Expor
         filename,
         includeMetadata,
         optimizeForWeb,
+        upscaleMethod,
+        sharpenAmount,
       })
 
       setExportedUrl(exportedImageUrl)
@@ -122,6 +131,26 @@ export function ExportOptions({ imageUrl, onExport, isExporting = false }: Expor
     }
   }
 
+  // Scale the export size from the image's natural size
+  const handleScalePreset = (getSize: (naturalWidth: number, naturalHeight: number) => [number, number]) => {
+    if (!imageUrl) return
+
+    const img = new Image()
+    img.onload = () => {
+      const [newWidth, newHeight] = getSize(img.naturalWidth, img.naturalHeight)
+      setWidth(Math.round(newWidth))
+      setHeight(Math.round(newHeight))
+    }
+    img.onerror = () => {
+      toast({
+        title: "Could not apply preset",
+        description: "The image failed to load, so its size is unknown.",
+        variant: "destructive",
+      })
+    }
+    img.src = imageUrl
+  }
+
   // Handle aspect ratio changes
   const handleWidthChange = (newWidth: number) => {
     setWidth(newWidth)
@@ -230,6 +259,69 @@ export function ExportOptions({ imageUrl, onExport, isExporting = false }: Expor
               <Label htmlFor="aspect-ratio">Maintain aspect ratio</Label>
             </div>
 
+            <div className="grid grid-cols-3 gap-2">
+              <Button variant="outline" size="sm" disabled={!imageUrl} onClick={() => handleScalePreset((w, h) => [w, h])}>
+                Original
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!imageUrl}
+                onClick={() => handleScalePreset((w, h) => [w * 2, h * 2])}
+              >
+                2×
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!imageUrl}
+                onClick={() =>
+                  handleScalePreset((w, h) => {
+                    // Marketplaces want at least 2000px on the long edge for zoom
+                    const scale = 2048 / Math.max(w, h)
+                    return [w * scale, h * scale]
+                  })
+                }
+              >
+                2048px Zoom
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Upscaling Method</Label>
+              <Select value={upscaleMethod} onValueChange={(value) => setUpscaleMethod(value as UpscaleMethod)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {UPSCALE_METHODS.map((method) => (
+                    <SelectItem key={method.id} value={method.id}>
+                      {method.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {UPSCALE_METHODS.find((method) => method.id === upscaleMethod)?.description}
+              </p>
+            </div>
+
+            {upscaleMethod === "edge-aware" && (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Sharpen Amount</Label>
+                  <span className="text-sm text-muted-foreground">{sharpenAmount.toFixed(1)}</span>
+                </div>
+                <Slider
+                  value={[sharpenAmount]}
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  onValueChange={(value) => setSharpenAmount(value[0])}
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="filename">Filename</Label>
               <div className="flex space-x-2">
@@ -0,0 +1,197 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { History, ImageIcon, RefreshCw, Settings2, Trash2 } from "lucide-react"
+import { getProviders } from "@/lib/generation-providers"
+import { isNeutralAdjustments, renderAdjustedImage } from "@/lib/adjustments"
+import {
+  clearGenerationHistory,
+  deleteGenerationRecord,
+  getGenerationHistory,
+  isIndexedDBSupported,
+  type GenerationHistoryRecord,
+} from "@/lib/model-management"
+
+// Thumbnails are shown at 96px; render at twice that for high-density screens
+const THUMBNAIL_SIZE = 192
+
+interface GenerationHistoryPanelProps {
+  refreshKey: number // Bump to reload after a new generation is saved
+  onOpen: (record: GenerationHistoryRecord) => void
+  onRestore: (record: GenerationHistoryRecord) => void
+  onRerun: (record: GenerationHistoryRecord) => void
+}
+
+export function GenerationHistoryPanel({ refreshKey, onOpen, onRestore, onRerun }: GenerationHistoryPanelProps) {
+  const [records, setRecords] = useState<GenerationHistoryRecord[]>([])
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({})
+  const [search, setSearch] = useState("")
+  const [providerId, setProviderId] = useState("all")
+  const [isLoading, setIsLoading] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // Load records whenever the filter changes or a new generation is saved
+  useEffect(() => {
+    if (!isIndexedDBSupported()) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    getGenerationHistory({ search, providerId: providerId === "all" ? undefined : providerId })
+      .then((result) => {
+        if (!cancelled) setRecords(result)
+      })
+      .catch((error) => console.error("Error loading generation history:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [search, providerId, refreshKey, reloadKey])
+
+  // Create object URLs for the stored blobs and release them when the list changes
+  useEffect(() => {
+    let cancelled = false
+    const urls: Record<string, string> = {}
+    records.forEach((record) => {
+      urls[record.id] = URL.createObjectURL(record.image)
+    })
+    setImageUrls(urls)
+
+    // Show thumbnails with the record's adjustments baked in, like the editor preview
+    records.forEach((record) => {
+      if (!record.adjustments || isNeutralAdjustments(record.adjustments)) return
+      renderAdjustedImage(urls[record.id], record.adjustments, THUMBNAIL_SIZE)
+        .then((url) => {
+          if (!cancelled) setImageUrls((current) => ({ ...current, [record.id]: url }))
+        })
+        .catch((error) => console.error("Error rendering history thumbnail:", error))
+    })
+
+    return () => {
+      cancelled = true
+      Object.values(urls).forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [records])
+
+  const handleDelete = async (record: GenerationHistoryRecord) => {
+    await deleteGenerationRecord(record.id)
+    setReloadKey((key) => key + 1)
+  }
+
+  const handleClear = async () => {
+    await clearGenerationHistory()
+    setReloadKey((key) => key + 1)
+  }
+
+  if (!isIndexedDBSupported()) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-muted-foreground">
+          Generation history requires IndexedDB, which this browser does not support.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Generation History
+          </CardTitle>
+          <CardDescription>Every generated image with the settings that produced it</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleClear} disabled={records.length === 0}>
+          Clear History
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input placeholder="Search prompts..." value={search} onChange={(e) => setSearch(e.target.value)} />
+          <Select value={providerId} onValueChange={setProviderId}>
+            <SelectTrigger className="sm:w-[220px]">
+              <SelectValue placeholder="All providers" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All providers</SelectItem>
+              {getProviders().map((provider) => (
+                <SelectItem key={provider.id} value={provider.id}>
+                  {provider.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {records.length === 0 ? (
+          <div className="text-center p-8 text-muted-foreground">
+            <ImageIcon className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            {isLoading ? "Loading history..." : "No generations found"}
+          </div>
+        ) : (
+          <ScrollArea className="h-[600px] pr-4">
+            <div className="space-y-3">
+              {records.map((record) => (
+                <div key={record.id} className="flex gap-4 border rounded-md p-3">
+                  <img
+                    src={imageUrls[record.id] || "/placeholder.svg"}
+                    alt={record.prompt}
+                    className="w-24 h-24 object-cover rounded-md cursor-pointer flex-shrink-0"
+                    onClick={() => onOpen(record)}
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{record.providerName}</Badge>
+                      <span className="text-xs text-muted-foreground">{record.aiModel}</span>
+                      {record.seed !== undefined && (
+                        <span className="text-xs text-muted-foreground">Seed {record.seed}</span>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {(record.processingTime / 1000).toFixed(1)}s
+                      </span>
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        {new Date(record.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm line-clamp-2" title={record.prompt}>
+                      {record.prompt}
+                    </p>
+                    {record.negativePrompt && (
+                      <p className="text-xs text-muted-foreground line-clamp-1" title={record.negativePrompt}>
+                        Negative: {record.negativePrompt}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => onRestore(record)}>
+                        <Settings2 className="h-3 w-3 mr-1" />
+                        Restore Settings
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => onRerun(record)}>
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Re-run
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(record)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Loader2, X } from "lucide-react"
+import { isFinished, type GenerationJob, type GenerationJobState } from "@/lib/generation-queue"
+
+interface GenerationQueuePanelProps {
+  jobs: GenerationJob[]
+  onCancel: (id: string) => void
+  onCancelAll: () => void
+  onClearFinished: () => void
+}
+
+// Badge styling for each job state
+const stateStyles: Record<GenerationJobState, string> = {
+  queued: "bg-muted text-muted-foreground",
+  running: "bg-blue-100 text-blue-800",
+  retrying: "bg-amber-100 text-amber-800",
+  done: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-600",
+}
+
+// Describe what a job is doing right now
+export function describeJob(job: GenerationJob, now: number = Date.now()): string {
+  switch (job.state) {
+    case "queued":
+      return "Waiting for a free slot"
+    case "running":
+      return `Generating${job.startedAt ? ` for ${Math.round((now - job.startedAt) / 1000)}s` : ""}`
+    case "retrying":
+      return job.nextRetryAt
+        ? `Retrying in ${Math.max(0, Math.ceil((job.nextRetryAt - now) / 1000))}s (attempt ${job.attempts + 1})`
+        : `Retrying (attempt ${job.attempts})`
+    case "done":
+      return job.startedAt && job.finishedAt
+        ? `Finished in ${((job.finishedAt - job.startedAt) / 1000).toFixed(1)}s`
+        : "Finished"
+    case "failed":
+      return job.error || "Failed"
+    case "cancelled":
+      return "Cancelled"
+  }
+}
+
+export function GenerationQueuePanel({ jobs, onCancel, onCancelAll, onClearFinished }: GenerationQueuePanelProps) {
+  const [now, setNow] = useState(Date.now())
+  const hasActiveJobs = jobs.some((job) => !isFinished(job))
+
+  // Tick once a second while jobs are active so elapsed/retry timers update
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs])
+
+  if (jobs.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Generation Queue</CardTitle>
+        <CardDescription>
+          {jobs.filter((job) => !isFinished(job)).length} active, {jobs.filter(isFinished).length} finished
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ScrollArea className="max-h-[240px]">
+          <div className="space-y-2">
+            {jobs
+              .slice()
+              .reverse()
+              .map((job) => (
+                <div key={job.id} className="flex items-start justify-between gap-2 border rounded-md p-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={`border-transparent ${stateStyles[job.state]}`}>
+                        {(job.state === "running" || job.state === "retrying") && (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        )}
+                        {job.state}
+                      </Badge>
+                      <p className="text-sm font-medium truncate">{job.label}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 break-words">{describeJob(job, now)}</p>
+                  </div>
+                  {!isFinished(job) && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => onCancel(job.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" disabled={!hasActiveJobs} onClick={onCancelAll}>
+            Cancel All
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={!jobs.some(isFinished)}
+            onClick={onClearFinished}
+          >
+            Clear Finished
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
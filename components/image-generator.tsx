@@ -15,21 +15,50 @@ import { UserPresets, type UserPreset } from "@/components/user-presets"
 import { ExportOptions, type ExportOptions as ExportOptionsType } from "@/components/export-options"
 import { ApiKeySettings } from "@/components/api-key-settings"
 import { PromptEditor } from "@/components/prompt-editor"
+import { GenerationQueuePanel } from "@/components/generation-queue-panel"
+import { SamplingControls } from "@/components/sampling-controls"
+import type { GenerationCandidate } from "@/components/candidate-grid"
+import { GenerationHistoryPanel } from "@/components/generation-history-panel"
+import { MaskEditor } from "@/components/mask-editor"
+import { ShadowOptions } from "@/components/shadow-options"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Settings, Layers, Smartphone, Wand2, Key, MessageSquare } from "lucide-react"
+import { Settings, Layers, Smartphone, Wand2, Key, MessageSquare, Brush } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { generateImage, IMAGE_GENERATION_MODELS } from "@/lib/api"
+import { useGenerationQueue } from "@/hooks/use-generation-queue"
+import { useAdjustedImage } from "@/hooks/use-adjusted-image"
+import { generateImage, GENERATION_TOKEN_STORAGE_KEY, IMAGE_GENERATION_MODELS, validateGenerationToken } from "@/lib/api"
+import {
+  createRandomSeed,
+  DEFAULT_SAMPLING,
+  getProvider,
+  listGenerationModels,
+  resolveGenerationModel,
+} from "@/lib/generation-providers"
+import { GenerationCancelledError } from "@/lib/generation-queue"
+import { DEFAULT_SIZE_CONSTRAINTS } from "@/lib/output-size"
+import { upscaleImage } from "@/lib/upscaling"
+import { defaultAdjustments, renderAdjustedImage, type ImageAdjustments } from "@/lib/adjustments"
+import { AppError, getErrorToast } from "@/lib/errors"
 import { replaceBackground } from "@/lib/background-replacement"
 import { getBackgroundPresets } from "@/lib/background-replacement"
 import { preloadProductDetectionModel } from "@/lib/product-detection"
-import type { ModelSettings, StylePreset } from "@/lib/types"
-import type { SegmentationModel } from "@/lib/image-processing"
+import { isIndexedDBSupported, saveGenerationRecord, type GenerationHistoryRecord } from "@/lib/model-management"
+import type {
+  GenerateImageParams,
+  GenerateImageResult,
+  GenerationMode,
+  ModelSettings,
+  Resolution,
+  StylePreset,
+} from "@/lib/types"
+import { removeBackground, type SegmentationModel } from "@/lib/image-processing"
+import type { Mask } from "@/lib/mask"
 import type { BackgroundOptions } from "@/lib/background-replacement"
-import type { ProductType } from "@/lib/prompt-templates"
+import { getProductTypeById, getPromptVariations, type ProductType } from "@/lib/prompt-templates"
 import { string } from "@tensorflow/tfjs-core"
 
 export default function ImageGenerator() {
@@ -41,12 +70,19 @@ export default function ImageGenerator() {
   const [backgroundRemoved, setBackgroundRemoved] = useState(false)
   const [autoCrop, setAutoCrop] = useState(true)
   const [activeTab, setActiveTab] = useState<
-    "tryon" | "upload" | "editor" | "tuning" | "presets" | "export" | "settings" | "prompts"
+    "tryon" | "upload" | "editor" | "tuning" | "presets" | "export" | "settings" | "prompts" | "history"
   >("tryon")
-  const [resolution, setResolution] = useState<"512x512" | "1024x1024">("512x512")
+  const [resolution, setResolution] = useState<Resolution>("512x512")
   const [backgroundType, setBackgroundType] = useState<"studio" | "lifestyle">("studio")
-  const [brightness, setBrightness] = useState(50)
-  const [contrast, setContrast] = useState(50)
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(defaultAdjustments)
+  const { brightness, contrast } = adjustments
+  const [generationMode, setGenerationMode] = useState<GenerationMode>("text")
+  const [strength, setStrength] = useState(0.75)
+  const [seed, setSeed] = useState<number | null>(null)
+  const [steps, setSteps] = useState(DEFAULT_SAMPLING.steps)
+  const [guidanceScale, setGuidanceScale] = useState(DEFAULT_SAMPLING.guidanceScale)
+  const [scheduler, setScheduler] = useState<string | null>(null)
+  const [lastGenerationMetadata, setLastGenerationMetadata] = useState<GenerateImageResult["metadata"] | null>(null)
   const [isTensorFlowLoaded, setIsTensorFlowLoaded] = useState(false)
   const [modelType, setModelType] = useState<SegmentationModel>("bodypix")
   const [showBackgroundOptions, setShowBackgroundOptions] = useState(false)
@@ -65,6 +101,21 @@ export default function ImageGenerator() {
   const [productType, setProductType] = useState<ProductType | null>(null)
   const [productName, setProductName] = useState<string>("")
   const [isProductDetectionModelLoaded, setIsProductDetectionModelLoaded] = useState(false)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const [candidateCount, setCandidateCount] = useState(1)
+  const [variationMode, setVariationMode] = useState<"seed" | "prompt">("seed")
+  const [candidates, setCandidates] = useState<GenerationCandidate[]>([])
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0)
+  const [productMask, setProductMask] = useState<Mask | null>(null) // Hand-edited mask for productImage
+  const [productCutout, setProductCutout] = useState<string | null>(null) // productImage cut out with productMask
+  const [isEditingMask, setIsEditingMask] = useState(false)
+  const [exportSource, setExportSource] = useState<"generated" | "cutout">("generated")
+  const { jobs, enqueue, cancel, cancelAll, clearFinished } = useGenerationQueue()
+  const activeJob = jobs.find((job) => job.id === activeJobId) || null
+  const adjustedImage = useAdjustedImage(generatedImage, adjustments)
+  const selectedGenerationProvider = resolveGenerationModel(
+    generationModel || IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL,
+  )?.provider
 
   const [modelSettings, setModelSettings] = useState<ModelSettings>({
     gender: "female",
@@ -74,24 +125,28 @@ export default function ImageGenerator() {
     height: 66, // 5'6"
   })
 
-  // Check if we have a saved API key on component mount
+  // Check if the saved access token (if any) is accepted by the generation route on mount
   useEffect(() => {
-    const savedKey = localStorage.getItem("huggingface_api_key")
-    setIsApiKeyValid(!!savedKey)
+    let cancelled = false
+    const savedToken = localStorage.getItem(GENERATION_TOKEN_STORAGE_KEY) || ""
 
-    // If no API key is saved, show the API key dialog
-    if (!savedKey) {
-      // Show the dialog after a short delay to allow the UI to render first
-      const timer = setTimeout(() => {
+    validateGenerationToken(savedToken).then((result) => {
+      if (cancelled) return
+      setIsApiKeyValid(result.valid)
+
+      // If the route rejects us, show the access token dialog
+      if (!result.valid) {
         setShowApiKeyDialog(true)
         toast({
-          title: "API Key Required",
-          description: "Please configure your Hugging Face API key to use all features.",
+          title: "Access Token Required",
+          description: "Please configure your generation access token to use all features.",
           variant: "default",
         })
-      }, 1000)
-      
-      return () => clearTimeout(timer)
+      }
+    })
+
+    return () => {
+      cancelled = true
     }
   }, [])
 
@@ -140,8 +195,35 @@ export default function ImageGenerator() {
     preloadModels()
   }, [])
 
+  // A mask belongs to one image, so drop it whenever the product image changes
+  const resetProductMask = () => {
+    setProductMask(null)
+    setProductCutout(null)
+    setIsEditingMask(false)
+    setExportSource("generated")
+  }
+
+  const handleApplyMask = async (mask: Mask) => {
+    if (!productImage) return
+
+    setProductMask(mask)
+    setIsEditingMask(false)
+
+    try {
+      setProductCutout(await removeBackground(productImage, { mask, backgroundColor: { r: 0, g: 0, b: 0, a: 0 } }))
+      toast({
+        title: "Mask saved",
+        description: "The edited mask will be used for background replacement and is available as a cutout in Export.",
+      })
+    } catch (error) {
+      console.error("Error applying mask:", error)
+      toast({ ...getErrorToast(error, "Could not apply the mask"), variant: "destructive" })
+    }
+  }
+
   const handleUploadComplete = (imageUrl: string) => {
     setProductImage(imageUrl)
+    resetProductMask()
     setOriginalImage(imageUrl) // Save original for comparison
     setActiveTab("editor")
     toast({
@@ -160,12 +242,14 @@ export default function ImageGenerator() {
       return
     }
 
-    // Check if we have a valid API key (unless using mock mode)
-    if (generationModel !== IMAGE_GENERATION_MODELS.MOCK && !isApiKeyValid) {
+    // Check if we have a valid access token (unless the selected provider runs in the browser)
+    const selected = resolveGenerationModel(generationModel || IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL)
+    const selectedProvider = selected?.provider
+    if (!selectedProvider?.generateLocally && !isApiKeyValid) {
       setShowApiKeyDialog(true)
       toast({
-        title: "API key required",
-        description: "Please configure your Hugging Face API key first.",
+        title: "Access token required",
+        description: "Please configure your generation access token first.",
         variant: "destructive",
       })
       return
@@ -185,14 +269,14 @@ export default function ImageGenerator() {
 
         processedImage = await replaceBackground(productImage, backgroundOptions, {
           modelType,
+          mask: productMask ?? undefined,
           progressCallback: (progress, message) => {
             // You could update UI with progress here
           },
         })
       }
 
-      // Then generate the AI image
-      const result = await generateImage({
+      const baseParams: GenerateImageParams = {
         productImage: processedImage,
         backgroundRemoved,
         autoCrop,
@@ -201,43 +285,259 @@ export default function ImageGenerator() {
         backgroundType,
         brightness,
         contrast,
-        generationModel,
+        modelType: generationModel ?? undefined,
         customPrompt,
         negativePrompt,
         productType: productType?.id,
-      })
+        generationMode,
+        strength,
+        seed: seed ?? undefined,
+        steps,
+        guidanceScale,
+        scheduler: scheduler ?? undefined,
+      }
+      const jobLabel = `${selected?.model.name || "Generation"} · ${resolution}`
+
+      if (candidateCount > 1) {
+        await generateCandidates(baseParams, jobLabel)
+        return
+      }
 
+      // Then queue the AI generation so it can be cancelled and retried
+      const job = enqueue(jobLabel, (signal) => generateImage(baseParams, { signal }))
+      setActiveJobId(job.id)
+
+      const result = await job.promise
       setGeneratedImage(result.imageUrl)
+      setLastGenerationMetadata(result.metadata)
+      recordGeneration(baseParams, result)
 
       // Show appropriate toast based on whether it's a mock or real generation
       if (result.metadata.aiModel === "Mock Generator" || result.metadata.aiModel === "Error") {
         toast({
           title: "Using mock generator",
-          description: "The image was generated using the mock generator. Configure your API key for real generation.",
+          description: "The image was generated using the mock generator. Check the server provider configuration for real generation.",
           variant: "warning",
         })
       } else {
         toast({
           title: "Generation complete",
-          description: `Image generated in ${(result.metadata.processingTime / 1000).toFixed(1)}s using ${result.metadata.aiModel}.`,
+          description:
+            `Image generated in ${(result.metadata.processingTime / 1000).toFixed(1)}s using ${result.metadata.aiModel}.` +
+            (result.metadata.generationMode && result.metadata.generationMode !== generationMode
+              ? ` The model doesn't support ${generationMode}, so ${result.metadata.generationMode} was used instead.`
+              : ""),
         })
       }
     } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        toast({
+          title: "Generation cancelled",
+          description: "The generation request was cancelled.",
+        })
+        return
+      }
+
       console.error("Generation error:", error)
+      showGenerationError(error)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // Explain a failed generation; auth failures reopen the access token dialog
+  const showGenerationError = (error: unknown) => {
+    toast({ ...getErrorToast(error, "Generation failed"), variant: "destructive" })
+
+    if (error instanceof AppError && error.type === "auth") {
+      setShowApiKeyDialog(true)
+    }
+  }
+
+  // Queue one job per candidate, varying either the seed or the prompt, and fill the grid as they finish
+  const generateCandidates = async (baseParams: GenerateImageParams, jobLabel: string) => {
+    const baseSeed = baseParams.seed ?? createRandomSeed()
+    const variations = variationMode === "prompt" ? getPromptVariations(candidateCount) : []
+
+    const batch = Array.from({ length: candidateCount }, (_, index) => {
+      const params: GenerateImageParams =
+        variationMode === "prompt"
+          ? { ...baseParams, seed: baseSeed, promptVariation: variations[index] }
+          : { ...baseParams, seed: (baseSeed + index) % 2 ** 32 }
+      const label = variationMode === "prompt" ? variations[index] : `Seed ${params.seed}`
+      const job = enqueue(`${jobLabel} · ${index + 1}/${candidateCount}`, (signal) => generateImage(params, { signal }))
+      const candidate: GenerationCandidate = { id: job.id, jobId: job.id, label, kept: false }
+      return { job, candidate, params }
+    })
+
+    // A new batch replaces the previous unkept candidates
+    setCandidates((current) => [...current.filter((c) => c.kept), ...batch.map(({ candidate }) => candidate)])
+
+    const results = await Promise.allSettled(
+      batch.map(async ({ job, candidate, params }) => {
+        const result = await job.promise
+        recordGeneration(params, result)
+        setCandidates((current) =>
+          current.map((c) => (c.id === candidate.id ? { ...c, imageUrl: result.imageUrl, metadata: result.metadata } : c)),
+        )
+        return result
+      }),
+    )
+
+    const succeeded = results.filter((r) => r.status === "fulfilled").length
+    const cancelled = results.filter((r) => r.status === "rejected" && r.reason instanceof GenerationCancelledError).length
+    const failed = results.length - succeeded - cancelled
+
+    // When nothing succeeded, explain the first failure instead of just counting
+    const firstFailure = results.find(
+      (r): r is PromiseRejectedResult => r.status === "rejected" && !(r.reason instanceof GenerationCancelledError),
+    )
+    if (succeeded === 0 && firstFailure) {
+      showGenerationError(firstFailure.reason)
+      return
+    }
+
+    toast({
+      title: succeeded > 0 ? "Candidates ready" : "Generation failed",
+      description:
+        `${succeeded} of ${results.length} candidates generated` +
+        (failed > 0 ? `, ${failed} failed` : "") +
+        (cancelled > 0 ? `, ${cancelled} cancelled` : "") +
+        (succeeded > 0 ? ". Promote one to make it the working image." : "."),
+      variant: succeeded > 0 ? undefined : "destructive",
+    })
+  }
+
+  // Save a finished generation to the history store; failures are logged rather than interrupting the user
+  const recordGeneration = (params: GenerateImageParams, result: GenerateImageResult) => {
+    if (!isIndexedDBSupported()) return
+
+    // Mock fallbacks are attributed to the mock provider rather than the one that failed
+    const isMock = result.metadata.aiModel === "Mock Generator" || result.metadata.aiModel === "Error"
+    const provider = isMock
+      ? getProvider("mock")
+      : resolveGenerationModel(params.modelType || IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL)?.provider
+
+    saveGenerationRecord(result.imageUrl, {
+      params,
+      prompt: result.metadata.prompt || params.customPrompt || "",
+      negativePrompt: result.metadata.negativePrompt,
+      providerId: provider?.id || "unknown",
+      providerName: provider?.name || "Unknown",
+      aiModel: result.metadata.aiModel,
+      seed: result.metadata.seed,
+      processingTime: result.metadata.processingTime,
+      metadata: result.metadata,
+      adjustments,
+    })
+      .then(() => setHistoryRefreshKey((key) => key + 1))
+      .catch((error) => console.error("Error saving generation history:", error))
+  }
+
+  // Load a past generation's settings back into the editor
+  const restoreHistorySettings = (record: GenerationHistoryRecord) => {
+    const { params } = record
+
+    // The snapshot holds the product image exactly as it was sent, with any background already applied
+    setProductImage(params.productImage)
+    resetProductMask()
+    setShowBackgroundOptions(false)
+    setBackgroundRemoved(params.backgroundRemoved)
+    setAutoCrop(params.autoCrop)
+    setModelSettings(params.modelSettings)
+    setResolution(params.resolution)
+    setBackgroundType(params.backgroundType)
+    // Records from before the adjustment stack only have brightness and contrast
+    setAdjustments(
+      record.adjustments ?? { ...defaultAdjustments, brightness: params.brightness, contrast: params.contrast },
+    )
+    setGenerationModel(params.modelType ?? null)
+    setCustomPrompt(params.customPrompt || "")
+    setNegativePrompt(params.negativePrompt || "")
+    setProductType(params.productType ? getProductTypeById(params.productType) || null : null)
+    setGenerationMode(params.generationMode || "text")
+    setStrength(params.strength ?? 0.75)
+    setSeed(record.seed ?? null)
+    setSteps(params.steps ?? DEFAULT_SAMPLING.steps)
+    setGuidanceScale(params.guidanceScale ?? DEFAULT_SAMPLING.guidanceScale)
+    setScheduler(params.scheduler ?? null)
+  }
+
+  const handleRestoreHistory = (record: GenerationHistoryRecord) => {
+    restoreHistorySettings(record)
+    setActiveTab("editor")
+
+    toast({
+      title: "Settings restored",
+      description: "The editor now has the settings from the selected generation.",
+    })
+  }
+
+  const handleOpenHistory = (record: GenerationHistoryRecord) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      setGeneratedImage(reader.result as string)
+      setLastGenerationMetadata(record.metadata)
+      if (record.adjustments) setAdjustments(record.adjustments)
+      setActiveTab("export")
+    }
+    reader.readAsDataURL(record.image)
+  }
+
+  // Re-run the exact request, pinned to the recorded seed
+  const handleRerunHistory = async (record: GenerationHistoryRecord) => {
+    restoreHistorySettings(record)
+    setActiveTab("editor")
+    setIsGenerating(true)
+
+    const params: GenerateImageParams = { ...record.params, seed: record.seed ?? record.params.seed }
+
+    try {
+      const job = enqueue(`Re-run · ${record.aiModel}`, (signal) => generateImage(params, { signal }))
+      setActiveJobId(job.id)
+
+      const result = await job.promise
+      setGeneratedImage(result.imageUrl)
+      setLastGenerationMetadata(result.metadata)
+      recordGeneration(params, result)
+
       toast({
-        title: "Generation failed",
-        description: error instanceof Error ? error.message : "There was an error generating your image.",
-        variant: "destructive",
+        title: "Generation complete",
+        description: `Re-ran the generation in ${(result.metadata.processingTime / 1000).toFixed(1)}s.`,
       })
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) return
+
+      console.error("Generation error:", error)
+      showGenerationError(error)
     } finally {
       setIsGenerating(false)
     }
   }
 
+  const promoteCandidate = (candidate: GenerationCandidate) => {
+    if (!candidate.imageUrl) return
+    setGeneratedImage(candidate.imageUrl)
+    setLastGenerationMetadata(candidate.metadata ?? null)
+  }
+
+  const toggleKeepCandidate = (candidate: GenerationCandidate) => {
+    setCandidates((current) => current.map((c) => (c.id === candidate.id ? { ...c, kept: !c.kept } : c)))
+  }
+
+  const discardCandidate = (candidate: GenerationCandidate) => {
+    cancel(candidate.jobId)
+    setCandidates((current) => current.filter((c) => c.id !== candidate.id))
+  }
+
+  const discardUnkeptCandidates = () => {
+    candidates.filter((c) => !c.kept).forEach((c) => cancel(c.jobId))
+    setCandidates((current) => current.filter((c) => c.kept))
+  }
+
   const applyStylePreset = (preset: StylePreset) => {
     setBackgroundType(preset.backgroundType)
-    setBrightness(preset.brightness)
-    setContrast(preset.contrast)
+    setAdjustments((current) => ({ ...current, brightness: preset.brightness, contrast: preset.contrast }))
 
     toast({
       title: "Style applied",
@@ -246,7 +546,13 @@ export default function ImageGenerator() {
   }
 
   const applyBackgroundPreset = (preset: { id: string; name: string; options: BackgroundOptions }) => {
-    setBackgroundOptions(preset.options)
+    // Presets only set the backdrop, so keep the current shadow and reflection settings
+    setBackgroundOptions((current) => ({
+      ...preset.options,
+      contactShadow: current.contactShadow,
+      dropShadow: current.dropShadow,
+      reflection: current.reflection,
+    }))
     setShowBackgroundOptions(true)
 
     toast({
@@ -276,15 +582,15 @@ export default function ImageGenerator() {
     if (isValid) {
       setShowApiKeyDialog(false)
       toast({
-        title: "API key validated",
-        description: "Your Hugging Face API key has been validated and saved. All features are now available.",
+        title: "Access token validated",
+        description: "Your access token has been validated and saved. All features are now available.",
         variant: "success",
       })
     } else {
       // Keep dialog open but show a toast with guidance
       toast({
-        title: "API key validation failed",
-        description: "Please check your API key or try using the Mock Generator which doesn't require an API key.",
+        title: "Access token validation failed",
+        description: "Please check your access token or try using the Mock Generator which doesn't require one.",
         variant: "destructive",
       })
     }
@@ -330,13 +636,23 @@ export default function ImageGenerator() {
     setAutoCrop(preset.settings.autoCrop)
     setModelType(preset.settings.modelType)
     setBackgroundType(preset.settings.backgroundType)
-    setBrightness(preset.settings.brightness)
-    setContrast(preset.settings.contrast)
+    setAdjustments(
+      preset.settings.adjustments ?? {
+        ...defaultAdjustments,
+        brightness: preset.settings.brightness,
+        contrast: preset.settings.contrast,
+      },
+    )
     setResolution(preset.settings.resolution)
 
     // Show background options if the preset uses them
+    const presetBackground = preset.settings.backgroundOptions
     setShowBackgroundOptions(
-      preset.settings.backgroundOptions.type !== "color" || preset.settings.backgroundOptions.color !== "#FFFFFF",
+      presetBackground.type !== "color" ||
+        presetBackground.color !== "#FFFFFF" ||
+        !!presetBackground.contactShadow?.enabled ||
+        !!presetBackground.dropShadow?.enabled ||
+        !!presetBackground.reflection?.enabled,
     )
 
     // Switch to editor tab
@@ -348,20 +664,39 @@ export default function ImageGenerator() {
     })
   }
 
+  // Export the cutout when selected, or when there is no generated image yet
+  const exportsCutout = !!productCutout && (exportSource === "cutout" || !generatedImage)
+  const exportImage = exportsCutout ? productCutout : adjustedImage
+
   const handleExport = async (options: ExportOptionsType): Promise<string> => {
-    if (!generatedImage) {
+    if (!exportImage) {
       throw new Error("No image to export")
     }
 
     setIsExporting(true)
 
     try {
+      // Bake the adjustments at full resolution rather than relying on the debounced preview
+      const baseImage =
+        !exportsCutout && generatedImage ? await renderAdjustedImage(generatedImage, adjustments) : exportImage
+
+      // Upscale (or downscale) to the export size with the selected resampling method
+      const sourceImage =
+        options.upscaleMethod === "none"
+          ? baseImage
+          : await upscaleImage(baseImage, {
+              method: options.upscaleMethod,
+              width: options.width,
+              height: options.height,
+              sharpenAmount: options.sharpenAmount,
+            })
+
       // Create a canvas to process the image
       const img = new Image()
       await new Promise((resolve, reject) => {
         img.onload = resolve
         img.onerror = reject
-        img.src = generatedImage
+        img.src = sourceImage
       })
 
       const canvas = document.createElement("canvas")
@@ -405,6 +740,7 @@ export default function ImageGenerator() {
       return dataUrl
     } catch (error) {
       console.error("Export error:", error)
+      toast({ ...getErrorToast(error, "Export failed"), variant: "destructive" })
       throw error
     } finally {
       setIsExporting(false)
@@ -421,6 +757,7 @@ export default function ImageGenerator() {
     backgroundType,
     brightness,
     contrast,
+    adjustments,
     resolution,
   })
 
@@ -432,7 +769,7 @@ export default function ImageGenerator() {
       <Dialog open={showApiKeyDialog} onOpenChange={setShowApiKeyDialog}>
         <DialogContent className="sm:max-w-[600px]">
           <DialogHeader>
-            <DialogTitle>Configure Hugging Face API Key</DialogTitle>
+            <DialogTitle>Configure Access Token</DialogTitle>
           </DialogHeader>
           <ApiKeySettings onApiKeyValidated={handleApiKeyValidated} />
         </DialogContent>
@@ -460,87 +797,29 @@ export default function ImageGenerator() {
                   <div className="space-y-2">
                     <h3 className="text-sm font-medium">Available Models</h3>
                     <div className="grid grid-cols-1 gap-2">
-                      <div
-                        className={`border rounded-md p-3 cursor-pointer hover:border-primary transition-colors ${generationModel === IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL ? "border-primary bg-primary/10" : ""}`}
-                        onClick={() => setGenerationModel(IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL)}
-                      >
-                        <div className="flex justify-between items-center">
-                          <div>
-                            <p className="font-medium">Stable Diffusion XL</p>
-                            <p className="text-xs text-muted-foreground">
-                              High quality general-purpose image generation
-                            </p>
-                          </div>
-                          {generationModel === IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL && (
-                            <div className="h-3 w-3 rounded-full bg-primary"></div>
-                          )}
-                        </div>
-                      </div>
-
-                      <div
-                        className={`border rounded-md p-3 cursor-pointer hover:border-primary transition-colors ${generationModel === IMAGE_GENERATION_MODELS.STABLE_DIFFUSION ? "border-primary bg-primary/10" : ""}`}
-                        onClick={() => setGenerationModel(IMAGE_GENERATION_MODELS.STABLE_DIFFUSION)}
-                      >
-                        <div className="flex justify-between items-center">
-                          <div>
-                            <p className="font-medium">Stable Diffusion 1.5</p>
-                            <p className="text-xs text-muted-foreground">Faster generation with good quality</p>
-                          </div>
-                          {generationModel === IMAGE_GENERATION_MODELS.STABLE_DIFFUSION && (
-                            <div className="h-3 w-3 rounded-full bg-primary"></div>
-                          )}
-                        </div>
-                      </div>
-
-                      <div
-                        className={`border rounded-md p-3 cursor-pointer hover:border-primary transition-colors ${generationModel === IMAGE_GENERATION_MODELS.PIXART_ALPHA ? "border-primary bg-primary/10" : ""}`}
-                        onClick={() => setGenerationModel(IMAGE_GENERATION_MODELS.PIXART_ALPHA)}
-                      >
-                        <div className="flex justify-between items-center">
-                          <div>
-                            <p className="font-medium">PixArt-Alpha</p>
-                            <p className="text-xs text-muted-foreground">
-                              Specialized for artistic and detailed images
-                            </p>
-                          </div>
-                          {generationModel === IMAGE_GENERATION_MODELS.PIXART_ALPHA && (
-                            <div className="h-3 w-3 rounded-full bg-primary"></div>
-                          )}
-                        </div>
-                      </div>
-
-                      <div
-                        className={`border rounded-md p-3 cursor-pointer hover:border-primary transition-colors ${generationModel === IMAGE_GENERATION_MODELS.KANDINSKY ? "border-primary bg-primary/10" : ""}`}
-                        onClick={() => setGenerationModel(IMAGE_GENERATION_MODELS.KANDINSKY)}
-                      >
-                        <div className="flex justify-between items-center">
-                          <div>
-                            <p className="font-medium">Kandinsky</p>
-                            <p className="text-xs text-muted-foreground">Russian model with unique artistic style</p>
-                          </div>
-                          {generationModel === IMAGE_GENERATION_MODELS.KANDINSKY && (
-                            <div className="h-3 w-3 rounded-full bg-primary"></div>
-                          )}
-                        </div>
-                      </div>
-
-                      <div
-                        className={`border rounded-md p-3 cursor-pointer hover:border-primary transition-colors ${generationModel === IMAGE_GENERATION_MODELS.MOCK ? "border-primary bg-primary/10" : "border-green-200 bg-green-50"}`}
-                        onClick={() => setGenerationModel(IMAGE_GENERATION_MODELS.MOCK)}
-                      >
-                        <div className="flex justify-between items-center">
-                          <div>
-                            <div className="flex items-center">
-                              <p className="font-medium">Mock Generator</p>
-                              <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">No API Key Required</span>
+                      {listGenerationModels().map((model) => (
+                        <div
+                          key={model.id}
+                          className={`border rounded-md p-3 cursor-pointer hover:border-primary transition-colors ${generationModel === model.id ? "border-primary bg-primary/10" : model.providerId === "mock" ? "border-green-200 bg-green-50" : ""}`}
+                          onClick={() => setGenerationModel(model.id)}
+                        >
+                          <div className="flex justify-between items-center">
+                            <div>
+                              <div className="flex items-center">
+                                <p className="font-medium">{model.name}</p>
+                                {!model.capabilities.requiresApiKey && (
+                                  <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">No API Key Required</span>
+                                )}
+                              </div>
+                              <p className="text-xs text-muted-foreground">{model.description}</p>
+                              <p className="text-xs text-muted-foreground">{model.providerName}</p>
                             </div>
-                            <p className="text-xs text-muted-foreground">Works without Hugging Face API key - perfect for testing</p>
+                            {generationModel === model.id && (
+                              <div className="h-3 w-3 rounded-full bg-primary"></div>
+                            )}
                           </div>
-                          {generationModel === IMAGE_GENERATION_MODELS.MOCK && (
-                            <div className="h-3 w-3 rounded-full bg-primary"></div>
-                          )}
                         </div>
-                      </div>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -560,7 +839,7 @@ export default function ImageGenerator() {
                   Background Options
                 </Button>
               </DialogTrigger>
-              <DialogContent className="sm:max-w-[500px]">
+              <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Background Options</DialogTitle>
                 </DialogHeader>
@@ -587,6 +866,11 @@ export default function ImageGenerator() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium">Shadows & Reflection</h3>
+                    <ShadowOptions options={backgroundOptions} onChange={setBackgroundOptions} />
+                  </div>
+
                   <div className="flex items-center justify-between">
                     <span className="text-sm">Use Custom Background</span>
                     <Button
@@ -608,7 +892,7 @@ export default function ImageGenerator() {
               className={isApiKeyValid ? "border-green-500 text-green-600" : "bg-amber-500 hover:bg-amber-600"}
             >
               <Key className={`h-4 w-4 mr-2 ${isApiKeyValid ? "text-green-600" : ""}`} />
-              {isApiKeyValid ? "API Key (Valid)" : "Set API Key"}
+              {isApiKeyValid ? "Access Token (Valid)" : "Set Access Token"}
             </Button>
 
             <Dialog>
@@ -648,7 +932,8 @@ export default function ImageGenerator() {
               <TabsTrigger value="prompts">Prompt Templates</TabsTrigger>
               <TabsTrigger value="tuning">Model Tuning</TabsTrigger>
               <TabsTrigger value="presets">User Presets</TabsTrigger>
-              <TabsTrigger value="export" disabled={!generatedImage}>
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="export" disabled={!generatedImage && !productCutout}>
                 Export
               </TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
@@ -687,23 +972,52 @@ export default function ImageGenerator() {
             <TabsContent value="editor" className="mt-4">
               <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
                 <div className="lg:col-span-3">
-                  <SceneEditor
-                    productImage={productImage}
-                    generatedImage={generatedImage}
-                    isGenerating={isGenerating}
-                    backgroundType={backgroundType}
-                    setBackgroundType={setBackgroundType}
-                    brightness={brightness}
-                    setBrightness={setBrightness}
-                    contrast={contrast}
-                    setContrast={setContrast}
-                  />
+                  {isEditingMask && productImage ? (
+                    <MaskEditor
+                      imageUrl={productImage}
+                      mask={productMask}
+                      modelType={modelType}
+                      onApply={handleApplyMask}
+                      onCancel={() => setIsEditingMask(false)}
+                    />
+                  ) : (
+                    <SceneEditor
+                      productImage={productImage}
+                      generatedImage={generatedImage}
+                      isGenerating={isGenerating}
+                      backgroundType={backgroundType}
+                      setBackgroundType={setBackgroundType}
+                      adjustedImage={adjustedImage}
+                      adjustments={adjustments}
+                      setAdjustments={setAdjustments}
+                      generationMode={generationMode}
+                      setGenerationMode={setGenerationMode}
+                      strength={strength}
+                      setStrength={setStrength}
+                      generationJob={activeJob}
+                      onCancelGeneration={activeJob ? () => cancel(activeJob.id) : undefined}
+                      candidates={{
+                        candidates,
+                        jobs,
+                        onPromote: promoteCandidate,
+                        onToggleKeep: toggleKeepCandidate,
+                        onDiscard: discardCandidate,
+                        onDiscardUnkept: discardUnkeptCandidates,
+                      }}
+                    />
+                  )}
 
-                  {generatedImage && originalImage && (
-                    <div className="mt-4 flex justify-end">
-                      <Button variant="outline" size="sm" onClick={() => setShowComparison(!showComparison)}>
-                        {showComparison ? "Hide Comparison" : "Show Before/After"}
+                  {productImage && !isEditingMask && (
+                    <div className="mt-4 flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setIsEditingMask(true)}>
+                        <Brush className="h-4 w-4 mr-2" />
+                        {productMask ? "Edit Mask (Edited)" : "Edit Mask"}
                       </Button>
+                      {generatedImage && originalImage && (
+                        <Button variant="outline" size="sm" onClick={() => setShowComparison(!showComparison)}>
+                          {showComparison ? "Hide Comparison" : "Show Before/After"}
+                        </Button>
+                      )}
                     </div>
                   )}
 
@@ -711,14 +1025,32 @@ export default function ImageGenerator() {
                     <div className="mt-4">
                       <ImageComparison
                         beforeImage={originalImage}
-                        afterImage={generatedImage}
+                        afterImage={adjustedImage || generatedImage}
                         fullWidth={comparisonFullWidth}
                         onToggleFullWidth={() => setComparisonFullWidth(!comparisonFullWidth)}
                       />
                     </div>
                   )}
                 </div>
-                <div className="lg:col-span-1">
+                <div className="lg:col-span-1 space-y-4">
+                  <GenerationQueuePanel
+                    jobs={jobs}
+                    onCancel={cancel}
+                    onCancelAll={cancelAll}
+                    onClearFinished={clearFinished}
+                  />
+                  <SamplingControls
+                    capabilities={selectedGenerationProvider?.capabilities}
+                    seed={seed}
+                    setSeed={setSeed}
+                    steps={steps}
+                    setSteps={setSteps}
+                    guidanceScale={guidanceScale}
+                    setGuidanceScale={setGuidanceScale}
+                    scheduler={scheduler}
+                    setScheduler={setScheduler}
+                    lastSeed={lastGenerationMetadata?.seed}
+                  />
                   <StylePresets onSelectPreset={applyStylePreset} />
                 </div>
               </div>
@@ -744,15 +1076,41 @@ export default function ImageGenerator() {
               <UserPresets currentSettings={getCurrentSettings()} onApplyPreset={handleApplyPreset} />
             </TabsContent>
 
+            <TabsContent value="history" className="mt-4">
+              <GenerationHistoryPanel
+                refreshKey={historyRefreshKey}
+                onOpen={handleOpenHistory}
+                onRestore={handleRestoreHistory}
+                onRerun={handleRerunHistory}
+              />
+            </TabsContent>
+
             <TabsContent value="export" className="mt-4">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div>
                   <Card className="w-full h-full flex flex-col">
+                    {productCutout && (
+                      <div className="p-4 pb-0">
+                        <Tabs
+                          value={exportsCutout ? "cutout" : "generated"}
+                          onValueChange={(value) => setExportSource(value as "generated" | "cutout")}
+                        >
+                          <TabsList className="w-full">
+                            <TabsTrigger value="generated" className="flex-1" disabled={!generatedImage}>
+                              Generated Image
+                            </TabsTrigger>
+                            <TabsTrigger value="cutout" className="flex-1">
+                              Product Cutout
+                            </TabsTrigger>
+                          </TabsList>
+                        </Tabs>
+                      </div>
+                    )}
                     <CardContent className="p-4 flex-1 flex items-center justify-center">
-                      {generatedImage ? (
+                      {exportImage ? (
                         <img
-                          src={generatedImage || "/placeholder.svg"}
-                          alt="Generated product"
+                          src={exportImage || "/placeholder.svg"}
+                          alt={exportsCutout ? "Product cutout" : "Generated product"}
                           className="max-w-full max-h-[500px] object-contain rounded-md"
                         />
                       ) : (
@@ -762,7 +1120,7 @@ export default function ImageGenerator() {
                   </Card>
                 </div>
                 <div>
-                  <ExportOptions imageUrl={generatedImage} onExport={handleExport} isExporting={isExporting} />
+                  <ExportOptions imageUrl={exportImage} onExport={handleExport} isExporting={isExporting} />
                 </div>
               </div>
             </TabsContent>
@@ -828,8 +1186,13 @@ export default function ImageGenerator() {
         isGenerating={isGenerating}
         resolution={resolution}
         setResolution={setResolution}
+        sizeConstraints={selectedGenerationProvider?.capabilities.sizeConstraints || DEFAULT_SIZE_CONSTRAINTS}
         generatedImage={generatedImage}
         disabled={!productImage}
+        candidateCount={candidateCount}
+        setCandidateCount={setCandidateCount}
+        variationMode={variationMode}
+        setVariationMode={setVariationMode}
       />
     </div>
   )
@@ -0,0 +1,331 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Brush, Check, Eraser, Loader2, Plus, RotateCcw, Undo2, Wand2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { getErrorToast } from "@/lib/errors"
+import { loadImageElement, removeBackground, type SegmentationModel } from "@/lib/image-processing"
+import { Mask, type MaskBoundingBox } from "@/lib/mask"
+import { magicWandFill, paintMaskStroke, type MaskBrushMode } from "@/lib/mask-editing"
+
+interface MaskEditorProps {
+  imageUrl: string
+  mask: Mask | null // Previously edited mask; null starts from a fresh segmentation
+  modelType: SegmentationModel
+  onApply: (mask: Mask) => void
+  onCancel: () => void
+}
+
+// Undo snapshots are full copies of the mask, so keep only the most recent ones
+const MAX_UNDO_STEPS = 20
+
+// Background is tinted so misses and leftovers stand out against the product
+const OVERLAY_COLOR = { r: 239, g: 68, b: 68 }
+const OVERLAY_OPACITY = 0.55
+
+export function MaskEditor({ imageUrl, mask, modelType, onApply, onCancel }: MaskEditorProps) {
+  const { toast } = useToast()
+  const [tool, setTool] = useState<"brush" | "wand">("brush")
+  const [mode, setMode] = useState<MaskBrushMode>("add")
+  const [brushSize, setBrushSize] = useState(24)
+  const [hardness, setHardness] = useState(0.7)
+  const [tolerance, setTolerance] = useState(24)
+  const [isLoading, setIsLoading] = useState(true)
+  const [undoCount, setUndoCount] = useState(0)
+
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null)
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null)
+  const maskRef = useRef<Mask | null>(null)
+  const initialMaskRef = useRef<Mask | null>(null)
+  const imageDataRef = useRef<ImageData | null>(null)
+  const overlayDataRef = useRef<ImageData | null>(null)
+  const undoStackRef = useRef<Float32Array[]>([])
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null)
+
+  // Redraw the tint for the part of the mask that changed
+  const renderOverlay = (box?: MaskBoundingBox | null) => {
+    const currentMask = maskRef.current
+    const overlayData = overlayDataRef.current
+    const ctx = overlayCanvasRef.current?.getContext("2d")
+    if (!currentMask || !overlayData || !ctx) return
+
+    const region = box || { x: 0, y: 0, width: currentMask.width, height: currentMask.height }
+    for (let y = region.y; y < region.y + region.height; y++) {
+      for (let x = region.x; x < region.x + region.width; x++) {
+        const i = y * currentMask.width + x
+        overlayData.data[i * 4] = OVERLAY_COLOR.r
+        overlayData.data[i * 4 + 1] = OVERLAY_COLOR.g
+        overlayData.data[i * 4 + 2] = OVERLAY_COLOR.b
+        overlayData.data[i * 4 + 3] = (1 - currentMask.data[i]) * OVERLAY_OPACITY * 255
+      }
+    }
+
+    ctx.putImageData(overlayData, 0, 0, region.x, region.y, region.width, region.height)
+  }
+
+  // Load the image and the starting mask whenever a new image is edited
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    undoStackRef.current = []
+    setUndoCount(0)
+
+    const load = async () => {
+      const img = await loadImageElement(imageUrl)
+      const imageCanvas = imageCanvasRef.current
+      const overlayCanvas = overlayCanvasRef.current
+      const ctx = imageCanvas?.getContext("2d")
+      if (!imageCanvas || !overlayCanvas || !ctx) return
+
+      imageCanvas.width = overlayCanvas.width = img.width
+      imageCanvas.height = overlayCanvas.height = img.height
+      ctx.drawImage(img, 0, 0)
+      imageDataRef.current = ctx.getImageData(0, 0, img.width, img.height)
+
+      // Start from the saved mask, or read one back from a transparent cutout
+      let startMask = mask && mask.width === img.width && mask.height === img.height ? mask.clone() : null
+      if (!startMask) {
+        const cutout = await loadImageElement(
+          await removeBackground(imageUrl, { modelType, backgroundColor: { r: 0, g: 0, b: 0, a: 0 } }),
+        )
+        const cutoutCanvas = document.createElement("canvas")
+        cutoutCanvas.width = img.width
+        cutoutCanvas.height = img.height
+        const cutoutCtx = cutoutCanvas.getContext("2d")
+        if (!cutoutCtx) return
+        cutoutCtx.drawImage(cutout, 0, 0, img.width, img.height)
+        startMask = Mask.fromAlpha(cutoutCtx.getImageData(0, 0, img.width, img.height))
+      }
+
+      if (cancelled) return
+      maskRef.current = startMask
+      initialMaskRef.current = startMask.clone()
+      overlayDataRef.current = new ImageData(img.width, img.height)
+      setBrushSize(Math.max(4, Math.round(Math.min(img.width, img.height) / 40)))
+      renderOverlay()
+    }
+
+    load()
+      .catch((error) => {
+        console.error("Error loading mask editor:", error)
+        toast({ ...getErrorToast(error, "Could not load the mask"), variant: "destructive" })
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [imageUrl])
+
+  const pushUndo = () => {
+    if (!maskRef.current) return
+    undoStackRef.current.push(maskRef.current.data.slice())
+    if (undoStackRef.current.length > MAX_UNDO_STEPS) undoStackRef.current.shift()
+    setUndoCount(undoStackRef.current.length)
+  }
+
+  const handleUndo = () => {
+    const snapshot = undoStackRef.current.pop()
+    if (!snapshot || !maskRef.current) return
+    maskRef.current.data.set(snapshot)
+    setUndoCount(undoStackRef.current.length)
+    renderOverlay()
+  }
+
+  const handleReset = () => {
+    if (!maskRef.current || !initialMaskRef.current) return
+    pushUndo()
+    maskRef.current.data.set(initialMaskRef.current.data)
+    renderOverlay()
+  }
+
+  // Ctrl/Cmd+Z undoes the last stroke, except while typing so text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target
+      if (target instanceof HTMLElement && (target.isContentEditable || target.closest("input, textarea, select"))) {
+        return
+      }
+      if ((event.ctrlKey || event.metaKey) && event.key === "z") {
+        event.preventDefault()
+        handleUndo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Pointer position in image pixels; the canvas is scaled down to fit the card
+  const getImagePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((event.clientY - rect.top) * canvas.height) / rect.height,
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const currentMask = maskRef.current
+    if (!currentMask || isLoading) return
+    const point = getImagePoint(event)
+    pushUndo()
+
+    if (tool === "wand") {
+      if (!imageDataRef.current) return
+      renderOverlay(magicWandFill(currentMask, imageDataRef.current, point.x, point.y, tolerance * 2.55, mode))
+      return
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    lastPointRef.current = point
+    renderOverlay(paintMaskStroke(currentMask, point, point, brushSize / 2, hardness, mode))
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const currentMask = maskRef.current
+    const lastPoint = lastPointRef.current
+    if (!currentMask || !lastPoint) return
+    const point = getImagePoint(event)
+    renderOverlay(paintMaskStroke(currentMask, lastPoint, point, brushSize / 2, hardness, mode))
+    lastPointRef.current = point
+  }
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Brush className="h-5 w-5 mr-2" />
+          Edit Mask
+        </CardTitle>
+        <CardDescription>
+          Paint in missed parts of the product or erase leftover background. Tinted areas will be removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative w-full overflow-hidden rounded-md bg-muted">
+          {isLoading && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-background/80 z-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary mb-2" />
+              <p className="text-sm text-muted-foreground">Segmenting image...</p>
+            </div>
+          )}
+          <canvas ref={imageCanvasRef} className="w-full h-auto block" />
+          <canvas
+            ref={overlayCanvasRef}
+            className={`absolute inset-0 w-full h-full touch-none ${tool === "wand" ? "cursor-pointer" : "cursor-crosshair"}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-3">
+            <Tabs value={tool} onValueChange={(value) => setTool(value as "brush" | "wand")}>
+              <TabsList className="w-full">
+                <TabsTrigger value="brush" className="flex-1">
+                  <Brush className="h-4 w-4 mr-1" />
+                  Brush
+                </TabsTrigger>
+                <TabsTrigger value="wand" className="flex-1">
+                  <Wand2 className="h-4 w-4 mr-1" />
+                  Magic Wand
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as MaskBrushMode)}>
+              <TabsList className="w-full">
+                <TabsTrigger value="add" className="flex-1">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add to Product
+                </TabsTrigger>
+                <TabsTrigger value="erase" className="flex-1">
+                  <Eraser className="h-4 w-4 mr-1" />
+                  Erase Background
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {tool === "brush" ? (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Brush Size</Label>
+                  <span className="text-sm text-muted-foreground">{brushSize}px</span>
+                </div>
+                <Slider value={[brushSize]} min={2} max={200} step={1} onValueChange={(value) => setBrushSize(value[0])} />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Hardness</Label>
+                  <span className="text-sm text-muted-foreground">{Math.round(hardness * 100)}%</span>
+                </div>
+                <Slider
+                  value={[hardness * 100]}
+                  min={0}
+                  max={100}
+                  step={1}
+                  onValueChange={(value) => setHardness(value[0] / 100)}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Color Tolerance</Label>
+                <span className="text-sm text-muted-foreground">{tolerance}%</span>
+              </div>
+              <Slider value={[tolerance]} min={0} max={100} step={1} onValueChange={(value) => setTolerance(value[0])} />
+              <p className="text-xs text-muted-foreground">
+                Click a region to fill every connected pixel of a similar color
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleUndo} disabled={undoCount === 0}>
+              <Undo2 className="h-4 w-4 mr-1" />
+              Undo
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleReset} disabled={isLoading}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => maskRef.current && onApply(maskRef.current.clone())}
+              disabled={isLoading || !maskRef.current}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Apply Mask
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { Camera, MapPin, ShieldCheck } from "lucide-react"
+import type { ImageMetadata } from "@/lib/image-metadata"
+
+interface MetadataProps {
+  metadata: ImageMetadata
+  className?: string
+}
+
+function getCamera(metadata: ImageMetadata): string | undefined {
+  // Models often repeat the make ("Apple iPhone 15" vs. "iPhone 15" from "Apple")
+  const camera =
+    metadata.make && metadata.model && !metadata.model.startsWith(metadata.make)
+      ? `${metadata.make} ${metadata.model}`
+      : metadata.model || metadata.make
+  return camera && metadata.lens ? `${camera}, ${metadata.lens}` : camera
+}
+
+function formatGps({ latitude, longitude }: NonNullable<ImageMetadata["gps"]>): string {
+  return `${Math.abs(latitude).toFixed(4)}°${latitude < 0 ? "S" : "N"}, ${Math.abs(longitude).toFixed(4)}°${
+    longitude < 0 ? "W" : "E"
+  }`
+}
+
+// Camera, date and location as read from the upload, one per line
+function describeMetadata(metadata: ImageMetadata): string[] {
+  const camera = getCamera(metadata)
+  return [
+    camera && `Camera: ${camera}`,
+    metadata.takenAt && `Taken: ${metadata.takenAt}`,
+    metadata.gps && `Location: ${formatGps(metadata.gps)}`,
+  ].filter(Boolean) as string[]
+}
+
+// Thumbnail badge for uploads that carried camera data; hover for the details
+export function MetadataBadge({ metadata, className = "" }: MetadataProps) {
+  const lines = describeMetadata(metadata)
+  if (lines.length === 0) return null
+
+  const Icon = metadata.gps ? MapPin : Camera
+  return (
+    <div
+      className={`flex items-center bg-background/80 text-[10px] px-1.5 py-0.5 rounded ${className}`}
+      title={[...lines, "Removed from the image on upload"].join("\n")}
+    >
+      <Icon className="h-3 w-3" />
+    </div>
+  )
+}
+
+// What the upload's metadata said, and that the personal parts were removed
+export function MetadataSummary({ metadata, className = "" }: MetadataProps) {
+  const lines = describeMetadata(metadata)
+  if (lines.length === 0 && !metadata.hasPersonalData) return null
+
+  return (
+    <div className={`text-xs text-muted-foreground space-y-1 ${className}`}>
+      {lines.map((line) => (
+        <p key={line}>{line}</p>
+      ))}
+      <p className="flex items-center">
+        <ShieldCheck className="h-3 w-3 mr-1 flex-shrink-0" />
+        {metadata.gps || metadata.hasPersonalData
+          ? "Location and personal metadata were removed from this image"
+          : "Camera metadata was removed from this image"}
+      </p>
+    </div>
+  )
+}
@@ -11,6 +11,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
 import { getPerformanceConfig, updatePerformanceConfig, checkWebGLCapabilities } from "@/lib/image-processing"
 import type { PerformanceConfig, SegmentationModel } from "@/lib/image-processing"
+import type { EdgeRefinement } from "@/lib/matting"
+import { getTileSize } from "@/lib/tiling"
 
 interface ModelTuningPanelProps {
   modelType: SegmentationModel
@@ -101,14 +103,37 @@ export function ModelTuningPanel({ modelType, setModelType, onSave }: ModelTunin
               </div>
 
               <div className="space-y-2">
-                <div className="flex justify-between">
-                  <Label>Edge Blur</Label>
-                  <span className="text-sm text-muted-foreground">{edgeBlur}px</span>
-                </div>
-                <Slider value={[edgeBlur]} min={0} max={10} step={1} onValueChange={(value) => setEdgeBlur(value[0])} />
-                <p className="text-xs text-muted-foreground">Controls the smoothness of edges in the cutout</p>
+                <Label>Edge Refinement</Label>
+                <Select
+                  value={performanceConfig.edgeRefinement}
+                  onValueChange={(value) => handlePerformanceConfigChange("edgeRefinement", value as EdgeRefinement)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select edge refinement" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="feather">Feather (Fast)</SelectItem>
+                    <SelectItem value="matting">Alpha Matting (Hair, fur, sheer fabric)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {performanceConfig.edgeRefinement === "matting"
+                    ? "Builds a trimap around the mask edge and solves a soft alpha from the image, keeping hair strands, lace and tulle. Slower on large images."
+                    : "Blurs the mask edge uniformly. Fast, but fine detail like hair can look cut out."}
+                </p>
               </div>
 
+              {performanceConfig.edgeRefinement === "feather" && (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Edge Blur</Label>
+                    <span className="text-sm text-muted-foreground">{edgeBlur}px</span>
+                  </div>
+                  <Slider value={[edgeBlur]} min={0} max={10} step={1} onValueChange={(value) => setEdgeBlur(value[0])} />
+                  <p className="text-xs text-muted-foreground">Controls the smoothness of edges in the cutout</p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Internal Resolution</Label>
                 <Select
@@ -165,6 +190,10 @@ export function ModelTuningPanel({ modelType, setModelType, onSave }: ModelTunin
                   <SelectItem value="performance">Performance (Higher memory usage)</SelectItem>
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                Photos larger than {getTileSize(performanceConfig.memoryManagement, webGLInfo.maxTextureSize)}px are
+                segmented scaled down and processed in tiles at full resolution
+              </p>
             </div>
 
             <Separator />
@@ -1,17 +1,37 @@
 "use client"
 
+import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Download, Sparkles, Share2, Save } from "lucide-react"
+import { Download, Sparkles, Share2, Save, AlertCircle } from "lucide-react"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import {
+  ASPECT_RATIOS,
+  detectAspectRatio,
+  formatResolution,
+  getAspectRatioSize,
+  LONG_EDGE_SIZES,
+  parseResolution,
+  snapToConstraints,
+  validateOutputSize,
+  type AspectRatio,
+  type SizeConstraints,
+} from "@/lib/output-size"
+import type { Resolution } from "@/lib/types"
 
 interface OutputControlsProps {
   onGenerate: () => void
   isGenerating: boolean
-  resolution: "512x512" | "1024x1024"
-  setResolution: (resolution: "512x512" | "1024x1024") => void
+  resolution: Resolution
+  setResolution: (resolution: Resolution) => void
+  sizeConstraints: SizeConstraints // Limits of the selected provider
   generatedImage: string | null
   disabled: boolean
+  candidateCount: number
+  setCandidateCount: (count: number) => void
+  variationMode: "seed" | "prompt"
+  setVariationMode: (mode: "seed" | "prompt") => void
 }
 
 export function OutputControls({
@@ -19,9 +39,50 @@ export function OutputControls({
   isGenerating,
   resolution,
   setResolution,
+  sizeConstraints,
   generatedImage,
   disabled,
+  candidateCount,
+  setCandidateCount,
+  variationMode,
+  setVariationMode,
 }: OutputControlsProps) {
+  const { width, height } = parseResolution(resolution)
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio | "custom">(detectAspectRatio(width, height) || "custom")
+  const sizeProblems = validateOutputSize(width, height, sizeConstraints)
+  const longEdge = Math.max(width, height)
+
+  // Follow sizes set from outside (presets, history) unless the user is typing a custom size
+  useEffect(() => {
+    if (aspectRatio !== "custom") {
+      setAspectRatio(detectAspectRatio(width, height) || "custom")
+    }
+  }, [width, height])
+
+  const handleAspectRatioChange = (value: AspectRatio | "custom") => {
+    setAspectRatio(value)
+    if (value !== "custom") {
+      const size = getAspectRatioSize(value, longEdge, sizeConstraints)
+      setResolution(formatResolution(size.width, size.height))
+    }
+  }
+
+  const handleLongEdgeChange = (value: number) => {
+    if (aspectRatio === "custom") return
+    const size = getAspectRatioSize(aspectRatio, value, sizeConstraints)
+    setResolution(formatResolution(size.width, size.height))
+  }
+
+  const handleCustomSizeChange = (dimension: "width" | "height", value: string) => {
+    const size = Math.max(0, Math.floor(Number(value) || 0))
+    setResolution(dimension === "width" ? formatResolution(size, height) : formatResolution(width, size))
+  }
+
+  const handleSnap = () => {
+    const size = snapToConstraints(width || sizeConstraints.minSide, height || sizeConstraints.minSide, sizeConstraints)
+    setResolution(formatResolution(size.width, size.height))
+  }
+
   const handleDownload = (format: "png" | "jpg" | "webp") => {
     if (!generatedImage) return
 
@@ -77,16 +138,99 @@ export function OutputControls({
     <div className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 z-10 p-4">
       <div className="container flex items-center justify-between">
         <div className="flex items-center space-x-4">
-          <Select value={resolution} onValueChange={(value) => setResolution(value as "512x512" | "1024x1024")}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Select resolution" />
+          <Select value={aspectRatio} onValueChange={(value) => handleAspectRatioChange(value as AspectRatio | "custom")}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue placeholder="Aspect ratio" />
+            </SelectTrigger>
+            <SelectContent>
+              {ASPECT_RATIOS.map((ratio) => (
+                <SelectItem key={ratio.id} value={ratio.id}>
+                  {ratio.name}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom size</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {aspectRatio === "custom" ? (
+            <div className="flex items-center space-x-1">
+              <Input
+                type="number"
+                className="w-[90px]"
+                min={sizeConstraints.minSide}
+                max={sizeConstraints.maxSide}
+                step={sizeConstraints.multipleOf}
+                value={width || ""}
+                onChange={(e) => handleCustomSizeChange("width", e.target.value)}
+                aria-label="Width"
+              />
+              <span className="text-muted-foreground">×</span>
+              <Input
+                type="number"
+                className="w-[90px]"
+                min={sizeConstraints.minSide}
+                max={sizeConstraints.maxSide}
+                step={sizeConstraints.multipleOf}
+                value={height || ""}
+                onChange={(e) => handleCustomSizeChange("height", e.target.value)}
+                aria-label="Height"
+              />
+            </div>
+          ) : (
+            <Select value={String(longEdge)} onValueChange={(value) => handleLongEdgeChange(Number(value))}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue>
+                  {width} × {height}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {LONG_EDGE_SIZES.filter((size) => size <= sizeConstraints.maxSide).map((size) => {
+                  const option = getAspectRatioSize(aspectRatio, size, sizeConstraints)
+                  return (
+                    <SelectItem key={size} value={String(Math.max(option.width, option.height))}>
+                      {option.width} × {option.height}
+                    </SelectItem>
+                  )
+                })}
+              </SelectContent>
+            </Select>
+          )}
+
+          {sizeProblems.length > 0 && (
+            <div className="flex items-center text-xs text-destructive max-w-[260px]" title={sizeProblems.join(" ")}>
+              <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+              <span className="truncate">{sizeProblems[0]}</span>
+              <Button variant="link" size="sm" className="h-auto px-1 text-xs" onClick={handleSnap}>
+                Fix
+              </Button>
+            </div>
+          )}
+
+          <Select value={String(candidateCount)} onValueChange={(value) => setCandidateCount(Number(value))}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Candidates" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="512x512">512 × 512</SelectItem>
-              <SelectItem value="1024x1024">1024 × 1024</SelectItem>
+              <SelectItem value="1">1 image</SelectItem>
+              <SelectItem value="2">2 candidates</SelectItem>
+              <SelectItem value="4">4 candidates</SelectItem>
+              <SelectItem value="6">6 candidates</SelectItem>
+              <SelectItem value="8">8 candidates</SelectItem>
             </SelectContent>
           </Select>
 
+          {candidateCount > 1 && (
+            <Select value={variationMode} onValueChange={(value) => setVariationMode(value as "seed" | "prompt")}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue placeholder="Vary by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="seed">Vary by seed</SelectItem>
+                <SelectItem value="prompt">Vary by prompt</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" disabled={!generatedImage}>
@@ -113,13 +257,17 @@ export function OutputControls({
             Save to Gallery
           </Button>
 
-          <Button onClick={onGenerate} disabled={disabled || isGenerating} className="min-w-[120px]">
+          <Button
+            onClick={onGenerate}
+            disabled={disabled || isGenerating || sizeProblems.length > 0}
+            className="min-w-[120px]"
+          >
             {isGenerating ? (
               <>Generating...</>
             ) : (
               <>
                 <Sparkles className="h-4 w-4 mr-2" />
-                Generate
+                {candidateCount > 1 ? `Generate ${candidateCount}` : "Generate"}
               </>
             )}
           </Button>
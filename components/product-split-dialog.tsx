@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Boxes, Loader2, Merge, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { getErrorToast } from "@/lib/errors"
+import { detectProductRegions, extractProducts, type ProductSplit } from "@/lib/product-split"
+import type { SegmentationModel } from "@/lib/image-processing"
+import type { MaskBoundingBox } from "@/lib/mask"
+
+interface ProductSplitDialogProps {
+  imageUrl: string
+  imageName?: string
+  modelType: SegmentationModel
+  onSplit: (products: { url: string; name: string }[]) => void
+}
+
+// Union of the boxes of a group of regions
+function getGroupBox(split: ProductSplit, regionIds: number[]): MaskBoundingBox {
+  const boxes = split.regions.filter((region) => regionIds.includes(region.id)).map((region) => region.box)
+  const x = Math.min(...boxes.map((box) => box.x))
+  const y = Math.min(...boxes.map((box) => box.y))
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((box) => box.x + box.width)) - x,
+    height: Math.max(...boxes.map((box) => box.y + box.height)) - y,
+  }
+}
+
+export function ProductSplitDialog({ imageUrl, imageName, modelType, onSplit }: ProductSplitDialogProps) {
+  const { toast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [progressMessage, setProgressMessage] = useState<string | null>(null)
+  const [split, setSplit] = useState<ProductSplit | null>(null)
+  const [groups, setGroups] = useState<number[][]>([]) // Region ids per product; merged regions share a group
+  const [selected, setSelected] = useState<number[]>([]) // Indices into `groups`
+
+  // Regions belong to one image; find them again when it changes
+  useEffect(() => {
+    setSplit(null)
+    setGroups([])
+    setSelected([])
+  }, [imageUrl, modelType])
+
+  useEffect(() => {
+    if (!isOpen || split || isWorking) return
+
+    setIsWorking(true)
+    detectProductRegions(imageUrl, {
+      modelType,
+      progressCallback: (progress, message) => setProgressMessage(`${message} (${Math.round(progress * 100)}%)`),
+    })
+      .then((result) => {
+        setSplit(result)
+        setGroups(result.regions.map((region) => [region.id]))
+      })
+      .catch((error) => {
+        console.error("Product split error:", error)
+        toast({ ...getErrorToast(error, "Could not find products"), variant: "destructive" })
+        setIsOpen(false)
+      })
+      .finally(() => {
+        setIsWorking(false)
+        setProgressMessage(null)
+      })
+  }, [isOpen, split, imageUrl, modelType])
+
+  const toggleGroup = (index: number) =>
+    setSelected((current) => (current.includes(index) ? current.filter((i) => i !== index) : [...current, index]))
+
+  const mergeSelected = () => {
+    const merged = selected.flatMap((index) => groups[index])
+    const rest = groups.filter((_, index) => !selected.includes(index))
+    setGroups([...rest, merged])
+    setSelected([rest.length])
+  }
+
+  const separateAll = () => {
+    if (!split) return
+    setGroups(split.regions.map((region) => [region.id]))
+    setSelected([])
+  }
+
+  const handleAdd = async () => {
+    if (!split) return
+
+    // The picked products, or all of them when none are picked
+    const picked = selected.length > 0 ? selected.map((index) => groups[index]) : groups
+    const baseName = imageName ? imageName.replace(/\.[^.]+$/, "") : "product"
+
+    setIsWorking(true)
+    setProgressMessage("Cutting out products...")
+    try {
+      const products = await extractProducts(imageUrl, split, picked)
+      onSplit(products.map((product, index) => ({ url: product.imageUrl, name: `${baseName}-${index + 1}.png` })))
+      toast({
+        title: "Products separated",
+        description: `Added ${products.length} product image${products.length === 1 ? "" : "s"} to the gallery.`,
+      })
+      setIsOpen(false)
+    } catch (error) {
+      console.error("Product extraction error:", error)
+      toast({ ...getErrorToast(error, "Could not separate products"), variant: "destructive" })
+    } finally {
+      setIsWorking(false)
+      setProgressMessage(null)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Boxes className="h-4 w-4 mr-2" />
+          Split Products
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Split Products</DialogTitle>
+          <DialogDescription>
+            Click products to pick them, or pick several and merge them into one image. Nothing picked adds them all.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center rounded-md overflow-hidden border bg-muted">
+          <div className="relative">
+            <img src={imageUrl} alt="Products" className="block max-w-full max-h-[60vh]" />
+            {split &&
+              groups.map((regionIds, index) => {
+                const box = getGroupBox(split, regionIds)
+                const isSelected = selected.includes(index)
+                return (
+                  <button
+                    key={regionIds.join("-")}
+                    type="button"
+                    className={`absolute border-2 rounded-sm transition-colors ${
+                      isSelected ? "border-primary bg-primary/20" : "border-dashed border-white/80 hover:bg-white/10"
+                    }`}
+                    style={{
+                      left: `${(box.x / split.width) * 100}%`,
+                      top: `${(box.y / split.height) * 100}%`,
+                      width: `${(box.width / split.width) * 100}%`,
+                      height: `${(box.height / split.height) * 100}%`,
+                    }}
+                    onClick={() => toggleGroup(index)}
+                    disabled={isWorking}
+                  >
+                    <span
+                      className={`absolute top-0 left-0 text-[10px] px-1.5 py-0.5 rounded-br text-white ${
+                        isSelected ? "bg-primary" : "bg-black/60"
+                      }`}
+                    >
+                      {index + 1}
+                      {regionIds.length > 1 && ` (${regionIds.length} merged)`}
+                    </span>
+                  </button>
+                )
+              })}
+            {isWorking && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60 text-sm">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {progressMessage || "Finding products..."}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {split && (
+          <p className="text-xs text-muted-foreground">
+            {split.regions.length === 0
+              ? "No products were found in this image."
+              : `Found ${split.regions.length} separate object${split.regions.length === 1 ? "" : "s"}.`}
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={separateAll}
+            disabled={isWorking || !split || groups.length === split.regions.length}
+          >
+            <Undo2 className="h-4 w-4 mr-2" />
+            Separate All
+          </Button>
+          <Button variant="outline" onClick={mergeSelected} disabled={isWorking || selected.length < 2}>
+            <Merge className="h-4 w-4 mr-2" />
+            Merge Selected
+          </Button>
+          <Button onClick={handleAdd} disabled={isWorking || groups.length === 0}>
+            {selected.length > 0 ? `Add ${selected.length} to Gallery` : `Add All ${groups.length} to Gallery`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react"
+import type { QualityReport } from "@/lib/image-quality"
+
+interface QualityBadgeProps {
+  report: QualityReport
+  className?: string
+}
+
+const LEVELS = {
+  good: { label: "Good", icon: CheckCircle2, className: "bg-green-600" },
+  fair: { label: "Fair", icon: AlertTriangle, className: "bg-amber-500" },
+  poor: { label: "Poor", icon: XCircle, className: "bg-destructive" },
+}
+
+// Upload quality at a glance; hover for the issues found
+export function QualityBadge({ report, className = "" }: QualityBadgeProps) {
+  const { label, icon: Icon, className: levelClassName } = LEVELS[report.level]
+  const title =
+    report.issues.length > 0
+      ? report.issues.map((issue) => issue.message).join("\n")
+      : `Sharp, well exposed, ${report.width}×${report.height}px`
+
+  return (
+    <div
+      className={`flex items-center text-white text-[10px] px-1.5 py-0.5 rounded ${levelClassName} ${className}`}
+      title={title}
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dices, RotateCcw, Shuffle } from "lucide-react"
+import { createRandomSeed, DEFAULT_SAMPLING, type ProviderCapabilities } from "@/lib/generation-providers"
+
+interface SamplingControlsProps {
+  capabilities?: ProviderCapabilities
+  seed: number | null // null = random seed for every generation
+  setSeed: (seed: number | null) => void
+  steps: number
+  setSteps: (steps: number) => void
+  guidanceScale: number
+  setGuidanceScale: (guidanceScale: number) => void
+  scheduler: string | null
+  setScheduler: (scheduler: string | null) => void
+  lastSeed?: number
+}
+
+export function SamplingControls({
+  capabilities,
+  seed,
+  setSeed,
+  steps,
+  setSteps,
+  guidanceScale,
+  setGuidanceScale,
+  scheduler,
+  setScheduler,
+  lastSeed,
+}: SamplingControlsProps) {
+  const supportsSeed = !!capabilities?.seed
+  const supportsSteps = !!capabilities?.steps
+  const supportsGuidance = !!capabilities?.guidanceScale
+  const schedulers = capabilities?.schedulers || []
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Sampling</CardTitle>
+        <CardDescription>Fix the seed to regenerate an output exactly, or vary it on purpose</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="lock-seed">Lock Seed</Label>
+            <Switch
+              id="lock-seed"
+              checked={seed !== null}
+              disabled={!supportsSeed}
+              onCheckedChange={(checked) => setSeed(checked ? (lastSeed ?? createRandomSeed()) : null)}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Input
+              type="number"
+              min={0}
+              placeholder="Random"
+              value={seed ?? ""}
+              disabled={!supportsSeed}
+              onChange={(e) => setSeed(e.target.value === "" ? null : Math.max(0, Math.floor(Number(e.target.value))))}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              title="New random seed"
+              disabled={!supportsSeed}
+              onClick={() => setSeed(createRandomSeed())}
+            >
+              <Dices className="h-4 w-4" />
+            </Button>
+          </div>
+          {lastSeed !== undefined && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">Last seed: {lastSeed}</span>
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="sm" disabled={!supportsSeed} onClick={() => setSeed(lastSeed)}>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Reuse
+                </Button>
+                <Button variant="ghost" size="sm" disabled={!supportsSeed} onClick={() => setSeed((lastSeed + 1) % 2 ** 32)}>
+                  <Shuffle className="h-3 w-3 mr-1" />
+                  Vary
+                </Button>
+              </div>
+            </div>
+          )}
+          {!supportsSeed && <p className="text-xs text-muted-foreground">The selected model does not accept a seed.</p>}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Steps</Label>
+            <span className="text-sm text-muted-foreground">{supportsSteps ? steps : "Provider default"}</span>
+          </div>
+          <Slider
+            value={[steps]}
+            min={1}
+            max={100}
+            step={1}
+            disabled={!supportsSteps}
+            onValueChange={(value) => setSteps(value[0])}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Guidance Scale</Label>
+            <span className="text-sm text-muted-foreground">
+              {supportsGuidance ? guidanceScale.toFixed(1) : "Provider default"}
+            </span>
+          </div>
+          <Slider
+            value={[guidanceScale]}
+            min={1}
+            max={20}
+            step={0.5}
+            disabled={!supportsGuidance}
+            onValueChange={(value) => setGuidanceScale(value[0])}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Scheduler</Label>
+          <Select
+            value={scheduler && schedulers.includes(scheduler) ? scheduler : schedulers[0] || ""}
+            disabled={schedulers.length === 0}
+            onValueChange={(value) => setScheduler(value)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Provider default" />
+            </SelectTrigger>
+            <SelectContent>
+              {schedulers.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => {
+            setSteps(DEFAULT_SAMPLING.steps)
+            setGuidanceScale(DEFAULT_SAMPLING.guidanceScale)
+            setScheduler(null)
+          }}
+        >
+          Reset to Defaults
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,30 +4,49 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Slider } from "@/components/ui/slider"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
 import { Loader2 } from "lucide-react"
+import { describeJob } from "@/components/generation-queue-panel"
+import { CandidateGrid, type CandidateGridProps } from "@/components/candidate-grid"
+import { AdjustmentPanel } from "@/components/adjustment-panel"
+import type { ImageAdjustments } from "@/lib/adjustments"
+import type { GenerationMode } from "@/lib/types"
+import type { GenerationJob } from "@/lib/generation-queue"
 
 interface SceneEditorProps {
   productImage: string | null
   generatedImage: string | null
+  adjustedImage?: string | null // generatedImage with the adjustments baked in
   isGenerating: boolean
   backgroundType: "studio" | "lifestyle"
   setBackgroundType: (type: "studio" | "lifestyle") => void
-  brightness: number
-  setBrightness: (value: number) => void
-  contrast: number
-  setContrast: (value: number) => void
+  adjustments: ImageAdjustments
+  setAdjustments: (adjustments: ImageAdjustments) => void
+  generationMode: GenerationMode
+  setGenerationMode: (mode: GenerationMode) => void
+  strength: number
+  setStrength: (value: number) => void
+  generationJob?: GenerationJob | null
+  onCancelGeneration?: () => void
+  candidates?: Omit<CandidateGridProps, "workingImage">
 }
 
 export function SceneEditor({
   productImage,
   generatedImage,
+  adjustedImage,
   isGenerating,
   backgroundType,
   setBackgroundType,
-  brightness,
-  setBrightness,
-  contrast,
-  setContrast,
+  adjustments,
+  setAdjustments,
+  generationMode,
+  setGenerationMode,
+  strength,
+  setStrength,
+  generationJob,
+  onCancelGeneration,
+  candidates,
 }: SceneEditorProps) {
   return (
     <div className="space-y-4">
@@ -37,19 +56,29 @@ export function SceneEditor({
             {isGenerating ? (
               <div className="absolute inset-0 flex flex-col items-center justify-center bg-background/80 backdrop-blur-sm z-10">
                 <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
-                <p className="text-lg font-medium">Generating image with AI...</p>
-                <p className="text-sm text-muted-foreground">This may take 15-30 seconds</p>
+                <p className="text-lg font-medium">
+                  {generationJob?.state === "queued"
+                    ? "Waiting in the generation queue..."
+                    : generationJob?.state === "retrying"
+                      ? "Provider is busy, retrying..."
+                      : "Generating image with AI..."}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {generationJob ? describeJob(generationJob) : "Preparing the product image..."}
+                </p>
+                {onCancelGeneration && (
+                  <Button variant="outline" size="sm" className="mt-4" onClick={onCancelGeneration}>
+                    Cancel
+                  </Button>
+                )}
               </div>
             ) : null}
 
             {generatedImage ? (
               <img
-                src={generatedImage || "/placeholder.svg"}
+                src={adjustedImage || generatedImage || "/placeholder.svg"}
                 alt="Generated product on model"
                 className="w-full h-full object-cover"
-                style={{
-                  filter: `brightness(${brightness / 50}) contrast(${contrast / 50})`,
-                }}
               />
             ) : productImage ? (
               <div className="flex items-center justify-center h-full bg-muted">
@@ -75,6 +104,8 @@ export function SceneEditor({
         </CardContent>
       </Card>
 
+      {candidates && <CandidateGrid {...candidates} workingImage={generatedImage} />}
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardContent className="pt-6">
@@ -100,34 +131,56 @@ export function SceneEditor({
           </CardContent>
         </Card>
 
+        <Card className="md:row-span-2">
+          <CardContent className="pt-6">
+            <AdjustmentPanel adjustments={adjustments} onChange={setAdjustments} />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardContent className="pt-6">
             <div className="space-y-4">
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <Label>Brightness</Label>
-                  <span className="text-sm text-muted-foreground">{brightness}%</span>
-                </div>
-                <Slider
-                  value={[brightness]}
-                  min={0}
-                  max={100}
-                  step={1}
-                  onValueChange={(value) => setBrightness(value[0])}
-                />
+              <div>
+                <Label>Product Image Input</Label>
+                <Tabs
+                  value={generationMode}
+                  onValueChange={(value) => setGenerationMode(value as GenerationMode)}
+                  className="mt-2"
+                >
+                  <TabsList className="w-full">
+                    <TabsTrigger value="text" className="flex-1">
+                      Text Only
+                    </TabsTrigger>
+                    <TabsTrigger value="image-to-image" className="flex-1">
+                      Image to Image
+                    </TabsTrigger>
+                    <TabsTrigger value="inpainting" className="flex-1">
+                      Inpaint Background
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {generationMode === "text"
+                    ? "Only the prompt is sent to the model."
+                    : generationMode === "image-to-image"
+                      ? "The processed product image is sent as the starting point."
+                      : "The product is kept and the background is regenerated using the segmentation mask."}{" "}
+                  Models that can't accept images fall back to text only.
+                </p>
               </div>
 
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Contrast</Label>
-                  <span className="text-sm text-muted-foreground">{contrast}%</span>
+                  <Label>Strength</Label>
+                  <span className="text-sm text-muted-foreground">{Math.round(strength * 100)}%</span>
                 </div>
                 <Slider
-                  value={[contrast]}
+                  value={[strength * 100]}
                   min={0}
                   max={100}
                   step={1}
-                  onValueChange={(value) => setContrast(value[0])}
+                  disabled={generationMode === "text"}
+                  onValueChange={(value) => setStrength(value[0] / 100)}
                 />
               </div>
             </div>
@@ -0,0 +1,200 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Input } from "@/components/ui/input"
+import {
+  defaultContactShadow,
+  defaultDropShadow,
+  defaultReflection,
+  type BackgroundOptions,
+} from "@/lib/background-replacement"
+
+interface ShadowOptionsProps {
+  options: BackgroundOptions
+  onChange: (options: BackgroundOptions) => void
+}
+
+// One labelled slider row
+function SettingSlider({
+  label,
+  value,
+  display,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string
+  value: number
+  display: string
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <Label className="text-xs">{label}</Label>
+        <span className="text-xs text-muted-foreground">{display}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={(v) => onChange(v[0])} />
+    </div>
+  )
+}
+
+export function ShadowOptions({ options, onChange }: ShadowOptionsProps) {
+  const contactShadow = options.contactShadow || defaultContactShadow
+  const dropShadow = options.dropShadow || defaultDropShadow
+  const reflection = options.reflection || defaultReflection
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="contact-shadow">Contact Shadow</Label>
+          <Switch
+            id="contact-shadow"
+            checked={contactShadow.enabled}
+            onCheckedChange={(enabled) => onChange({ ...options, contactShadow: { ...contactShadow, enabled } })}
+          />
+        </div>
+        {contactShadow.enabled && (
+          <div className="space-y-3 pl-2">
+            <SettingSlider
+              label="Opacity"
+              value={contactShadow.opacity * 100}
+              display={`${Math.round(contactShadow.opacity * 100)}%`}
+              min={0}
+              max={100}
+              step={1}
+              onChange={(value) => onChange({ ...options, contactShadow: { ...contactShadow, opacity: value / 100 } })}
+            />
+            <SettingSlider
+              label="Blur"
+              value={contactShadow.blur}
+              display={`${contactShadow.blur}px`}
+              min={0}
+              max={50}
+              step={1}
+              onChange={(blur) => onChange({ ...options, contactShadow: { ...contactShadow, blur } })}
+            />
+            <SettingSlider
+              label="Height"
+              value={contactShadow.spread * 100}
+              display={`${Math.round(contactShadow.spread * 100)}%`}
+              min={1}
+              max={15}
+              step={1}
+              onChange={(value) => onChange({ ...options, contactShadow: { ...contactShadow, spread: value / 100 } })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="drop-shadow">Drop Shadow</Label>
+          <Switch
+            id="drop-shadow"
+            checked={dropShadow.enabled}
+            onCheckedChange={(enabled) => onChange({ ...options, dropShadow: { ...dropShadow, enabled } })}
+          />
+        </div>
+        {dropShadow.enabled && (
+          <div className="space-y-3 pl-2">
+            <SettingSlider
+              label="Angle"
+              value={dropShadow.angle}
+              display={`${dropShadow.angle}°`}
+              min={0}
+              max={359}
+              step={1}
+              onChange={(angle) => onChange({ ...options, dropShadow: { ...dropShadow, angle } })}
+            />
+            <SettingSlider
+              label="Distance"
+              value={dropShadow.distance}
+              display={`${dropShadow.distance}px`}
+              min={0}
+              max={200}
+              step={1}
+              onChange={(distance) => onChange({ ...options, dropShadow: { ...dropShadow, distance } })}
+            />
+            <SettingSlider
+              label="Blur"
+              value={dropShadow.blur}
+              display={`${dropShadow.blur}px`}
+              min={0}
+              max={80}
+              step={1}
+              onChange={(blur) => onChange({ ...options, dropShadow: { ...dropShadow, blur } })}
+            />
+            <SettingSlider
+              label="Opacity"
+              value={dropShadow.opacity * 100}
+              display={`${Math.round(dropShadow.opacity * 100)}%`}
+              min={0}
+              max={100}
+              step={1}
+              onChange={(value) => onChange({ ...options, dropShadow: { ...dropShadow, opacity: value / 100 } })}
+            />
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Color</Label>
+              <Input
+                type="color"
+                className="w-16 h-8 p-1"
+                value={dropShadow.color}
+                onChange={(e) => onChange({ ...options, dropShadow: { ...dropShadow, color: e.target.value } })}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="floor-reflection">Floor Reflection</Label>
+          <Switch
+            id="floor-reflection"
+            checked={reflection.enabled}
+            onCheckedChange={(enabled) => onChange({ ...options, reflection: { ...reflection, enabled } })}
+          />
+        </div>
+        {reflection.enabled && (
+          <div className="space-y-3 pl-2">
+            <SettingSlider
+              label="Opacity"
+              value={reflection.opacity * 100}
+              display={`${Math.round(reflection.opacity * 100)}%`}
+              min={0}
+              max={100}
+              step={1}
+              onChange={(value) => onChange({ ...options, reflection: { ...reflection, opacity: value / 100 } })}
+            />
+            <SettingSlider
+              label="Length"
+              value={reflection.length * 100}
+              display={`${Math.round(reflection.length * 100)}%`}
+              min={5}
+              max={100}
+              step={1}
+              onChange={(value) => onChange({ ...options, reflection: { ...reflection, length: value / 100 } })}
+            />
+            <SettingSlider
+              label="Gap"
+              value={reflection.gap}
+              display={`${reflection.gap}px`}
+              min={0}
+              max={50}
+              step={1}
+              onChange={(gap) => onChange({ ...options, reflection: { ...reflection, gap } })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
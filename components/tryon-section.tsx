@@ -13,10 +13,17 @@ import { useToast } from "@/hooks/use-toast"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { ProductTypeDetector } from "@/components/product-type-detector"
+import { QualityBadge } from "@/components/quality-badge"
+import { MetadataBadge } from "@/components/metadata-badge"
+import { useQualityChecks } from "@/hooks/use-quality-checks"
 import type { SegmentationModel } from "@/lib/image-processing"
 import { Textarea } from "@/components/ui/textarea"
 import { Input } from "@/components/ui/input"
 import { generateImageFromPrompt } from "@/lib/api"
+import { generationQueue, GenerationCancelledError } from "@/lib/generation-queue"
+import { getErrorToast } from "@/lib/errors"
+import { ingestImageFile, type ImageMetadata } from "@/lib/image-metadata"
+import { imageFileTypes, isImageFile } from "@/lib/image-decoders"
 import {
   productTypes,  promptTemplates,  getTemplatesForProductType,  getDefaultTemplateForProductType,  fillPromptTemplate,  type ProductType,
 } from "@/lib/prompt-templates"
@@ -62,16 +69,24 @@ export function TryOnSection({
   onProductTypeChange,
 }: TryonSectionProps) {
   const { toast } = useToast()
-  const [modelImages, setModelImages] = useState<{ id: string; url: string; processed?: string }[]>([])
+  const [modelImages, setModelImages] = useState<
+    { id: string; url: string; processed?: string; metadata?: ImageMetadata }[]
+  >([])
   const [selectedModelImageId, setSelectedModelImageId] = useState<string | null>(null)
-  const [garmentImages, setGarmentImages] = useState<{ id: string; url: string; processed?: string }[]>([])
+  const [garmentImages, setGarmentImages] = useState<
+    { id: string; url: string; processed?: string; metadata?: ImageMetadata }[]
+  >([])
   const [selectedGarmentImageId, setSelectedGarmentImageId] = useState<string | null>(null)
-  const [resultImages, setResultImages] = useState<{ id: string; url: string; processed?: string }[]>([])
+  const [resultImages, setResultImages] = useState<
+    { id: string; url: string; processed?: string; metadata?: ImageMetadata }[]
+  >([])
   const [selectedResultImageId, setSelectedResultImageId] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingProgress, setProcessingProgress] = useState<string | null>(null)
   const [batchProcessing, setBatchProcessing] = useState(false)
   const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 })
+  const [blockLowQuality, setBlockLowQuality] = useState(true)
+  const { reports: qualityReports, checkImages, waitForChecks: waitForQualityChecks } = useQualityChecks(modelType)
   const [parentTab, setParentTab] = useState<"generate" | "upload" | "gallery">("generate")
   const [childTab, setChildTab] = useState<"templates" | "custom">("templates")
   const [previewPrompt, setPreviewPrompt] = useState<string>("")
@@ -108,7 +123,7 @@ export function TryOnSection({
       const newImages = await Promise.all(
         acceptedFiles.map(async (file) => {
           // Check file type
-          if (!file.type.startsWith("image/")) {
+          if (!isImageFile(file)) {
             toast({
               title: "Invalid file type",
               description: `File "${file.name}" is not an image.`,
@@ -127,27 +142,38 @@ export function TryOnSection({
             return null
           }
 
-          // Create a preview URL
-          const imageUrl = URL.createObjectURL(file)
-          return {
-            id: Math.random().toString(36).substring(2, 11),
-            url: imageUrl,
-            name: file.name,
+          // Create an upright preview URL without the photographer's metadata
+          try {
+            const { url, metadata } = await ingestImageFile(file)
+            return {
+              id: Math.random().toString(36).substring(2, 11),
+              url,
+              name: file.name,
+              metadata,
+            }
+          } catch (error) {
+            console.error("Error reading image:", error)
+            toast({ ...getErrorToast(error, `Could not read "${file.name}"`), variant: "destructive" })
+            return null
           }
         }),
       )
 
       // Filter out null values and add to state
-      const validImages = newImages.filter(Boolean) as { id: string; url: string; name: string }[]
+      const validImages = newImages.filter(Boolean) as {
+        id: string
+        url: string
+        name: string
+        metadata: ImageMetadata
+      }[]
 
       if (validImages.length > 0) {
         setModelImages((prev) => [...prev, ...validImages])
+        checkImages(validImages)
         if (!selectedModelImageId) setSelectedModelImageId(validImages[0].id)
       }
     },
-    accept: {
-      "image/*": [".jpeg", ".jpg", ".png", ".webp"],
-    },
+    accept: imageFileTypes,
     multiple: true,
   })
 
@@ -159,7 +185,7 @@ export function TryOnSection({
       const newImages = await Promise.all(
         acceptedFiles.map(async (file) => {
           // Check file type
-          if (!file.type.startsWith("image/")) {
+          if (!isImageFile(file)) {
             toast({
               title: "Invalid file type",
               description: `File "${file.name}" is not an image.`,
@@ -178,27 +204,38 @@ export function TryOnSection({
             return null
           }
 
-          // Create a preview URL
-          const imageUrl = URL.createObjectURL(file)
-          return {
-            id: Math.random().toString(36).substring(2, 11),
-            url: imageUrl,
-            name: file.name,
+          // Create an upright preview URL without the photographer's metadata
+          try {
+            const { url, metadata } = await ingestImageFile(file)
+            return {
+              id: Math.random().toString(36).substring(2, 11),
+              url,
+              name: file.name,
+              metadata,
+            }
+          } catch (error) {
+            console.error("Error reading image:", error)
+            toast({ ...getErrorToast(error, `Could not read "${file.name}"`), variant: "destructive" })
+            return null
           }
         }),
       )
 
       // Filter out null values and add to state
-      const validImages = newImages.filter(Boolean) as { id: string; url: string; name: string }[]
+      const validImages = newImages.filter(Boolean) as {
+        id: string
+        url: string
+        name: string
+        metadata: ImageMetadata
+      }[]
 
       if (validImages.length > 0) {
         setGarmentImages((prev) => [...prev, ...validImages])
+        checkImages(validImages)
         if (!selectedGarmentImageId) setSelectedGarmentImageId(validImages[0].id)
       }
     },
-    accept: {
-      "image/*": [".jpeg", ".jpg", ".png", ".webp"],
-    },
+    accept: imageFileTypes,
     multiple: true,
   })
 
@@ -210,7 +247,7 @@ export function TryOnSection({
       const newImages = await Promise.all(
         acceptedFiles.map(async (file) => {
           // Check file type
-          if (!file.type.startsWith("image/")) {
+          if (!isImageFile(file)) {
             toast({
               title: "Invalid file type",
               description: `File "${file.name}" is not an image.`,
@@ -229,27 +266,38 @@ export function TryOnSection({
             return null
           }
 
-          // Create a preview URL
-          const imageUrl = URL.createObjectURL(file)
-          return {
-            id: Math.random().toString(36).substring(2, 11),
-            url: imageUrl,
-            name: file.name,
+          // Create an upright preview URL without the photographer's metadata
+          try {
+            const { url, metadata } = await ingestImageFile(file)
+            return {
+              id: Math.random().toString(36).substring(2, 11),
+              url,
+              name: file.name,
+              metadata,
+            }
+          } catch (error) {
+            console.error("Error reading image:", error)
+            toast({ ...getErrorToast(error, `Could not read "${file.name}"`), variant: "destructive" })
+            return null
           }
         }),
       )
 
       // Filter out null values and add to state
-      const validImages = newImages.filter(Boolean) as { id: string; url: string; name: string }[]
+      const validImages = newImages.filter(Boolean) as {
+        id: string
+        url: string
+        name: string
+        metadata: ImageMetadata
+      }[]
 
       if (validImages.length > 0) {
         setResultImages((prev) => [...prev, ...validImages])
+        checkImages(validImages)
         if (!selectedResultImageId) setSelectedResultImageId(validImages[0].id)
       }
     },
-    accept: {
-      "image/*": [".jpeg", ".jpg", ".png", ".webp"],
-    },
+    accept: imageFileTypes,
     multiple: true,
   })
 
@@ -335,11 +383,7 @@ export function TryOnSection({
       })
     } catch (error) {
       console.error("Processing error:", error)
-      toast({
-        title: "Processing failed",
-        description: error instanceof Error ? error.message : "There was an error processing your image.",
-        variant: "destructive",
-      })
+      toast({ ...getErrorToast(error, "Processing failed"), variant: "destructive" })
     } finally {
       setIsProcessing(false)
       setProcessingProgress(null)
@@ -350,7 +394,32 @@ export function TryOnSection({
     if (modelImages.length === 0) return
 
     setIsProcessing(true)
-    setBatchProgress({ current: 0, total: modelImages.length })
+
+    // Images still waiting for their quality check are gated too, so wait for the checks to finish
+    let reports = qualityReports
+    if (blockLowQuality && modelImages.some((image) => !reports[image.id])) {
+      setProcessingProgress("Waiting for quality checks...")
+      reports = await waitForQualityChecks()
+    }
+
+    // Images that failed the quality check stay out of the batch while the gate is on
+    const batchImages = blockLowQuality
+      ? modelImages.filter((image) => reports[image.id]?.level !== "poor")
+      : modelImages
+    const skippedImages = modelImages.length - batchImages.length
+
+    if (batchImages.length === 0) {
+      toast({
+        title: "Nothing to process",
+        description: "Every image failed the quality check. Turn off Skip Low-Quality Images to process them anyway.",
+        variant: "destructive",
+      })
+      setIsProcessing(false)
+      setProcessingProgress(null)
+      return
+    }
+
+    setBatchProgress({ current: 0, total: batchImages.length })
     setProcessingProgress("Preparing batch processing...")
 
     try {
@@ -359,10 +428,10 @@ export function TryOnSection({
       await import("@tensorflow/tfjs-backend-webgl")
 
       // Process each image in sequence
-      for (let i = 0; i < modelImages.length; i++) {
-        const image = modelImages[i]
-        setBatchProgress({ current: i + 1, total: modelImages.length })
-        setProcessingProgress(`Processing image ${i + 1} of ${modelImages.length}...`)
+      for (let i = 0; i < batchImages.length; i++) {
+        const image = batchImages[i]
+        setBatchProgress({ current: i + 1, total: batchImages.length })
+        setProcessingProgress(`Processing image ${i + 1} of ${batchImages.length}...`)
 
         // Process the image
         const processedImage = await processImage(image.url, {
@@ -372,7 +441,7 @@ export function TryOnSection({
           modelType,
           progressCallback: (progress, message) => {
             setProcessingProgress(
-              `Image ${i + 1}/${modelImages.length}: ${message} (${Math.round(progress * 100)}%)`,
+              `Image ${i + 1}/${batchImages.length}: ${message} (${Math.round(progress * 100)}%)`,
             )
           },
         })
@@ -390,15 +459,13 @@ export function TryOnSection({
 
       toast({
         title: "Batch processing complete",
-        description: `Processed ${modelImages.length} images successfully.`,
+        description:
+          `Processed ${batchImages.length} images successfully.` +
+          (skippedImages > 0 ? ` Skipped ${skippedImages} low-quality image${skippedImages === 1 ? "" : "s"}.` : ""),
       })
     } catch (error) {
       console.error("Batch processing error:", error)
-      toast({
-        title: "Batch processing failed",
-        description: error instanceof Error ? error.message : "There was an error processing your images.",
-        variant: "destructive",
-      })
+      toast({ ...getErrorToast(error, "Batch processing failed"), variant: "destructive" })
     } finally {
       setIsProcessing(false)
       setProcessingProgress(null)
@@ -710,21 +777,22 @@ export function TryOnSection({
                           if (!previewPrompt || previewPrompt.includes("Select a template")) return
                           try {
                             setIsGenerating(true)
-                            const imageUrl = await generateImageFromPrompt(
-                              previewPrompt,
-                              isCustomizing ? customNegativePrompt : undefined,
-                              modelType ?? undefined,
-                              "512x512"
+                            const job = generationQueue.enqueue("Try-on model", (signal) =>
+                              generateImageFromPrompt(
+                                previewPrompt,
+                                isCustomizing ? customNegativePrompt : undefined,
+                                modelType ?? undefined,
+                                "512x512",
+                                signal,
+                              ),
                             )
+                            const imageUrl = await job.promise
                             const imageId = Math.random().toString(36).substring(2, 11)
                             setGeneratedImage(imageUrl)
                           } catch (err) {
+                            if (err instanceof GenerationCancelledError) return
                             console.error(err)
-                            toast({
-                              title: "Generation failed",
-                              description: err instanceof Error ? err.message : "Unknown error.",
-                              variant: "destructive",
-                            })
+                            toast({ ...getErrorToast(err, "Generation failed"), variant: "destructive" })
                           } finally {
                             setIsGenerating(false)
                           }
@@ -862,6 +930,21 @@ export function TryOnSection({
 
               {!generatedImage && (
                 <TabsContent value="gallery" className="space-y-4">
+                  {modelImages.length > 0 && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="tryon-block-low-quality">Skip Low-Quality Images</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Leave images that fail the quality check out of batches
+                        </p>
+                      </div>
+                      <Switch
+                        id="tryon-block-low-quality"
+                        checked={blockLowQuality}
+                        onCheckedChange={setBlockLowQuality}
+                      />
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 gap-4">
                     {modelImages.map((image) => (
                       <div
@@ -876,6 +959,12 @@ export function TryOnSection({
                           className="w-full h-32 object-cover"
                           onClick={() => setSelectedModelImageId(image.id)}
                         />
+                        {qualityReports[image.id] && (
+                          <QualityBadge report={qualityReports[image.id]} className="absolute top-2 left-2" />
+                        )}
+                        {image.metadata && (
+                          <MetadataBadge metadata={image.metadata} className="absolute bottom-2 left-2" />
+                        )}
                         <button
                           className="absolute top-2 right-2 p-1 bg-background/80 rounded-full hover:bg-background"
                           onClick={() => handleRemoveImage(image.id)}
@@ -980,6 +1069,12 @@ export function TryOnSection({
                         className="w-full h-32 object-cover"
                         onClick={() => setSelectedGarmentImageId(image.id)}
                       />
+                      {qualityReports[image.id] && (
+                        <QualityBadge report={qualityReports[image.id]} className="absolute top-2 left-2" />
+                      )}
+                      {image.metadata && (
+                        <MetadataBadge metadata={image.metadata} className="absolute bottom-2 left-2" />
+                      )}
                       <button
                         className="absolute top-2 right-2 p-1 bg-background/80 rounded-full hover:bg-background"
                         onClick={() => handleRemoveGarmentImage(image.id)}
@@ -1083,6 +1178,12 @@ export function TryOnSection({
                         className="w-full h-32 object-cover"
                         onClick={() => setSelectedResultImageId(image.id)}
                       />
+                      {qualityReports[image.id] && (
+                        <QualityBadge report={qualityReports[image.id]} className="absolute top-2 left-2" />
+                      )}
+                      {image.metadata && (
+                        <MetadataBadge metadata={image.metadata} className="absolute bottom-2 left-2" />
+                      )}
                       <button
                         className="absolute top-2 right-2 p-1 bg-background/80 rounded-full hover:bg-background"
                         onClick={() => handleRemoveResultImage(image.id)}
@@ -2,17 +2,31 @@
 
 import { useState, useCallback, useEffect } from "react"
 import { useDropzone } from "react-dropzone"
-import { Upload, X, Loader2, Plus, Trash2 } from "lucide-react"
+import { Upload, X, Loader2, Plus, Trash2, SplitSquareHorizontal, AlertTriangle } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { processImage } from "@/lib/image-processing"
+import { getErrorToast } from "@/lib/errors"
 import { useToast } from "@/hooks/use-toast"
+import { useQualityChecks } from "@/hooks/use-quality-checks"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { ProductTypeDetector } from "@/components/product-type-detector"
+import { ColorwayPanel } from "@/components/colorway-panel"
+import { ProductSplitDialog } from "@/components/product-split-dialog"
+import { QualityBadge } from "@/components/quality-badge"
+import { MetadataBadge, MetadataSummary } from "@/components/metadata-badge"
+import { ImageComparison } from "@/components/image-comparison"
+import { defaultColorCorrection, type WhiteBalanceMethod } from "@/lib/color-correction"
+import { frameImage, framingProfiles, getFramingProfile, type FramingReport } from "@/lib/framing"
+import { detectProductType } from "@/lib/product-detection"
+import { getProductTypeById } from "@/lib/prompt-templates"
+import { ingestImageFile, type ImageMetadata } from "@/lib/image-metadata"
+import { imageFileTypes, isImageFile } from "@/lib/image-decoders"
 import type { SegmentationModel } from "@/lib/image-processing"
 import type { ProductType } from "@/lib/prompt-templates"
 
@@ -38,13 +52,33 @@ export function UploadSection({
   onProductTypeDetected,
 }: UploadSectionProps) {
   const { toast } = useToast()
-  const [uploadedImages, setUploadedImages] = useState<{ id: string; url: string; processed?: string }[]>([])
+  const [uploadedImages, setUploadedImages] = useState<
+    {
+      id: string
+      url: string
+      name?: string
+      processed?: string
+      framing?: FramingReport
+      productType?: string // Detected type name, for products split out of a group photo
+      metadata?: ImageMetadata // As read from the upload, before it was stripped
+    }[]
+  >([])
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingProgress, setProcessingProgress] = useState<string | null>(null)
   const [batchProcessing, setBatchProcessing] = useState(false)
   const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 })
   const [activeTab, setActiveTab] = useState<"upload" | "gallery">("upload")
+  const [colorCorrection, setColorCorrection] = useState(false)
+  const [whiteBalance, setWhiteBalance] = useState<WhiteBalanceMethod>(defaultColorCorrection.whiteBalance)
+  const [autoContrast, setAutoContrast] = useState(defaultColorCorrection.autoContrast)
+  const [showComparison, setShowComparison] = useState(false)
+  const [framingProfileId, setFramingProfileId] = useState("none")
+  const [blockLowQuality, setBlockLowQuality] = useState(true)
+  const { reports: qualityReports, checkImages, waitForChecks: waitForQualityChecks } = useQualityChecks(modelType)
+
+  // Same correction for every image so a batch from one supplier comes out consistent
+  const colorCorrectionOptions = colorCorrection ? { ...defaultColorCorrection, whiteBalance, autoContrast } : undefined
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -54,7 +88,7 @@ export function UploadSection({
       const newImages = await Promise.all(
         acceptedFiles.map(async (file) => {
           // Check file type
-          if (!file.type.startsWith("image/")) {
+          if (!isImageFile(file)) {
             toast({
               title: "Invalid file type",
               description: `File "${file.name}" is not an image.`,
@@ -73,21 +107,34 @@ export function UploadSection({
             return null
           }
 
-          // Create a preview URL
-          const imageUrl = URL.createObjectURL(file)
-          return {
-            id: Math.random().toString(36).substring(2, 11),
-            url: imageUrl,
-            name: file.name,
+          // Create an upright preview URL without the photographer's metadata
+          try {
+            const { url, metadata } = await ingestImageFile(file)
+            return {
+              id: Math.random().toString(36).substring(2, 11),
+              url,
+              name: file.name,
+              metadata,
+            }
+          } catch (error) {
+            console.error("Error reading image:", error)
+            toast({ ...getErrorToast(error, `Could not read "${file.name}"`), variant: "destructive" })
+            return null
           }
         }),
       )
 
       // Filter out null values and add to state
-      const validImages = newImages.filter(Boolean) as { id: string; url: string; name: string }[]
+      const validImages = newImages.filter(Boolean) as {
+        id: string
+        url: string
+        name: string
+        metadata: ImageMetadata
+      }[]
 
       if (validImages.length > 0) {
         setUploadedImages((prev) => [...prev, ...validImages])
+        checkImages(validImages)
 
         // Select the first image if none is selected
         if (!selectedImageId) {
@@ -100,14 +147,12 @@ export function UploadSection({
         }
       }
     },
-    [toast, selectedImageId],
+    [toast, selectedImageId, checkImages],
   )
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "image/*": [".jpeg", ".jpg", ".png", ".webp"],
-    },
+    accept: imageFileTypes,
     multiple: true,
   })
 
@@ -123,6 +168,33 @@ export function UploadSection({
     }
   }, [selectedImageId, uploadedImages, onUploadComplete])
 
+  const framingProfile = getFramingProfile(framingProfileId)
+
+  // Run the processing options, then frame the result when a marketplace profile is selected.
+  // The profile computes its own crop, so plain auto-crop is skipped then.
+  const processUpload = async (
+    imageUrl: string,
+    onProgress: (progress: number, message: string) => void,
+  ): Promise<{ processed: string; framing?: FramingReport }> => {
+    const processingShare = framingProfile ? 0.7 : 1
+    const processed = await processImage(imageUrl, {
+      colorCorrection: colorCorrectionOptions,
+      removeBackground: backgroundRemoved,
+      autoCrop: autoCrop && !framingProfile,
+      backgroundColor: { r: 255, g: 255, b: 255, a: 1 }, // White background
+      modelType,
+      progressCallback: (progress, message) => onProgress(progress * processingShare, message),
+    })
+
+    if (!framingProfile) return { processed }
+
+    const framed = await frameImage(processed, framingProfile, {
+      modelType,
+      progressCallback: (progress, message) => onProgress(processingShare + progress * (1 - processingShare), message),
+    })
+    return { processed: framed.imageUrl, framing: framed.report }
+  }
+
   const handleProcess = async () => {
     if (batchProcessing) {
       await processBatch()
@@ -148,34 +220,32 @@ export function UploadSection({
       setProcessingProgress("Processing image...")
 
       // Process the image with our custom functions
-      const processedImage = await processImage(selectedImage.url, {
-        removeBackground: backgroundRemoved,
-        autoCrop: autoCrop,
-        backgroundColor: { r: 255, g: 255, b: 255, a: 1 }, // White background
-        modelType,
-        progressCallback: (progress, message) => {
-          setProcessingProgress(`${message} (${Math.round(progress * 100)}%)`)
-        },
+      const { processed: processedImage, framing } = await processUpload(selectedImage.url, (progress, message) => {
+        setProcessingProgress(`${message} (${Math.round(progress * 100)}%)`)
       })
 
       // Update the processed image in state
       setUploadedImages((prev) =>
-        prev.map((img) => (img.id === selectedImageId ? { ...img, processed: processedImage } : img)),
+        prev.map((img) => (img.id === selectedImageId ? { ...img, processed: processedImage, framing } : img)),
       )
 
       onUploadComplete(processedImage)
 
-      toast({
-        title: "Processing complete",
-        description: `Image processed successfully${backgroundRemoved ? " with background removed" : ""}${autoCrop ? " and auto-cropped" : ""}.`,
-      })
+      if (framing && framing.violations.length > 0) {
+        toast({
+          title: "Processed with framing issues",
+          description: framing.violations.map((violation) => violation.message).join(" "),
+          variant: framing.violations.some((violation) => violation.severity === "error") ? "destructive" : undefined,
+        })
+      } else {
+        toast({
+          title: "Processing complete",
+          description: `Image processed successfully${backgroundRemoved ? " with background removed" : ""}${autoCrop ? " and auto-cropped" : ""}.`,
+        })
+      }
     } catch (error) {
       console.error("Processing error:", error)
-      toast({
-        title: "Processing failed",
-        description: error instanceof Error ? error.message : "There was an error processing your image.",
-        variant: "destructive",
-      })
+      toast({ ...getErrorToast(error, "Processing failed"), variant: "destructive" })
     } finally {
       setIsProcessing(false)
       setProcessingProgress(null)
@@ -186,7 +256,32 @@ export function UploadSection({
     if (uploadedImages.length === 0) return
 
     setIsProcessing(true)
-    setBatchProgress({ current: 0, total: uploadedImages.length })
+
+    // Images still waiting for their quality check are gated too, so wait for the checks to finish
+    let reports = qualityReports
+    if (blockLowQuality && uploadedImages.some((image) => !reports[image.id])) {
+      setProcessingProgress("Waiting for quality checks...")
+      reports = await waitForQualityChecks()
+    }
+
+    // Images that failed the quality check stay out of the batch while the gate is on
+    const batchImages = blockLowQuality
+      ? uploadedImages.filter((image) => reports[image.id]?.level !== "poor")
+      : uploadedImages
+    const skippedImages = uploadedImages.length - batchImages.length
+
+    if (batchImages.length === 0) {
+      toast({
+        title: "Nothing to process",
+        description: "Every image failed the quality check. Turn off Skip Low-Quality Images to process them anyway.",
+        variant: "destructive",
+      })
+      setIsProcessing(false)
+      setProcessingProgress(null)
+      return
+    }
+
+    setBatchProgress({ current: 0, total: batchImages.length })
     setProcessingProgress("Preparing batch processing...")
 
     try {
@@ -195,27 +290,21 @@ export function UploadSection({
       await import("@tensorflow/tfjs-backend-webgl")
 
       // Process each image in sequence
-      for (let i = 0; i < uploadedImages.length; i++) {
-        const image = uploadedImages[i]
-        setBatchProgress({ current: i + 1, total: uploadedImages.length })
-        setProcessingProgress(`Processing image ${i + 1} of ${uploadedImages.length}...`)
+      let imagesWithIssues = 0
+      for (let i = 0; i < batchImages.length; i++) {
+        const image = batchImages[i]
+        setBatchProgress({ current: i + 1, total: batchImages.length })
+        setProcessingProgress(`Processing image ${i + 1} of ${batchImages.length}...`)
 
         // Process the image
-        const processedImage = await processImage(image.url, {
-          removeBackground: backgroundRemoved,
-          autoCrop: autoCrop,
-          backgroundColor: { r: 255, g: 255, b: 255, a: 1 }, // White background
-          modelType,
-          progressCallback: (progress, message) => {
-            setProcessingProgress(
-              `Image ${i + 1}/${uploadedImages.length}: ${message} (${Math.round(progress * 100)}%)`,
-            )
-          },
+        const { processed: processedImage, framing } = await processUpload(image.url, (progress, message) => {
+          setProcessingProgress(`Image ${i + 1}/${batchImages.length}: ${message} (${Math.round(progress * 100)}%)`)
         })
+        if (framing && framing.violations.length > 0) imagesWithIssues++
 
         // Update the processed image in state
         setUploadedImages((prev) =>
-          prev.map((img) => (img.id === image.id ? { ...img, processed: processedImage } : img)),
+          prev.map((img) => (img.id === image.id ? { ...img, processed: processedImage, framing } : img)),
         )
 
         // If this is the selected image, update the preview
@@ -226,15 +315,14 @@ export function UploadSection({
 
       toast({
         title: "Batch processing complete",
-        description: `Processed ${uploadedImages.length} images successfully.`,
+        description:
+          `Processed ${batchImages.length} images successfully.` +
+          (imagesWithIssues > 0 ? ` ${imagesWithIssues} broke ${framingProfile?.name} framing rules.` : "") +
+          (skippedImages > 0 ? ` Skipped ${skippedImages} low-quality image${skippedImages === 1 ? "" : "s"}.` : ""),
       })
     } catch (error) {
       console.error("Batch processing error:", error)
-      toast({
-        title: "Batch processing failed",
-        description: error instanceof Error ? error.message : "There was an error processing your images.",
-        variant: "destructive",
-      })
+      toast({ ...getErrorToast(error, "Batch processing failed"), variant: "destructive" })
     } finally {
       setIsProcessing(false)
       setProcessingProgress(null)
@@ -275,6 +363,27 @@ export function UploadSection({
 
   const selectedImage = selectedImageId ? uploadedImages.find((img) => img.id === selectedImageId) : null
 
+  // Add the products split out of one photo to the gallery, then detect each one's type on its own
+  const handleSplitProducts = async (products: { url: string; name: string }[]) => {
+    const newImages = products.map((product) => ({ id: Math.random().toString(36).substring(2, 11), ...product }))
+    setUploadedImages((prev) => [...prev, ...newImages])
+    setActiveTab("gallery")
+
+    for (const image of newImages) {
+      try {
+        const result = await detectProductType(image.url)
+        const productType = getProductTypeById(result.productTypeId)
+        if (productType) {
+          setUploadedImages((prev) =>
+            prev.map((img) => (img.id === image.id ? { ...img, productType: productType.name } : img)),
+          )
+        }
+      } catch (error) {
+        console.error(`Error detecting product type of ${image.name}:`, error)
+      }
+    }
+  }
+
   // Handle product type detection
   const handleProductTypeDetected = (productType: ProductType, suggestedName: string) => {
     if (onProductTypeDetected) {
@@ -309,7 +418,9 @@ export function UploadSection({
                     </div>
                     <div>
                       <p className="text-lg font-medium">Drag & drop your product images</p>
-                      <p className="text-sm text-muted-foreground">or click to browse (PNG, JPG, WEBP)</p>
+                      <p className="text-sm text-muted-foreground">
+                        or click to browse (PNG, JPG, WEBP, TIFF, PSD, AVIF, HEIC)
+                      </p>
                       <p className="text-sm text-muted-foreground mt-2">
                         {uploadedImages.length > 0
                           ? `${uploadedImages.length} image${uploadedImages.length !== 1 ? "s" : ""} uploaded`
@@ -358,6 +469,28 @@ export function UploadSection({
                           >
                             <X className="h-3 w-3" />
                           </Button>
+                          <div className="absolute top-1 left-1 flex flex-col items-start gap-1">
+                            {qualityReports[image.id] && <QualityBadge report={qualityReports[image.id]} />}
+                            {image.framing && image.framing.violations.length > 0 && (
+                              <div
+                                className={`flex items-center text-white text-[10px] px-1.5 py-0.5 rounded ${
+                                  image.framing.violations.some((violation) => violation.severity === "error")
+                                    ? "bg-destructive"
+                                    : "bg-amber-500"
+                                }`}
+                                title={image.framing.violations.map((violation) => violation.message).join("\n")}
+                              >
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                {image.framing.violations.length}
+                              </div>
+                            )}
+                            {image.productType && (
+                              <div className="bg-background/80 text-[10px] px-1.5 py-0.5 rounded">
+                                {image.productType}
+                              </div>
+                            )}
+                            {image.metadata && <MetadataBadge metadata={image.metadata} />}
+                          </div>
                           {image.processed && (
                             <div className="absolute bottom-0 left-0 right-0 bg-primary/80 text-white text-xs py-1 px-2 text-center">
                               Processed
@@ -383,19 +516,77 @@ export function UploadSection({
                 <Separator className="my-4" />
                 <div className="flex justify-between items-center">
                   <h3 className="text-sm font-medium">Selected Image</h3>
-                  {selectedImage.processed ? (
-                    <span className="text-xs bg-primary/20 text-primary px-2 py-1 rounded-full">Processed</span>
-                  ) : (
-                    <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded-full">Not Processed</span>
-                  )}
-                </div>
-                <div className="mt-2 relative rounded-md overflow-hidden border">
-                  <img
-                    src={selectedImage.processed || selectedImage.url}
-                    alt="Selected product"
-                    className="w-full max-h-[200px] object-contain mx-auto"
-                  />
+                  <div className="flex items-center gap-2">
+                    <ProductSplitDialog
+                      imageUrl={selectedImage.url}
+                      imageName={selectedImage.name}
+                      modelType={modelType}
+                      onSplit={handleSplitProducts}
+                    />
+                    {selectedImage.processed && (
+                      <Button variant="outline" size="sm" onClick={() => setShowComparison(!showComparison)}>
+                        <SplitSquareHorizontal className="h-4 w-4 mr-2" />
+                        {showComparison ? "Hide Comparison" : "Compare"}
+                      </Button>
+                    )}
+                    {selectedImage.processed ? (
+                      <span className="text-xs bg-primary/20 text-primary px-2 py-1 rounded-full">Processed</span>
+                    ) : (
+                      <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded-full">
+                        Not Processed
+                      </span>
+                    )}
+                  </div>
                 </div>
+                {selectedImage.processed && showComparison ? (
+                  <div className="mt-2">
+                    <ImageComparison
+                      beforeImage={selectedImage.url}
+                      afterImage={selectedImage.processed}
+                      title="Original / Processed"
+                      fullWidth
+                    />
+                  </div>
+                ) : (
+                  <div className="mt-2 relative rounded-md overflow-hidden border">
+                    <img
+                      src={selectedImage.processed || selectedImage.url}
+                      alt="Selected product"
+                      className="w-full max-h-[200px] object-contain mx-auto"
+                    />
+                  </div>
+                )}
+                {selectedImage.metadata && <MetadataSummary metadata={selectedImage.metadata} className="mt-2" />}
+                {qualityReports[selectedImage.id]?.issues.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {qualityReports[selectedImage.id].issues.map((issue) => (
+                      <li
+                        key={issue.check}
+                        className={`flex items-start text-xs ${
+                          issue.severity === "error" ? "text-destructive" : "text-amber-600"
+                        }`}
+                      >
+                        <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {selectedImage.framing && selectedImage.framing.violations.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {selectedImage.framing.violations.map((violation) => (
+                      <li
+                        key={violation.code}
+                        className={`flex items-start text-xs ${
+                          violation.severity === "error" ? "text-destructive" : "text-amber-600"
+                        }`}
+                      >
+                        <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                        {violation.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
           </CardContent>
@@ -410,6 +601,52 @@ export function UploadSection({
               </div>
 
               <div className="space-y-4">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="color-correction">Auto Color Correction</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Normalize white balance and exposure across supplier photos
+                      </p>
+                    </div>
+                    <Switch id="color-correction" checked={colorCorrection} onCheckedChange={setColorCorrection} />
+                  </div>
+
+                  {colorCorrection && (
+                    <div className="space-y-3 pl-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="white-balance" className="text-sm">
+                          White Balance
+                        </Label>
+                        <Select
+                          value={whiteBalance}
+                          onValueChange={(value) => setWhiteBalance(value as WhiteBalanceMethod)}
+                        >
+                          <SelectTrigger id="white-balance" className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="gray-world">Gray World</SelectItem>
+                            <SelectItem value="white-patch">White Patch</SelectItem>
+                            <SelectItem value="none">Off</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="auto-contrast" className="text-sm">
+                          Auto Contrast
+                        </Label>
+                        <Switch id="auto-contrast" checked={autoContrast} onCheckedChange={setAutoContrast} />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {whiteBalance === "white-patch"
+                          ? "Uses the brightest areas as reference white; best on light backdrops"
+                          : "Assumes the average color is neutral; best for varied scenes"}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
                     <Label htmlFor="background-removal">Background Removal</Label>
@@ -430,6 +667,34 @@ export function UploadSection({
                   <Switch id="auto-crop" checked={autoCrop} onCheckedChange={setAutoCrop} />
                 </div>
 
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="framing-profile">Marketplace Framing</Label>
+                      <p className="text-sm text-muted-foreground">Frame every processed image by marketplace rules</p>
+                    </div>
+                    <Select value={framingProfileId} onValueChange={setFramingProfileId}>
+                      <SelectTrigger id="framing-profile" className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {framingProfiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {framingProfile && (
+                    <p className="text-xs text-muted-foreground">
+                      {framingProfile.description}
+                      {autoCrop ? ". Replaces Auto Crop while selected." : "."}
+                    </p>
+                  )}
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
                     <Label htmlFor="batch-processing">Batch Processing</Label>
@@ -438,6 +703,16 @@ export function UploadSection({
                   <Switch id="batch-processing" checked={batchProcessing} onCheckedChange={setBatchProcessing} />
                 </div>
 
+                {batchProcessing && (
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="block-low-quality">Skip Low-Quality Images</Label>
+                      <p className="text-sm text-muted-foreground">Leave images that fail the quality check out</p>
+                    </div>
+                    <Switch id="block-low-quality" checked={blockLowQuality} onCheckedChange={setBlockLowQuality} />
+                  </div>
+                )}
+
                 <Separator />
 
                 <div className="space-y-2">
@@ -504,6 +779,18 @@ export function UploadSection({
               onProductTypeDetected={handleProductTypeDetected}
             />
           )}
+
+          {/* Colorway variants of the processed image(s) */}
+          {selectedImage && (
+            <ColorwayPanel
+              images={(batchProcessing ? uploadedImages : [selectedImage]).map((image) => ({
+                id: image.id,
+                url: image.processed || image.url,
+                name: image.name,
+              }))}
+              modelType={modelType}
+            />
+          )}
         </div>
       </div>
 
@@ -28,9 +28,10 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 import { Plus, Save, Trash2, Edit2, Star, StarOff } from "lucide-react"
-import type { ModelSettings } from "@/lib/types"
+import type { ModelSettings, Resolution } from "@/lib/types"
 import type { BackgroundOptions } from "@/lib/background-replacement"
 import type { SegmentationModel } from "@/lib/image-processing"
+import type { ImageAdjustments } from "@/lib/adjustments"
 
 // Define the preset type
 export interface UserPreset {
@@ -48,7 +49,8 @@ export interface UserPreset {
     backgroundType: "studio" | "lifestyle"
     brightness: number
     contrast: number
-    resolution: "512x512" | "1024x1024"
+    adjustments?: ImageAdjustments // Missing in presets saved before the adjustment stack
+    resolution: Resolution
   }
 }
 
@@ -62,7 +64,8 @@ interface UserPresetsProps {
     backgroundType: "studio" | "lifestyle"
     brightness: number
     contrast: number
-    resolution: "512x512" | "1024x1024"
+    adjustments: ImageAdjustments
+    resolution: Resolution
   }
   onApplyPreset: (preset: UserPreset) => void
 }
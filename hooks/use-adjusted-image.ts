@@ -0,0 +1,37 @@
+"use client"
+
+import * as React from "react"
+import { isNeutralAdjustments, renderAdjustedImage, type ImageAdjustments } from "@/lib/adjustments"
+
+// Wait for slider drags to settle before re-rendering
+const RENDER_DELAY_MS = 120
+
+// The image with the adjustments baked in; falls back to the unadjusted image until the
+// first render for it has finished
+export function useAdjustedImage(imageUrl: string | null, adjustments: ImageAdjustments, maxSize?: number) {
+  const [rendered, setRendered] = React.useState<{ source: string; url: string } | null>(null)
+
+  React.useEffect(() => {
+    if (!imageUrl || isNeutralAdjustments(adjustments)) {
+      setRendered(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      renderAdjustedImage(imageUrl, adjustments, maxSize)
+        .then((url) => {
+          if (!cancelled) setRendered({ source: imageUrl, url })
+        })
+        .catch((error) => console.error("Error rendering adjustments:", error))
+    }, RENDER_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [imageUrl, adjustments, maxSize])
+
+  if (!imageUrl || isNeutralAdjustments(adjustments)) return imageUrl
+  return rendered?.source === imageUrl ? rendered.url : imageUrl
+}
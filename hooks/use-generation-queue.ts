@@ -0,0 +1,21 @@
+"use client"
+
+import * as React from "react"
+import { generationQueue, type GenerationJob, type GenerationQueue } from "@/lib/generation-queue"
+
+export function useGenerationQueue(queue: GenerationQueue = generationQueue) {
+  const [jobs, setJobs] = React.useState<GenerationJob[]>(() => queue.getJobs())
+
+  React.useEffect(() => {
+    setJobs(queue.getJobs())
+    return queue.subscribe(setJobs)
+  }, [queue])
+
+  return {
+    jobs,
+    enqueue: queue.enqueue,
+    cancel: queue.cancel,
+    cancelAll: queue.cancelAll,
+    clearFinished: queue.clearFinished,
+  }
+}
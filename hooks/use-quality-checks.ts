@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+import { checkImageQuality, type QualityReport } from "@/lib/image-quality"
+import type { SegmentationModel } from "@/lib/image-processing"
+
+// Quality reports for uploaded images, by image id. Checks run one at a time in the background so
+// a large drop doesn't segment every image at once.
+export function useQualityChecks(modelType?: SegmentationModel) {
+  const [reports, setReports] = React.useState<Record<string, QualityReport>>({})
+  const reportsRef = React.useRef<Record<string, QualityReport>>({})
+  const queueRef = React.useRef<Promise<void>>(Promise.resolve())
+
+  const checkImages = React.useCallback(
+    (images: { id: string; url: string }[]) => {
+      for (const image of images) {
+        queueRef.current = queueRef.current.then(async () => {
+          try {
+            const report = await checkImageQuality(image.url, { modelType })
+            reportsRef.current = { ...reportsRef.current, [image.id]: report }
+            setReports(reportsRef.current)
+          } catch (error) {
+            console.error("Error checking image quality:", error)
+          }
+        })
+      }
+    },
+    [modelType],
+  )
+
+  // Resolves with every report once the queue is empty, including checks queued while waiting.
+  // Images whose check failed have no report.
+  const waitForChecks = React.useCallback(async () => {
+    let queue: Promise<void>
+    do {
+      queue = queueRef.current
+      await queue
+    } while (queue !== queueRef.current)
+    return reportsRef.current
+  }, [])
+
+  return { reports, checkImages, waitForChecks }
+}
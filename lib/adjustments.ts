@@ -0,0 +1,269 @@
+import { canvasToDataURL, createCanvas, getCanvasContext, loadImageElement } from "./image-processing"
+
+// Control point of the tone curve, both axes 0-255
+export interface CurvePoint {
+  x: number
+  y: number
+}
+
+// Non-destructive edits applied on top of the generated image. Plain data so it can be
+// stored in presets and history and re-rendered at any size.
+export interface ImageAdjustments {
+  brightness: number // 0-100, 50 = unchanged
+  contrast: number // 0-100, 50 = unchanged
+  saturation: number // 0-100, 50 = unchanged, 0 = grayscale
+  temperature: number // -100 (cooler) to 100 (warmer)
+  tint: number // -100 (greener) to 100 (more magenta)
+  exposure: number // Stops, -2 to 2
+  curve: CurvePoint[] // Master tone curve
+  sharpen: number // 0-100
+  vignette: number // 0-100
+}
+
+export const defaultAdjustments: ImageAdjustments = {
+  brightness: 50,
+  contrast: 50,
+  saturation: 50,
+  temperature: 0,
+  tint: 0,
+  exposure: 0,
+  curve: [
+    { x: 0, y: 0 },
+    { x: 255, y: 255 },
+  ],
+  sharpen: 0,
+  vignette: 0,
+}
+
+// Inputs of the shadows/midtones/highlights handles on the tone curve
+export const TONE_CURVE_INPUTS = [64, 128, 192] as const
+
+// Build a tone curve from output offsets (-64 to 64) at the shadows, midtones and highlights
+export function createToneCurve(shadows: number, midtones: number, highlights: number): CurvePoint[] {
+  const [shadowsX, midtonesX, highlightsX] = TONE_CURVE_INPUTS
+  return [
+    { x: 0, y: 0 },
+    { x: shadowsX, y: shadowsX + shadows },
+    { x: midtonesX, y: midtonesX + midtones },
+    { x: highlightsX, y: highlightsX + highlights },
+    { x: 255, y: 255 },
+  ]
+}
+
+// Fritsch-Carlson tangents, so the curve never overshoots between control points
+function getMonotoneTangents(points: CurvePoint[]): number[] {
+  const deltas = points.slice(1).map((point, i) => (point.y - points[i].y) / (point.x - points[i].x || 1))
+  const tangents = points.map((_, i) => {
+    if (i === 0) return deltas[0]
+    if (i === points.length - 1) return deltas[i - 1]
+    return deltas[i - 1] * deltas[i] > 0 ? (deltas[i - 1] + deltas[i]) / 2 : 0
+  })
+
+  deltas.forEach((delta, i) => {
+    if (delta === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      return
+    }
+    const a = tangents[i] / delta
+    const b = tangents[i + 1] / delta
+    const length = a * a + b * b
+    if (length > 9) {
+      const scale = 3 / Math.sqrt(length)
+      tangents[i] = scale * a * delta
+      tangents[i + 1] = scale * b * delta
+    }
+  })
+
+  return tangents
+}
+
+// Curve value at `x` as a lookup table over 0-255
+function buildCurveLut(curve: CurvePoint[]): Uint8ClampedArray {
+  const lut = new Uint8ClampedArray(256)
+  const points = [...curve].sort((a, b) => a.x - b.x)
+
+  if (points.length < 2) {
+    for (let x = 0; x < 256; x++) lut[x] = points.length === 1 ? points[0].y : x
+    return lut
+  }
+
+  const tangents = getMonotoneTangents(points)
+  let segment = 0
+
+  for (let x = 0; x < 256; x++) {
+    if (x <= points[0].x) {
+      lut[x] = points[0].y
+      continue
+    }
+    if (x >= points[points.length - 1].x) {
+      lut[x] = points[points.length - 1].y
+      continue
+    }
+
+    while (x > points[segment + 1].x) segment++
+    const p0 = points[segment]
+    const p1 = points[segment + 1]
+    const h = p1.x - p0.x
+    const t = (x - p0.x) / h
+    const t2 = t * t
+    const t3 = t2 * t
+
+    lut[x] =
+      (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * h * tangents[segment] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * h * tangents[segment + 1]
+  }
+
+  return lut
+}
+
+// Output of the tone curve for one input value
+export function evaluateCurve(curve: CurvePoint[], x: number): number {
+  return buildCurveLut(curve)[Math.round(Math.min(255, Math.max(0, x)))]
+}
+
+export function isNeutralCurve(curve: CurvePoint[]): boolean {
+  return curve.every((point) => point.x === point.y)
+}
+
+// True when rendering would leave the image unchanged
+export function isNeutralAdjustments(adjustments: ImageAdjustments): boolean {
+  return (
+    adjustments.brightness === 50 &&
+    adjustments.contrast === 50 &&
+    adjustments.saturation === 50 &&
+    adjustments.temperature === 0 &&
+    adjustments.tint === 0 &&
+    adjustments.exposure === 0 &&
+    isNeutralCurve(adjustments.curve) &&
+    adjustments.sharpen === 0 &&
+    adjustments.vignette === 0
+  )
+}
+
+// Per-channel lookup for the point operations: white balance and exposure in linear light,
+// then brightness and contrast with the same scale as the CSS filters they replace
+function buildChannelLut(gain: number, adjustments: ImageAdjustments): Float32Array {
+  const lut = new Float32Array(256)
+  const exposure = Math.pow(2, adjustments.exposure)
+  const brightness = adjustments.brightness / 50
+  const contrast = adjustments.contrast / 50
+
+  for (let value = 0; value < 256; value++) {
+    const linear = Math.pow(value / 255, 2.2) * gain * exposure
+    let level = Math.pow(Math.min(1, linear), 1 / 2.2)
+    level = Math.min(1, level * brightness)
+    level = (level - 0.5) * contrast + 0.5
+    lut[value] = Math.min(255, Math.max(0, level * 255))
+  }
+
+  return lut
+}
+
+// Unsharp mask with a 3x3 box blur; edge pixels are left as they are
+function sharpenPixels(data: Uint8ClampedArray, width: number, height: number, amount: number) {
+  const source = new Uint8ClampedArray(data)
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4
+      for (let c = 0; c < 3; c++) {
+        let sum = 0
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            sum += source[i + (dy * width + dx) * 4 + c]
+          }
+        }
+        data[i + c] = source[i + c] + (source[i + c] - sum / 9) * amount
+      }
+    }
+  }
+}
+
+// Apply the whole stack to a copy of the pixels, in a fixed order: point operations,
+// saturation, tone curve, sharpening, then vignette. Alpha is left untouched.
+export function applyAdjustments(imageData: ImageData, adjustments: ImageAdjustments): ImageData {
+  const { width, height } = imageData
+  const result = new ImageData(new Uint8ClampedArray(imageData.data), width, height)
+  const { data } = result
+
+  const temperature = adjustments.temperature / 100
+  const tint = adjustments.tint / 100
+  const red = buildChannelLut(1 + temperature * 0.2 + tint * 0.1, adjustments)
+  const green = buildChannelLut(1 - tint * 0.2, adjustments)
+  const blue = buildChannelLut(1 - temperature * 0.2 + tint * 0.1, adjustments)
+  const saturation = adjustments.saturation / 50
+  const curve = buildCurveLut(adjustments.curve)
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = red[data[i]]
+    let g = green[data[i + 1]]
+    let b = blue[data[i + 2]]
+
+    if (saturation !== 1) {
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b
+      r = luma + (r - luma) * saturation
+      g = luma + (g - luma) * saturation
+      b = luma + (b - luma) * saturation
+    }
+
+    data[i] = curve[Math.round(Math.min(255, Math.max(0, r)))]
+    data[i + 1] = curve[Math.round(Math.min(255, Math.max(0, g)))]
+    data[i + 2] = curve[Math.round(Math.min(255, Math.max(0, b)))]
+  }
+
+  if (adjustments.sharpen > 0) {
+    sharpenPixels(data, width, height, (adjustments.sharpen / 100) * 1.5)
+  }
+
+  if (adjustments.vignette > 0) {
+    // Darken towards the corners, starting a third of the way out from the center
+    const strength = (adjustments.vignette / 100) * 0.8
+    const centerX = width / 2
+    const centerY = height / 2
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = (x - centerX) / centerX
+        const dy = (y - centerY) / centerY
+        const distance = Math.sqrt((dx * dx + dy * dy) / 2)
+        const t = Math.min(1, Math.max(0, (distance - 0.35) / 0.65))
+        const factor = 1 - strength * t * t * (3 - 2 * t)
+        if (factor === 1) continue
+
+        const i = (y * width + x) * 4
+        data[i] *= factor
+        data[i + 1] *= factor
+        data[i + 2] *= factor
+      }
+    }
+  }
+
+  return result
+}
+
+// Render the adjustments into a new image, optionally downscaled to `maxSize` for previews.
+// Neutral adjustments at full size return the image unchanged.
+export async function renderAdjustedImage(
+  imageUrl: string,
+  adjustments: ImageAdjustments,
+  maxSize?: number,
+): Promise<string> {
+  const img = await loadImageElement(imageUrl)
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(img.width, img.height)) : 1
+  if (scale === 1 && isNeutralAdjustments(adjustments)) return imageUrl
+
+  const width = Math.max(1, Math.round(img.width * scale))
+  const height = Math.max(1, Math.round(img.height * scale))
+  const canvas = createCanvas(width, height)
+  const ctx = getCanvasContext(canvas)
+  ctx.drawImage(img, 0, 0, width, height)
+
+  if (!isNeutralAdjustments(adjustments)) {
+    ctx.putImageData(applyAdjustments(ctx.getImageData(0, 0, width, height), adjustments), 0, 0)
+  }
+
+  return canvasToDataURL(canvas)
+}
@@ -1,6 +1,32 @@
-import type { GenerateImageParams, GenerateImageResult } from "./types"
+import type {
+  GenerateImageErrorCode,
+  GenerateImageErrorResponse,
+  GenerateImageParams,
+  GenerateImageRequest,
+  GenerateImageResult,
+  Resolution,
+} from "./types"
 import { formatHeight } from "./utils"
-import { processImage } from "./image-processing"
+import { createInpaintingMask, fitImageToSize, processImage } from "./image-processing"
+import { isRetryableGenerationError } from "./generation-queue"
+import {
+  AppError,
+  getErrorTypeForStatus,
+  InvalidInputError,
+  NetworkError,
+  toAppError,
+  type AppErrorType,
+} from "./errors"
+import {
+  createMockImageUrl,
+  createRandomSeed,
+  resolveGenerationMode,
+  resolveGenerationModel,
+  resolveSamplingParams,
+  runProvider,
+} from "./generation-providers"
+import { renderMockImage } from "./mock-renderer"
+import { parseResolution, validateOutputSize } from "./output-size"
 
 // Constants for model selection
 export const IMAGE_GENERATION_MODELS = {
@@ -11,19 +37,110 @@ export const IMAGE_GENERATION_MODELS = {
   MOCK: "mock", // For testing without API calls
 }
 
-// Model endpoints mapping
-const MODEL_ENDPOINTS = {
-  [IMAGE_GENERATION_MODELS.STABLE_DIFFUSION]: "runwayml/stable-diffusion-v1-5",
-  [IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL]: "Stable Diffusion XL",
-  [IMAGE_GENERATION_MODELS.PIXART_ALPHA]: "PixArt-alpha/PixArt-XL-2-1024-MS",
-  [IMAGE_GENERATION_MODELS.KANDINSKY]: "kandinsky-community/kandinsky-2-2-decoder",
+// Server-side generation route and the localStorage key for the per-user access token
+const GENERATE_ROUTE = "/api/generate"
+export const GENERATION_TOKEN_STORAGE_KEY = "generation_api_token"
+
+// Categorize a route error code; provider errors carry their own category or fall back to the status
+function getRouteErrorType(code: GenerateImageErrorCode, status: number): AppErrorType {
+  switch (code) {
+    case "unauthorized":
+      return "auth"
+    case "invalid_request":
+    case "unknown_model":
+      return "invalid-input"
+    case "provider_not_configured":
+      return "provider"
+    default:
+      return getErrorTypeForStatus(status)
+  }
+}
+
+// Error raised when the generation route returns a normalized error
+export class GenerationRouteError extends AppError {
+  code: GenerateImageErrorCode
+  declare readonly status: number
+
+  constructor(code: GenerateImageErrorCode, message: string, status: number, type?: AppErrorType) {
+    super(type || getRouteErrorType(code, status), message, { status })
+    this.name = "GenerationRouteError"
+    this.code = code
+  }
+}
+
+// Get the per-user access token for the generation route
+function getGenerationToken(): string | null {
+  return typeof localStorage !== "undefined" ? localStorage.getItem(GENERATION_TOKEN_STORAGE_KEY) : null
+}
+
+// Send a generation request to the server-side route, which holds the provider credentials
+async function requestServerGeneration(request: GenerateImageRequest, signal?: AbortSignal): Promise<GenerateImageResult> {
+  const token = getGenerationToken()
+
+  let response: Response
+  try {
+    response = await fetch(GENERATE_ROUTE, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(request),
+    })
+  } catch (error) {
+    if (signal?.aborted) throw error
+    throw new NetworkError("Could not reach the generation service", { cause: error })
+  }
+
+  if (!response.ok) {
+    const data: Partial<GenerateImageErrorResponse> = await response.json().catch(() => ({}))
+    throw new GenerationRouteError(
+      data.error?.code || "provider_error",
+      data.error?.message || `Generation route error: ${response.status} ${response.statusText}`,
+      response.status,
+      data.error?.type,
+    )
+  }
+
+  return response.json()
+}
+
+// Generic provider failures fall back to the mock generator; auth, quota and request errors
+// are surfaced, and retryable ones (429/503) are left for the generation queue to retry
+function shouldFallBackToMock(error: unknown): error is GenerationRouteError {
+  return error instanceof GenerationRouteError && error.type === "provider" && !isRetryableGenerationError(error)
 }
 
 // Real API function for image generation using open-source models
-export async function generateImage(params: GenerateImageParams): Promise<GenerateImageResult> {
+export async function generateImage(
+  params: GenerateImageParams,
+  options: { signal?: AbortSignal } = {},
+): Promise<GenerateImageResult> {
+  const { signal } = options
+
+  // Pick the seed up front so it is known (and recorded) even when the caller asked for a
+  // random one, and so a mock fallback renders with the same seed
+  const seed = params.seed ?? createRandomSeed()
+  let processedImageUrl = params.productImage
+
   try {
+    // Select which model to use (defaulting to Stable Diffusion XL)
+    const modelType = params.modelType || IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL
+    const resolved = resolveGenerationModel(modelType)
+    if (!resolved) {
+      throw new InvalidInputError(`Unknown model type: ${modelType}`)
+    }
+    const { provider, model } = resolved
+
+    // Reject sizes the provider can't produce before doing any image processing
+    const { width, height } = parseResolution(params.resolution)
+    const sizeProblems = validateOutputSize(width, height, provider.capabilities.sizeConstraints)
+    if (sizeProblems.length > 0) {
+      throw new InvalidInputError(`${width}×${height} is not supported by ${provider.name}. ${sizeProblems.join(" ")}`)
+    }
+
     // Process the product image if needed (background removal, auto-crop)
-    let processedImageUrl = params.productImage
 
     if (params.backgroundRemoved || params.autoCrop) {
       processedImageUrl = await processImage(params.productImage, {
@@ -34,55 +151,92 @@ export async function generateImage(params: GenerateImageParams): Promise<Genera
     }
 
     // Use the custom prompt if provided, otherwise create one from params
-    const prompt = params.customPrompt || createPromptFromParams(params, processedImageUrl)
+    const basePrompt = params.customPrompt || createPromptFromParams(params, processedImageUrl)
+    const prompt = params.promptVariation ? `${basePrompt.trim()}, ${params.promptVariation}` : basePrompt
     const negativePrompt =
       params.negativePrompt ||
       "low quality, blurry, distorted, deformed, disfigured, bad anatomy, watermark, logo, text"
 
-    console.log("api_file, generationModel",params.modelType)
-    // Select which model to use (defaulting to Stable Diffusion)
-    const modelType = params.modelType || IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL
+    // Providers that run in the browser (the mock) don't need the server route
+    if (provider.generateLocally) {
+      const startTime = Date.now()
+      const sampling = resolveSamplingParams(provider, { ...params, seed })
+      const imageUrl = await runProvider(provider, {
+        model,
+        prompt,
+        negativePrompt,
+        width,
+        height,
+        mode: "text",
+        ...sampling,
+        params,
+        productImage: processedImageUrl,
+        signal,
+      })
 
-    // For testing without API calls
-    if (modelType === IMAGE_GENERATION_MODELS.MOCK) {
-      return getMockGeneratedImage(params)
+      return {
+        imageUrl,
+        metadata: {
+          processingTime: Date.now() - startTime,
+          aiModel: "Mock Generator",
+          prompt,
+          negativePrompt,
+          generationMode: "text",
+          ...sampling,
+        },
+      }
     }
 
-    // Check if we have an API key
-    const apiKey = process.env.HUGGINGFACE_API_KEY || localStorage.getItem("huggingface_api_key")
-    if (!apiKey || apiKey === "hf_dummy_key_for_demo") {
-      console.warn("Using mock generator because no valid Hugging Face API key was found")
-      return getMockGeneratedImage(params, "No valid Hugging Face API key")
+    // Send the product image (and mask) when the provider can use them, otherwise fall back to text-only
+    const requestedMode = params.generationMode || "text"
+    const mode = resolveGenerationMode(provider, requestedMode)
+    if (mode !== requestedMode) {
+      console.warn(`${provider.name} does not support ${requestedMode} generation, falling back to ${mode}`)
     }
 
-    // Start timing for performance measurement
-    const startTime = Date.now()
+    let initImage: string | undefined
+    let maskImage: string | undefined
 
-    // Generate image using the selected model
-    const imageUrl = await generateWithOpenSourceModel(modelType, prompt, negativePrompt, params.resolution)
+    if (mode !== "text") {
+      initImage = await fitImageToSize(processedImageUrl, width, height)
 
-    // Calculate processing time
-    const processingTime = Date.now() - startTime
+      if (mode === "inpainting" && params.useSegmentationMask !== false) {
+        maskImage = await createInpaintingMask(processedImageUrl, { width, height })
+      }
+    }
 
-    // Return the generated image URL and metadata
-    return {
-      imageUrl,
-      metadata: {
-        processingTime,
-        aiModel: modelType,
+    // Generate image through the server-side route
+    return await requestServerGeneration(
+      {
+        modelType,
         prompt,
         negativePrompt,
+        resolution: params.resolution,
+        generationMode: mode,
+        initImage,
+        maskImage,
+        strength: params.strength,
+        seed,
+        steps: params.steps,
+        guidanceScale: params.guidanceScale,
+        scheduler: params.scheduler,
       },
-    }
+      signal,
+    )
   } catch (error) {
     console.error("Error generating image:", error)
 
-    // If there's an API error, return a mock image with the error message
-    if (error instanceof Error && error.message.includes("Hugging Face API error")) {
-      return getMockGeneratedImage(params, error.message)
+    // Let cancellations and retryable errors reach the generation queue untouched
+    if (signal?.aborted || isRetryableGenerationError(error)) {
+      throw error
     }
 
-    throw new Error(`Failed to generate image: ${error instanceof Error ? error.message : String(error)}`)
+    // If there's a provider error, return a mock image with the error message
+    if (shouldFallBackToMock(error)) {
+      return getMockGeneratedImage(params, { errorMessage: error.message, seed, productImage: processedImageUrl })
+    }
+
+    throw toAppError(error, "Failed to generate image")
   }
 }
 
@@ -90,42 +244,31 @@ export async function generateImageFromPrompt(
   prompt: string,
   negativePrompt: string = "low quality, blurry, distorted, deformed, disfigured, bad anatomy, watermark, logo, text",
   modelType: string = IMAGE_GENERATION_MODELS.STABLE_DIFFUSION_XL,
-  resolution: "512x512" | "1024x1024" = "512x512"
+  resolution: Resolution = "512x512",
+  signal?: AbortSignal,
 ): Promise<string> {
   try {
-    const apiKey = process.env.HUGGINGFACE_API_KEY || localStorage.getItem("huggingface_api_key")
-    if (!apiKey || apiKey === "hf_dummy_key_for_demo") {
-      console.warn("Using mock generator - no valid Hugging Face API key")
-
-      const mockParams: GenerateImageParams = {
-        productImage: "",
-        backgroundRemoved: false,
-        autoCrop: false,
-        modelSettings: {
-          gender: "female",
-          bodyType: 50,
-          hairstyle: "long-straight",
-          height: 165,
-          skinTone: "#D2B48C",
-        },
-        resolution,
-        backgroundType: "studio",
-        brightness: 50,
-        contrast: 50,
-        modelType,
-        customPrompt: prompt,
-        negativePrompt,
-      }
+    const resolved = resolveGenerationModel(modelType)
+    if (!resolved) {
+      throw new InvalidInputError(`Unknown model type: ${modelType}`)
+    }
+    const { provider, model } = resolved
 
-      const result = getMockGeneratedImage(mockParams, "No valid Hugging Face API key")
-      return result.imageUrl
+    if (provider.generateLocally) {
+      const [width, height] = resolution.split("x").map(Number)
+      return await runProvider(provider, { model, prompt, negativePrompt, width, height, mode: "text", signal })
     }
 
-    const imageUrl = await generateWithOpenSourceModel(modelType, prompt, negativePrompt, resolution)
-    return imageUrl
+    const result = await requestServerGeneration({ modelType, prompt, negativePrompt, resolution }, signal)
+    return result.imageUrl
   } catch (error) {
     console.error("Error in prompt-only image generation:", error)
 
+    // Let cancellations and retryable errors reach the generation queue untouched
+    if (signal?.aborted || isRetryableGenerationError(error)) {
+      throw error
+    }
+
     const fallbackParams: GenerateImageParams = {
       productImage: "",
       backgroundRemoved: false,
@@ -146,119 +289,39 @@ export async function generateImageFromPrompt(
       negativePrompt,
     }
 
-    const result = getMockGeneratedImage(fallbackParams, "Error fallback")
+    const result = await getMockGeneratedImage(fallbackParams, { errorMessage: "Error fallback", seed: createRandomSeed() })
     return result.imageUrl
   }
 }
 
 
-// Function to generate images with different open-source models
-async function generateWithOpenSourceModel(
-  modelType: string,
-  prompt: string,
-  negativePrompt: string,
-  resolution: "512x512" | "1024x1024",
-): Promise<string> {
-  // Parse resolution into width and height
-  const [width, height] = resolution.split("x").map(Number)
-
-  // Get the model endpoint
-  const modelEndpoint = MODEL_ENDPOINTS[modelType]
-  if (!modelEndpoint) {
-    throw new Error(`Unknown model type: ${modelType}`)
-  }
-
-  // Get API key from environment or localStorage
-  const apiKey = process.env.HUGGINGFACE_API_KEY || localStorage.getItem("huggingface_api_key")
-  console.log("Model Endpoint is *****",modelEndpoint)
-  // Make the API request to Hugging Face
-  // const response = await fetch(`https://api-inference.huggingface.co/models/${modelEndpoint}`, {
-  //   method: "POST",
-  //   headers: {
-  //     "Content-Type": "application/json",
-  //     Authorization: `Bearer ${apiKey}`,
-  //   },
-  //   body: JSON.stringify({
-  //     inputs: prompt,
-  //     parameters: {
-  //       width: width,
-  //       height: height,
-  //       num_inference_steps: 50,
-  //       guidance_scale: 7.5,
-  //       negative_prompt: negativePrompt,
-  //     },
-  //   }),
-  // })
-  // if (!response.ok) {
-  //   let errorMessage = "Hugging Face API error"
-  //   try {
-  //     const errorData = await response.json()
-  //     errorMessage = `Hugging Face API error: ${errorData.error || JSON.stringify(errorData)}`
-  //   } catch {
-  //     errorMessage = `Hugging Face API error: ${response.status} ${response.statusText}`
-  //   }
-  //   throw new Error(errorMessage)
-  // }
-
-  // // The response is the image blob
-  // const blob = await response.blob()
-  // return URL.createObjectURL(blob)
-  const formData = new FormData();
-  formData.append("prompt",prompt);
-  formData.append("model_choice",modelEndpoint)
-  const response = await fetch("http://localhost:8000/fashion/generate_new", {
-    method: "POST",
-    body: formData, // ✅ no need to set headers manually
-  });
-  if (!response.ok) {
-    let errorMessage = "Image generation API error";
-    try {
-      const errorData = await response.json();
-      errorMessage = `API error: ${errorData.error || JSON.stringify(errorData)}`;
-    } catch {
-      errorMessage = `API error: ${response.status} ${response.statusText}`;
-    }
-    throw new Error(errorMessage);
-  }
-  
-  const data = await response.json();
-  if (!data.result) {
-    throw new Error("Image URL not found in response");
-  }
-  
-  return data.result; // ✅ This is your hosted image URL
-
-  
-
-  
-}
-
-// Mock function for testing without API calls
-function getMockGeneratedImage(params: GenerateImageParams, errorMessage?: string): GenerateImageResult {
-  const { modelSettings, backgroundType, customPrompt } = params
-  const gender = modelSettings.gender
-  const bodyType = modelSettings.bodyType < 33 ? "petite" : modelSettings.bodyType < 66 ? "average" : "plus-size"
-
-  let placeholderQuery = customPrompt || `${gender} ${bodyType} model wearing clothes on ${backgroundType} background`
-
-  if (errorMessage) {
-    placeholderQuery = `Error: ${errorMessage} - ${placeholderQuery}`
-  }
+// Mock image standing in for a failed provider, rendered on a canvas when one is available
+async function getMockGeneratedImage(
+  params: GenerateImageParams,
+  options: { errorMessage?: string; seed: number; productImage?: string },
+): Promise<GenerateImageResult> {
+  const { errorMessage, seed, productImage } = options
+  const startTime = Date.now()
+  const prompt = params.customPrompt || createPromptFromParams(params)
 
-  // ✅ Dynamic resolution support
+  // Dynamic resolution support
   const resolution = params.resolution || "1024x1024"
   const [width, height] = resolution.split("x").map(Number)
-  const imageUrl = `/placeholder.svg?height=${height}&width=${width}&query=${encodeURIComponent(placeholderQuery)}`
+  const imageUrl =
+    typeof document === "undefined"
+      ? createMockImageUrl(params, width, height, errorMessage)
+      : await renderMockImage({ width, height, seed, prompt, params, productImage, errorMessage })
 
   return {
     imageUrl,
     metadata: {
-      processingTime: 500,
+      processingTime: Date.now() - startTime,
       aiModel: errorMessage ? "Error" : "Mock Generator",
-      prompt: customPrompt || createPromptFromParams(params),
+      prompt,
       negativePrompt:
         params.negativePrompt ||
         "low quality, blurry, distorted, deformed, disfigured, bad anatomy, watermark, logo, text",
+      seed,
     },
   }
 }
@@ -291,80 +354,33 @@ The image should have a ${background} ${lighting}.
 Make the product the focal point of the image. Photorealistic style, high quality, detailed texture, professional photography.`
 }
 
-// Function to validate the Hugging Face API key
-export async function validateHuggingFaceApiKey(apiKey: string): Promise<{ valid: boolean; message: string }> {
+// Function to validate a per-user access token against the generation route
+export async function validateGenerationToken(token: string): Promise<{ valid: boolean; message: string }> {
   try {
-    // First, verify the API key format
-    if (!apiKey || apiKey.trim() === '') {
-      return { valid: false, message: "API key cannot be empty. Please enter a valid Hugging Face API key." }
-    }
-
-    // Check if the API key follows the expected format (typically starts with 'hf_')
-    if (!apiKey.startsWith('hf_')) {
-      return { 
-        valid: false, 
-        message: "Invalid API key format. Hugging Face API keys typically start with 'hf_'. Please check your key." 
-      }
-    }
-
-    // Make a request to the Hugging Face user info endpoint to verify the key
-    const userInfoResponse = await fetch("https://huggingface.co/api/whoami-v2", {
+    const response = await fetch(GENERATE_ROUTE, {
       method: "GET",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
     })
 
-    // If we can get user info, the key is definitely valid
-    if (userInfoResponse.ok) {
-      const userData = await userInfoResponse.json()
-      return { 
-        valid: true, 
-        message: `API key is valid. Connected to Hugging Face account: ${userData.name || userData.username || 'User'}` 
-      }
+    if (response.status === 401) {
+      return { valid: false, message: "Invalid access token. Please check your token or ask an administrator for a new one." }
     }
 
-    // If user info fails, try the model API as fallback
-    const modelResponse = await fetch("https://api-inference.huggingface.co/models/runwayml/stable-diffusion-v1-5", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        inputs: "Test prompt for API key validation",
-        parameters: {
-          width: 256,
-          height: 256,
-          num_inference_steps: 1, // Minimal steps for quick validation
-        },
-      }),
-    })
-
-    // Check for specific error codes
-    if (modelResponse.status === 401 || modelResponse.status === 403) {
-      return { valid: false, message: "Invalid API key. Please check your Hugging Face API key or generate a new one." }
+    if (!response.ok) {
+      return { valid: false, message: `Generation service error: ${response.status} ${response.statusText}.` }
     }
 
-    if (modelResponse.status === 429) {
-      return { valid: true, message: "API key is valid, but you've reached the rate limit. Try again later." }
-    }
-
-    if (!modelResponse.ok) {
-      const errorData = await modelResponse.json().catch(() => ({}))
-      return {
-        valid: false,
-        message: `API error: ${errorData.error || modelResponse.statusText}. Please try again or generate a new key.`,
-      }
+    const data: { providers: { name: string; configured: boolean }[] } = await response.json()
+    const configured = data.providers.filter((provider) => provider.configured).map((provider) => provider.name)
+    return {
+      valid: true,
+      message: `Access token is valid. Available providers: ${configured.join(", ") || "none"}.`,
     }
-
-    // If we get here, the key is valid
-    return { valid: true, message: "API key is valid and ready to use with image generation models." }
   } catch (error) {
-    console.error("Error validating Hugging Face API key:", error)
+    console.error("Error validating access token:", error)
     return {
       valid: false,
-      message: `Error validating API key: ${error instanceof Error ? error.message : String(error)}. Please check your internet connection and try again.`,
+      message: `Error validating access token: ${error instanceof Error ? error.message : String(error)}. Please check your internet connection and try again.`,
     }
   }
 }
@@ -1,9 +1,46 @@
-import { removeBackground } from "./image-processing"
-import type { SegmentationModel } from "./image-processing"
+import {
+  canvasToDataURL,
+  createCanvas,
+  getCanvasContext,
+  getPerformanceConfig,
+  loadImageBitmap,
+  loadImageElement,
+  removeBackgroundFromImage,
+} from "./image-processing"
+import type { CanvasLike, CanvasLikeContext, SegmentationModel, SegmentationSource } from "./image-processing"
+import { toAppError } from "./errors"
+import { Mask } from "./mask"
+import { runSegmentationTask } from "./segmentation-worker-client"
 
 // Background types
 export type BackgroundType = "color" | "image" | "gradient" | "blur"
 
+// Soft shadow where the product meets the floor, built from the bottom edge of the mask
+export interface ContactShadowOptions {
+  enabled: boolean
+  opacity: number // 0-1
+  blur: number // px
+  spread: number // Shadow height as a fraction of the product height
+}
+
+// Shadow cast by a directional light
+export interface DropShadowOptions {
+  enabled: boolean
+  angle: number // Direction the shadow falls, degrees clockwise from the right (90 = straight down)
+  distance: number // px
+  blur: number // px
+  opacity: number // 0-1
+  color: string
+}
+
+// Mirror image of the product fading out below it, as on a glossy floor
+export interface ReflectionOptions {
+  enabled: boolean
+  opacity: number // 0-1 at the product's base
+  length: number // Fade length as a fraction of the product height
+  gap: number // px between the product and its reflection
+}
+
 // Background options
 export interface BackgroundOptions {
   type: BackgroundType
@@ -20,7 +57,22 @@ export interface BackgroundOptions {
     x: number
     y: number
   }
+  contactShadow?: ContactShadowOptions
+  dropShadow?: DropShadowOptions
+  reflection?: ReflectionOptions
+}
+
+// Starting values when a shadow or reflection is first switched on
+export const defaultContactShadow: ContactShadowOptions = { enabled: false, opacity: 0.5, blur: 12, spread: 0.04 }
+export const defaultDropShadow: DropShadowOptions = {
+  enabled: false,
+  angle: 60,
+  distance: 24,
+  blur: 20,
+  opacity: 0.35,
+  color: "#000000",
 }
+export const defaultReflection: ReflectionOptions = { enabled: false, opacity: 0.3, length: 0.35, gap: 0 }
 
 // Default background options
 const defaultBackgroundOptions: BackgroundOptions = {
@@ -39,171 +91,246 @@ const defaultBackgroundOptions: BackgroundOptions = {
   },
 }
 
-// Function to replace the background of an image
-export async function replaceBackground(
-  imageUrl: string,
-  backgroundOptions: Partial<BackgroundOptions> = {},
-  options: {
-    modelType?: SegmentationModel
-    threshold?: number
-    edgeBlur?: number
-    progressCallback?: (progress: number, message: string) => void
-  } = {},
-): Promise<string> {
-  const { modelType = "bodypix", threshold = 0.7, edgeBlur = 3, progressCallback } = options
+// The cutout's shape filled with a single color, for shadows
+function createSilhouette(foreground: CanvasLike, color: string): CanvasLike {
+  const silhouette = createCanvas(foreground.width, foreground.height)
+  const ctx = getCanvasContext(silhouette, "shadow canvas")
+  ctx.drawImage(foreground, 0, 0)
+  ctx.globalCompositeOperation = "source-in"
+  ctx.fillStyle = color
+  ctx.fillRect(0, 0, silhouette.width, silhouette.height)
+  return silhouette
+}
 
-  // Merge with default options
-  const bgOptions: BackgroundOptions = { ...defaultBackgroundOptions, ...backgroundOptions }
+// Bounding box of the visible part of the cutout
+function getForegroundBox(foreground: CanvasLike) {
+  const ctx = getCanvasContext(foreground)
+  const alpha = Mask.fromAlpha(ctx.getImageData(0, 0, foreground.width, foreground.height))
+  return alpha.getBoundingBox(0.1)
+}
 
-  try {
-    // First, remove the background to get a transparent image
-    progressCallback?.(0.1, "Removing original background...")
-    const transparentImage = await removeBackground(imageUrl, {
-      modelType,
-      threshold,
-      edgeBlur,
-      foregroundColor: { r: 0, g: 0, b: 0, a: 0 }, // Transparent foreground for composition
-      backgroundColor: { r: 0, g: 0, b: 0, a: 0 }, // Transparent background
-      progressCallback: (progress, message) => {
-        progressCallback?.(0.1 + progress * 0.6, message)
-      },
-    })
-
-    // Create a new image from the transparent result
-    progressCallback?.(0.7, "Creating new background...")
-    const foregroundImg = new Image()
-    foregroundImg.crossOrigin = "anonymous"
-
-    await new Promise((resolve, reject) => {
-      foregroundImg.onload = resolve
-      foregroundImg.onerror = reject
-      foregroundImg.src = transparentImage
-    })
-
-    // Create a canvas for the final composition
-    const canvas = document.createElement("canvas")
-    canvas.width = foregroundImg.width
-    canvas.height = foregroundImg.height
-    const ctx = canvas.getContext("2d")
-
-    if (!ctx) {
-      throw new Error("Could not get canvas context")
-    }
-
-    // Draw the background based on the type
-    switch (bgOptions.type) {
-      case "color":
-        // Fill with solid color
-        ctx.fillStyle = bgOptions.color || "#FFFFFF"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-        break
-
-      case "gradient":
-        // Create gradient
-        const gradient = ctx.createLinearGradient(
-          0,
-          0,
-          bgOptions.gradient?.direction === "to right" ? canvas.width : 0,
-          bgOptions.gradient?.direction === "to bottom" ? canvas.height : 0,
-        )
-
-        // Add color stops
-        const colors = bgOptions.gradient?.colors || ["#FFFFFF", "#EEEEEE"]
-        colors.forEach((color, index) => {
-          gradient.addColorStop(index / (colors.length - 1), color)
-        })
-
-        ctx.fillStyle = gradient
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-        break
-
-      case "image":
-        if (bgOptions.image) {
-          // Load background image
-          const bgImage = new Image()
-          bgImage.crossOrigin = "anonymous"
-
-          await new Promise((resolve, reject) => {
-            bgImage.onload = resolve
-            bgImage.onerror = reject
-            bgImage.src = bgOptions.image || ""
-          })
-
-          // Calculate dimensions to cover the canvas while maintaining aspect ratio
-          const scale = bgOptions.scale || 1
-          const position = bgOptions.position || { x: 0.5, y: 0.5 }
-
-          let sw = bgImage.width * scale
-          let sh = bgImage.height * scale
-          let sx = 0
-          let sy = 0
-
-          // Ensure the scaled image covers the entire canvas
-          if (sw / sh > canvas.width / canvas.height) {
-            // Background image is wider than canvas
-            sw = sh * (canvas.width / canvas.height)
-            sx = (bgImage.width - sw) * position.x
-          } else {
-            // Background image is taller than canvas
-            sh = sw * (canvas.height / canvas.width)
-            sy = (bgImage.height - sh) * position.y
-          }
-
-          // Draw the background image
-          ctx.globalAlpha = bgOptions.opacity || 1
-          ctx.drawImage(bgImage, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height)
-          ctx.globalAlpha = 1
-        }
-        break
+// Draw the reflection and shadows that sit between the background and the product
+function drawGroundingEffects(ctx: CanvasLikeContext, foreground: CanvasLike, bgOptions: BackgroundOptions) {
+  const { contactShadow, dropShadow, reflection } = bgOptions
+  if (!contactShadow?.enabled && !dropShadow?.enabled && !reflection?.enabled) return
+
+  const box = getForegroundBox(foreground)
+  if (!box) return
+  const bottom = box.y + box.height
+
+  if (reflection?.enabled) {
+    // Flip the product about its base, then fade it out with a gradient
+    const reflected = createCanvas(foreground.width, foreground.height)
+    const reflectedCtx = getCanvasContext(reflected, "reflection canvas")
+    reflectedCtx.translate(0, 2 * bottom + reflection.gap)
+    reflectedCtx.scale(1, -1)
+    reflectedCtx.drawImage(foreground, 0, 0)
+    reflectedCtx.setTransform(1, 0, 0, 1, 0, 0)
 
-      case "blur":
-        // Create a blurred version of the original image
-        const blurCanvas = document.createElement("canvas")
-        blurCanvas.width = canvas.width
-        blurCanvas.height = canvas.height
-        const blurCtx = blurCanvas.getContext("2d")
+    const fadeStart = bottom + reflection.gap
+    const fade = reflectedCtx.createLinearGradient(0, fadeStart, 0, fadeStart + box.height * reflection.length)
+    fade.addColorStop(0, `rgba(0, 0, 0, ${reflection.opacity})`)
+    fade.addColorStop(1, "rgba(0, 0, 0, 0)")
+    reflectedCtx.globalCompositeOperation = "destination-in"
+    reflectedCtx.fillStyle = fade
+    reflectedCtx.fillRect(0, 0, reflected.width, reflected.height)
 
-        if (!blurCtx) {
-          throw new Error("Could not get blur canvas context")
+    ctx.drawImage(reflected, 0, 0)
+  }
+
+  if (dropShadow?.enabled) {
+    const radians = (dropShadow.angle * Math.PI) / 180
+    ctx.save()
+    ctx.globalAlpha = dropShadow.opacity
+    ctx.filter = `blur(${dropShadow.blur}px)`
+    ctx.drawImage(
+      createSilhouette(foreground, dropShadow.color),
+      Math.cos(radians) * dropShadow.distance,
+      Math.sin(radians) * dropShadow.distance,
+    )
+    ctx.restore()
+  }
+
+  if (contactShadow?.enabled) {
+    // Squash the bottom edge of the silhouette into a thin band under the product
+    const stripHeight = Math.max(2, Math.round(box.height * 0.08))
+    const shadowHeight = Math.max(2, box.height * contactShadow.spread)
+    ctx.save()
+    ctx.globalAlpha = contactShadow.opacity
+    ctx.filter = `blur(${contactShadow.blur}px)`
+    ctx.drawImage(
+      createSilhouette(foreground, "#000000"),
+      box.x,
+      bottom - stripHeight,
+      box.width,
+      stripHeight,
+      box.x - box.width * 0.05,
+      bottom - shadowHeight / 2,
+      box.width * 1.1,
+      shadowHeight,
+    )
+    ctx.restore()
+  }
+}
+
+export interface ReplaceBackgroundOptions {
+  modelType?: SegmentationModel
+  threshold?: number
+  edgeBlur?: number
+  mask?: Mask // Hand-edited mask to use instead of running segmentation
+  progressCallback?: (progress: number, message: string) => void
+}
+
+// Background replacement on an already decoded image; runs unchanged on the main thread or in
+// the worker. `backgroundImage` is the decoded `bgOptions.image` for the "image" type.
+export async function replaceBackgroundFromImage(
+  img: SegmentationSource,
+  bgOptions: BackgroundOptions,
+  options: ReplaceBackgroundOptions = {},
+  backgroundImage?: SegmentationSource,
+): Promise<CanvasLike> {
+  const { modelType = "bodypix", threshold = 0.7, edgeBlur = 3, mask, progressCallback } = options
+
+  // First, remove the background to get a transparent image
+  progressCallback?.(0.1, "Removing original background...")
+  const foreground = await removeBackgroundFromImage(img, {
+    modelType,
+    threshold,
+    edgeBlur,
+    mask,
+    backgroundColor: { r: 0, g: 0, b: 0, a: 0 }, // Transparent background
+    progressCallback: (progress, message) => {
+      progressCallback?.(0.1 + progress * 0.6, message)
+    },
+  })
+
+  // Create a canvas for the final composition
+  progressCallback?.(0.7, "Creating new background...")
+  const canvas = createCanvas(foreground.width, foreground.height)
+  const ctx = getCanvasContext(canvas)
+
+  // Draw the background based on the type
+  switch (bgOptions.type) {
+    case "color":
+      // Fill with solid color
+      ctx.fillStyle = bgOptions.color || "#FFFFFF"
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      break
+
+    case "gradient":
+      // Create gradient
+      const gradient = ctx.createLinearGradient(
+        0,
+        0,
+        bgOptions.gradient?.direction === "to right" ? canvas.width : 0,
+        bgOptions.gradient?.direction === "to bottom" ? canvas.height : 0,
+      )
+
+      // Add color stops
+      const colors = bgOptions.gradient?.colors || ["#FFFFFF", "#EEEEEE"]
+      colors.forEach((color, index) => {
+        gradient.addColorStop(index / (colors.length - 1), color)
+      })
+
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      break
+
+    case "image":
+      if (backgroundImage) {
+        // Calculate dimensions to cover the canvas while maintaining aspect ratio
+        const scale = bgOptions.scale || 1
+        const position = bgOptions.position || { x: 0.5, y: 0.5 }
+
+        let sw = backgroundImage.width * scale
+        let sh = backgroundImage.height * scale
+        let sx = 0
+        let sy = 0
+
+        // Ensure the scaled image covers the entire canvas
+        if (sw / sh > canvas.width / canvas.height) {
+          // Background image is wider than canvas
+          sw = sh * (canvas.width / canvas.height)
+          sx = (backgroundImage.width - sw) * position.x
+        } else {
+          // Background image is taller than canvas
+          sh = sw * (canvas.height / canvas.width)
+          sy = (backgroundImage.height - sh) * position.y
         }
 
-        // Load the original image
-        const originalImg = new Image()
-        originalImg.crossOrigin = "anonymous"
+        // Draw the background image
+        ctx.globalAlpha = bgOptions.opacity || 1
+        ctx.drawImage(backgroundImage, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height)
+        ctx.globalAlpha = 1
+      }
+      break
 
-        await new Promise((resolve, reject) => {
-          originalImg.onload = resolve
-          originalImg.onerror = reject
-          originalImg.src = imageUrl
-        })
+    case "blur":
+      // Create a blurred version of the original image
+      const blurCanvas = createCanvas(canvas.width, canvas.height)
+      const blurCtx = getCanvasContext(blurCanvas, "blur canvas")
 
-        // Draw the original image
-        blurCtx.drawImage(originalImg, 0, 0, canvas.width, canvas.height)
+      // Draw the original image
+      blurCtx.drawImage(img, 0, 0, canvas.width, canvas.height)
 
-        // Apply blur filter
-        const blurAmount = bgOptions.blurAmount || 10
-        blurCtx.filter = `blur(${blurAmount}px)`
-        blurCtx.globalAlpha = 0.8
-        blurCtx.drawImage(blurCanvas, 0, 0)
-        blurCtx.globalAlpha = 1
-        blurCtx.filter = "none"
+      // Apply blur filter
+      const blurAmount = bgOptions.blurAmount || 10
+      blurCtx.filter = `blur(${blurAmount}px)`
+      blurCtx.globalAlpha = 0.8
+      blurCtx.drawImage(blurCanvas, 0, 0)
+      blurCtx.globalAlpha = 1
+      blurCtx.filter = "none"
 
-        // Draw the blurred background to the main canvas
-        ctx.drawImage(blurCanvas, 0, 0)
-        break
-    }
+      // Draw the blurred background to the main canvas
+      ctx.drawImage(blurCanvas, 0, 0)
+      break
+  }
+
+  // Ground the product with its reflection and shadows, then draw it on top
+  progressCallback?.(0.9, "Compositing final image...")
+  drawGroundingEffects(ctx, foreground, bgOptions)
+  ctx.drawImage(foreground, 0, 0)
 
-    // Draw the foreground image with transparency
-    progressCallback?.(0.9, "Compositing final image...")
-    ctx.drawImage(foregroundImg, 0, 0)
+  progressCallback?.(1.0, "Background replacement complete")
+  return canvas
+}
 
-    progressCallback?.(1.0, "Background replacement complete")
+// Function to replace the background of an image, in the segmentation worker when available
+export async function replaceBackground(
+  imageUrl: string,
+  backgroundOptions: Partial<BackgroundOptions> = {},
+  options: ReplaceBackgroundOptions = {},
+): Promise<string> {
+  const { progressCallback, ...taskOptions } = options
 
-    // Return the data URL of the canvas
-    return canvas.toDataURL("image/png")
+  // Merge with default options
+  const bgOptions: BackgroundOptions = { ...defaultBackgroundOptions, ...backgroundOptions }
+  const hasBackgroundImage = bgOptions.type === "image" && !!bgOptions.image
+
+  try {
+    return await runSegmentationTask(
+      async () => ({
+        type: "replace-background",
+        image: await loadImageBitmap(imageUrl),
+        backgroundImage: hasBackgroundImage ? await loadImageBitmap(bgOptions.image || "") : undefined,
+        backgroundOptions: bgOptions,
+        options: taskOptions,
+      }),
+      {
+        performanceConfig: getPerformanceConfig(),
+        progressCallback,
+        fallback: async () => {
+          const [img, backgroundImage] = await Promise.all([
+            loadImageElement(imageUrl),
+            hasBackgroundImage ? loadImageElement(bgOptions.image || "") : undefined,
+          ])
+          return canvasToDataURL(await replaceBackgroundFromImage(img, bgOptions, options, backgroundImage))
+        },
+      },
+    )
   } catch (error) {
     console.error("Error replacing background:", error)
-    throw new Error("Failed to replace background")
+    throw toAppError(error, "Failed to replace background")
   }
 }
 
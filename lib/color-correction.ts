@@ -0,0 +1,174 @@
+// How the neutral point is estimated for white balance
+export type WhiteBalanceMethod = "none" | "gray-world" | "white-patch"
+
+export interface ColorCorrectionOptions {
+  whiteBalance: WhiteBalanceMethod
+  exposure: boolean // Normalize exposure and stretch levels from the luminance histogram
+  autoContrast: boolean // Boost flat, low-contrast images
+  clipPercent?: number // Share of darkest/brightest pixels clipped when setting levels
+}
+
+export const defaultColorCorrection: ColorCorrectionOptions = {
+  whiteBalance: "gray-world",
+  exposure: true,
+  autoContrast: false,
+  clipPercent: 0.5,
+}
+
+// Per-channel lookup tables computed from the image statistics
+export interface ColorCorrection {
+  gains: [number, number, number]
+  blackPoint: number
+  whitePoint: number
+  gamma: number
+  contrast: number
+  luts: [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray]
+}
+
+// Mid-gray that normalized exposure aims for (0-1)
+const TARGET_MEAN_LUMINANCE = 0.46
+// Luminance standard deviation that auto-contrast aims for (0-1)
+const TARGET_CONTRAST = 0.2
+// Transparent pixels (e.g. after background removal) don't count towards the statistics
+const MIN_ALPHA = 128
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Channel gains that make the estimated neutral color gray
+function getWhiteBalanceGains(imageData: ImageData, method: WhiteBalanceMethod): [number, number, number] {
+  if (method === "none") return [1, 1, 1]
+
+  const { data } = imageData
+  const sums = [0, 0, 0]
+  let count = 0
+
+  if (method === "gray-world") {
+    // The average color of a scene is assumed to be gray
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < MIN_ALPHA) continue
+      sums[0] += data[i]
+      sums[1] += data[i + 1]
+      sums[2] += data[i + 2]
+      count++
+    }
+  } else {
+    // The brightest 1% of pixels are assumed to be a white surface
+    const histogram = new Uint32Array(256)
+    let total = 0
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < MIN_ALPHA) continue
+      histogram[Math.round(luminance(data[i], data[i + 1], data[i + 2]))]++
+      total++
+    }
+
+    let threshold = 255
+    for (let seen = 0; threshold > 0 && seen < total * 0.01; threshold--) {
+      seen += histogram[threshold]
+    }
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < MIN_ALPHA || luminance(data[i], data[i + 1], data[i + 2]) < threshold) continue
+      sums[0] += data[i]
+      sums[1] += data[i + 1]
+      sums[2] += data[i + 2]
+      count++
+    }
+  }
+
+  if (count === 0) return [1, 1, 1]
+
+  const means = sums.map((sum) => sum / count)
+  const gray = (means[0] + means[1] + means[2]) / 3
+  // Strong casts are only partly corrected so saturated products don't turn gray
+  return means.map((mean) => (mean > 0 ? clamp(gray / mean, 0.6, 1.6) : 1)) as [number, number, number]
+}
+
+// Analyze an image and build the lookup tables that correct it
+export function computeColorCorrection(imageData: ImageData, options: ColorCorrectionOptions): ColorCorrection {
+  const { data } = imageData
+  const gains = getWhiteBalanceGains(imageData, options.whiteBalance)
+  const clipPercent = options.clipPercent ?? 0.5
+
+  // Luminance histogram after white balance
+  const histogram = new Uint32Array(256)
+  let total = 0
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < MIN_ALPHA) continue
+    const value = luminance(
+      Math.min(255, data[i] * gains[0]),
+      Math.min(255, data[i + 1] * gains[1]),
+      Math.min(255, data[i + 2] * gains[2]),
+    )
+    histogram[Math.round(value)]++
+    total++
+  }
+
+  let blackPoint = 0
+  let whitePoint = 255
+  let gamma = 1
+  let contrast = 1
+
+  if (total > 0 && options.exposure) {
+    // Levels: clip a small share of pixels at each end
+    const clipCount = (total * clipPercent) / 100
+    for (let seen = 0; blackPoint < 254 && seen + histogram[blackPoint] <= clipCount; blackPoint++) {
+      seen += histogram[blackPoint]
+    }
+    for (let seen = 0; whitePoint > blackPoint + 1 && seen + histogram[whitePoint] <= clipCount; whitePoint--) {
+      seen += histogram[whitePoint]
+    }
+
+    // Exposure: a gamma that moves the mean luminance (after levels) to mid-gray
+    let sum = 0
+    for (let value = 0; value < 256; value++) {
+      sum += histogram[value] * clamp((value - blackPoint) / (whitePoint - blackPoint), 0, 1)
+    }
+    const mean = sum / total
+    if (mean > 0.01 && mean < 0.99) {
+      gamma = clamp(Math.log(TARGET_MEAN_LUMINANCE) / Math.log(mean), 0.5, 2)
+    }
+  }
+
+  if (total > 0 && options.autoContrast) {
+    // Scale around mid-gray until the spread reaches the target; never reduce contrast
+    let sum = 0
+    let sumSquares = 0
+    for (let value = 0; value < 256; value++) {
+      const level = Math.pow(clamp((value - blackPoint) / (whitePoint - blackPoint), 0, 1), gamma)
+      sum += histogram[value] * level
+      sumSquares += histogram[value] * level * level
+    }
+    const mean = sum / total
+    const deviation = Math.sqrt(Math.max(0, sumSquares / total - mean * mean))
+    contrast = deviation > 0 ? clamp(TARGET_CONTRAST / deviation, 1, 1.6) : 1
+  }
+
+  const luts = gains.map((gain) => {
+    const lut = new Uint8ClampedArray(256)
+    for (let value = 0; value < 256; value++) {
+      let level = clamp((Math.min(255, value * gain) - blackPoint) / (whitePoint - blackPoint), 0, 1)
+      level = Math.pow(level, gamma)
+      level = 0.5 + (level - 0.5) * contrast
+      lut[value] = Math.round(level * 255)
+    }
+    return lut
+  }) as ColorCorrection["luts"]
+
+  return { gains, blackPoint, whitePoint, gamma, contrast, luts }
+}
+
+// Apply a computed correction to a copy of the pixels; alpha is left untouched
+export function applyColorCorrection(imageData: ImageData, correction: ColorCorrection): ImageData {
+  const result = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height)
+  const { data } = result
+  const [red, green, blue] = correction.luts
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]]
+    data[i + 1] = green[data[i + 1]]
+    data[i + 2] = blue[data[i + 2]]
+  }
+
+  return result
+}
@@ -0,0 +1,207 @@
+// Error categories surfaced to the UI
+export type AppErrorType =
+  | "auth"
+  | "rate-limit"
+  | "quota"
+  | "network"
+  | "invalid-input"
+  | "model-load"
+  | "canvas"
+  | "provider"
+  | "unknown"
+
+// Base class for typed errors; keeps the underlying error as `cause`
+export class AppError extends Error {
+  readonly type: AppErrorType
+  readonly cause?: unknown
+  readonly status?: number
+
+  constructor(type: AppErrorType, message: string, options: { cause?: unknown; status?: number } = {}) {
+    super(message)
+    this.name = "AppError"
+    this.type = type
+    this.cause = options.cause
+    this.status = options.status
+  }
+}
+
+// Missing, invalid or expired credentials
+export class AuthError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("auth", message, options)
+    this.name = "AuthError"
+  }
+}
+
+// Too many requests; retrying later should succeed
+export class RateLimitError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("rate-limit", message, { status: 429, ...options })
+    this.name = "RateLimitError"
+  }
+}
+
+// Usage or billing limit reached; retrying won't help until the quota resets
+export class QuotaError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("quota", message, options)
+    this.name = "QuotaError"
+  }
+}
+
+// The request never reached the server or the connection dropped
+export class NetworkError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("network", message, options)
+    this.name = "NetworkError"
+  }
+}
+
+// Bad parameters, unsupported files or unknown models
+export class InvalidInputError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("invalid-input", message, options)
+    this.name = "InvalidInputError"
+  }
+}
+
+// A TensorFlow.js model failed to download or initialize
+export class ModelLoadError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("model-load", message, options)
+    this.name = "ModelLoadError"
+  }
+}
+
+// Canvas unavailable, image failed to decode, or the canvas was tainted by a cross-origin image
+export class CanvasError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("canvas", message, options)
+    this.name = "CanvasError"
+  }
+}
+
+// The generation provider failed for a reason not covered above
+export class ProviderError extends AppError {
+  constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+    super("provider", message, options)
+    this.name = "ProviderError"
+  }
+}
+
+// Map an HTTP status to an error category
+export function getErrorTypeForStatus(status: number): AppErrorType {
+  if (status === 401 || status === 403) return "auth"
+  if (status === 402) return "quota"
+  if (status === 429) return "rate-limit"
+  if (status === 400 || status === 404 || status === 413 || status === 422) return "invalid-input"
+  return "provider"
+}
+
+// Build a typed error for a category
+export function createAppError(
+  type: AppErrorType,
+  message: string,
+  options: { cause?: unknown; status?: number } = {},
+): AppError {
+  switch (type) {
+    case "auth":
+      return new AuthError(message, options)
+    case "rate-limit":
+      return new RateLimitError(message, options)
+    case "quota":
+      return new QuotaError(message, options)
+    case "network":
+      return new NetworkError(message, options)
+    case "invalid-input":
+      return new InvalidInputError(message, options)
+    case "model-load":
+      return new ModelLoadError(message, options)
+    case "canvas":
+      return new CanvasError(message, options)
+    case "provider":
+      return new ProviderError(message, options)
+    default:
+      return new AppError("unknown", message, options)
+  }
+}
+
+// Wrap any thrown value in a typed error. Typed errors pass through unchanged so the
+// most specific category and message win; everything else is classified where possible.
+export function toAppError(error: unknown, message: string): AppError {
+  if (error instanceof AppError) return error
+
+  const detail = error instanceof Error ? error.message : String(error)
+
+  // getImageData/toDataURL on a canvas holding a cross-origin image
+  if (error instanceof Error && error.name === "SecurityError") {
+    return new CanvasError(`${message}: the image is cross-origin and the canvas can't be read (CORS)`, {
+      cause: error,
+    })
+  }
+
+  // fetch rejects with a TypeError when the request can't be made at all
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(detail)) {
+    return new NetworkError(`${message}: network request failed`, { cause: error })
+  }
+
+  // An image element's error event, usually a broken URL or a blocked cross-origin load
+  if (typeof Event !== "undefined" && error instanceof Event) {
+    return new CanvasError(`${message}: the image could not be loaded (broken URL or blocked by CORS)`, {
+      cause: error,
+    })
+  }
+
+  return new AppError("unknown", `${message}: ${detail}`, { cause: error })
+}
+
+// User-facing toast content for each category
+const errorGuidance: Record<AppErrorType, { title: string; action: string }> = {
+  auth: {
+    title: "Access denied",
+    action: "Check your access token in Settings, or ask an administrator to verify the provider credentials.",
+  },
+  "rate-limit": {
+    title: "Too many requests",
+    action: "The provider is throttling requests. Wait a minute and try again, or generate fewer candidates at once.",
+  },
+  quota: {
+    title: "Quota exceeded",
+    action: "The provider's usage limit has been reached. Switch to another model or try again after the quota resets.",
+  },
+  network: {
+    title: "Network error",
+    action: "Check your internet connection and try again.",
+  },
+  "invalid-input": {
+    title: "Invalid input",
+    action: "Check the uploaded image and settings, then try again.",
+  },
+  "model-load": {
+    title: "Model failed to load",
+    action: "Refresh the page, or pick a lighter segmentation model in Model Tuning.",
+  },
+  canvas: {
+    title: "Image could not be processed",
+    action: "Upload the image file directly instead of linking it from another site, then try again.",
+  },
+  provider: {
+    title: "Generation service error",
+    action: "The image provider returned an error. Try again, or switch to a different model.",
+  },
+  unknown: {
+    title: "Something went wrong",
+    action: "Try again. If the problem persists, include the error code when reporting it.",
+  },
+}
+
+// Toast title/description for an error, including the category code for support tickets
+export function getErrorToast(error: unknown, fallbackTitle: string): { title: string; description: string } {
+  const appError = toAppError(error, fallbackTitle)
+  const guidance = errorGuidance[appError.type]
+
+  return {
+    title: appError.type === "unknown" ? fallbackTitle : guidance.title,
+    description: `${appError.message.replace(/\.$/, "")}. ${guidance.action} (Error code: ${appError.type})`,
+  }
+}
@@ -0,0 +1,312 @@
+import {
+  canvasToDataURL,
+  createCanvas,
+  getCanvasContext,
+  getPerformanceConfig,
+  loadImageBitmap,
+  loadImageElement,
+  removeBackgroundFromImage,
+  segment,
+} from "./image-processing"
+import type { CanvasLike, SegmentationModel, SegmentationSource } from "./image-processing"
+import { toAppError } from "./errors"
+import type { Mask, MaskBoundingBox } from "./mask"
+import { runFramingTask } from "./segmentation-worker-client"
+
+// Rules a marketplace puts on how the product sits in the frame
+export interface FramingProfile {
+  id: string
+  name: string
+  description: string
+  aspectRatio: number // Width / height
+  fill?: number // Share of the frame the subject fills along its limiting side; otherwise as large as the margin allows
+  margin: number // Minimum space between subject and frame edge, as a share of the frame
+  background: string // Canvas color, also used where the canvas is extended
+  replaceBackground: boolean // Paint everything outside the subject with `background`
+  anchor: "bbox" | "center-of-mass" // What is centered in the frame
+  minSize?: number // Minimum long edge of the result in px
+}
+
+export const framingProfiles: FramingProfile[] = [
+  {
+    id: "marketplace-main",
+    name: "Marketplace Main (1:1)",
+    description: "Product fills 85% of the frame on pure white",
+    aspectRatio: 1,
+    fill: 0.85,
+    margin: 0.02,
+    background: "#FFFFFF",
+    replaceBackground: true,
+    anchor: "bbox",
+    minSize: 1000,
+  },
+  {
+    id: "portrait-4-5",
+    name: "Portrait (4:5)",
+    description: "Centered with a 5% margin",
+    aspectRatio: 4 / 5,
+    margin: 0.05,
+    background: "#FFFFFF",
+    replaceBackground: false,
+    anchor: "center-of-mass",
+  },
+  {
+    id: "gallery-4-3",
+    name: "Gallery (4:3)",
+    description: "Centered with a 10% margin, for secondary listing images",
+    aspectRatio: 4 / 3,
+    margin: 0.1,
+    background: "#FFFFFF",
+    replaceBackground: false,
+    anchor: "center-of-mass",
+  },
+  {
+    id: "social-story",
+    name: "Social Story (9:16)",
+    description: "Product fills 60% of a tall frame on pure white",
+    aspectRatio: 9 / 16,
+    fill: 0.6,
+    margin: 0.05,
+    background: "#FFFFFF",
+    replaceBackground: true,
+    anchor: "center-of-mass",
+    minSize: 1080,
+  },
+]
+
+export function getFramingProfile(id: string): FramingProfile | undefined {
+  return framingProfiles.find((profile) => profile.id === id)
+}
+
+export type FramingViolationCode =
+  | "no-subject"
+  | "subject-cut-off"
+  | "canvas-extended"
+  | "background-mismatch"
+  | "low-resolution"
+
+export interface FramingViolation {
+  code: FramingViolationCode
+  severity: "error" | "warning"
+  message: string
+}
+
+// What framing did and which rules the result breaks
+export interface FramingReport {
+  profileId: string
+  frame: MaskBoundingBox // In source pixels; may reach past the image where the canvas was extended
+  subjectFill: number // Share of the frame the subject fills along its limiting side
+  violations: FramingViolation[]
+}
+
+export interface FramedImage {
+  imageUrl: string
+  report: FramingReport
+}
+
+export interface FrameImageOptions {
+  modelType?: SegmentationModel
+  threshold?: number
+  mask?: Mask // Hand-edited mask to use instead of running segmentation
+  progressCallback?: (progress: number, message: string) => void
+}
+
+// Difference between two colors beyond which a background counts as a different color
+const BACKGROUND_TOLERANCE = 24
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16) || 0
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Alpha-weighted centroid of the mask
+function getCenterOfMass(mask: Mask): { x: number; y: number } | null {
+  let sumX = 0
+  let sumY = 0
+  let total = 0
+
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      const alpha = mask.data[y * mask.width + x]
+      sumX += x * alpha
+      sumY += y * alpha
+      total += alpha
+    }
+  }
+
+  return total > 0 ? { x: sumX / total, y: sumY / total } : null
+}
+
+// Average color of the pixels the mask marks as background
+function getBackgroundColor(imageData: ImageData, mask: Mask): [number, number, number] | null {
+  const sums = [0, 0, 0]
+  let count = 0
+
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] > 0.1) continue
+    sums[0] += imageData.data[i * 4]
+    sums[1] += imageData.data[i * 4 + 1]
+    sums[2] += imageData.data[i * 4 + 2]
+    count++
+  }
+
+  return count > 0 ? [sums[0] / count, sums[1] / count, sums[2] / count] : null
+}
+
+// Frame on an already decoded image; runs unchanged on the main thread or in the worker
+export async function frameFromImage(
+  img: SegmentationSource,
+  profile: FramingProfile,
+  options: FrameImageOptions = {},
+): Promise<{ canvas: CanvasLike; report: FramingReport }> {
+  const { modelType = "bodypix", threshold = 0.7, progressCallback } = options
+  const width = img.width
+  const height = img.height
+  const violations: FramingViolation[] = []
+
+  const editedMask = options.mask && options.mask.width === width && options.mask.height === height ? options.mask : null
+  const mask =
+    editedMask ||
+    (await segment(img, modelType, {
+      threshold,
+      progressCallback: (progress, message) => progressCallback?.(progress * 0.6, message),
+    }))
+
+  progressCallback?.(0.7, "Computing frame...")
+  let box = mask.getBoundingBox()
+  if (!box) {
+    violations.push({ code: "no-subject", severity: "error", message: "No product was found, so the whole photo was framed" })
+    box = { x: 0, y: 0, width, height }
+  } else {
+    const touchedEdges = [
+      box.x <= 0 && "left",
+      box.y <= 0 && "top",
+      box.x + box.width >= width && "right",
+      box.y + box.height >= height && "bottom",
+    ].filter(Boolean)
+    if (touchedEdges.length > 0) {
+      violations.push({
+        code: "subject-cut-off",
+        severity: "warning",
+        message: `The product touches the ${touchedEdges.join(", ")} edge of the photo and may be cut off`,
+      })
+    }
+  }
+
+  // Frame size: the subject's limiting side fills the usable share of the frame
+  const usable = Math.min(profile.fill ?? 1, 1 - 2 * profile.margin)
+  const frameWidth = Math.round(Math.max(box.width, box.height * profile.aspectRatio) / usable)
+  const frameHeight = Math.round(frameWidth / profile.aspectRatio)
+
+  // Center on the anchor, but never closer to the subject than the margin
+  const center =
+    (profile.anchor === "center-of-mass" && getCenterOfMass(mask)) || {
+      x: box.x + box.width / 2,
+      y: box.y + box.height / 2,
+    }
+  const marginX = frameWidth * profile.margin
+  const marginY = frameHeight * profile.margin
+  const frameX = Math.round(
+    clamp(center.x - frameWidth / 2, box.x + box.width + marginX - frameWidth, box.x - marginX),
+  )
+  const frameY = Math.round(
+    clamp(center.y - frameHeight / 2, box.y + box.height + marginY - frameHeight, box.y - marginY),
+  )
+
+  const extendedSides = [
+    frameX < 0 && "left",
+    frameY < 0 && "top",
+    frameX + frameWidth > width && "right",
+    frameY + frameHeight > height && "bottom",
+  ].filter(Boolean)
+
+  if (extendedSides.length > 0) {
+    violations.push({
+      code: "canvas-extended",
+      severity: "warning",
+      message: `The product was too close to the ${extendedSides.join(", ")} edge, so the canvas was extended with background`,
+    })
+  }
+
+  if (profile.minSize && Math.max(frameWidth, frameHeight) < profile.minSize) {
+    violations.push({
+      code: "low-resolution",
+      severity: "error",
+      message: `The framed image is ${frameWidth}×${frameHeight}px; ${profile.name} needs at least ${profile.minSize}px on the long edge`,
+    })
+  }
+
+  progressCallback?.(0.8, "Composing frame...")
+  const canvas = createCanvas(frameWidth, frameHeight)
+  const ctx = getCanvasContext(canvas)
+  ctx.fillStyle = profile.background
+  ctx.fillRect(0, 0, frameWidth, frameHeight)
+
+  if (profile.replaceBackground) {
+    const cutout = await removeBackgroundFromImage(img, {
+      modelType,
+      threshold,
+      mask: editedMask || undefined,
+      backgroundColor: { r: 0, g: 0, b: 0, a: 0 },
+    })
+    ctx.drawImage(cutout, -frameX, -frameY)
+  } else {
+    ctx.drawImage(img, -frameX, -frameY)
+
+    // Extended areas only blend in when the photo's background already matches the profile's
+    if (extendedSides.length > 0) {
+      const source = createCanvas(width, height)
+      const sourceCtx = getCanvasContext(source)
+      sourceCtx.drawImage(img, 0, 0)
+      const photoBackground = getBackgroundColor(sourceCtx.getImageData(0, 0, width, height), mask)
+      const target = parseHexColor(profile.background)
+
+      if (photoBackground && photoBackground.some((value, c) => Math.abs(value - target[c]) > BACKGROUND_TOLERANCE)) {
+        violations.push({
+          code: "background-mismatch",
+          severity: "warning",
+          message: `The photo's background doesn't match ${profile.background}, so the extended canvas will show a seam`,
+        })
+      }
+    }
+  }
+
+  progressCallback?.(1.0, "Framing complete")
+  return {
+    canvas,
+    report: {
+      profileId: profile.id,
+      frame: { x: frameX, y: frameY, width: frameWidth, height: frameHeight },
+      subjectFill: Math.max(box.width / frameWidth, box.height / frameHeight),
+      violations,
+    },
+  }
+}
+
+// Frame the product by a marketplace profile, in the worker when available
+export async function frameImage(
+  imageUrl: string,
+  profile: FramingProfile,
+  options: FrameImageOptions = {},
+): Promise<FramedImage> {
+  const { progressCallback, ...taskOptions } = options
+
+  try {
+    return await runFramingTask(
+      async () => ({ type: "frame", image: await loadImageBitmap(imageUrl), profile, options: taskOptions }),
+      {
+        performanceConfig: getPerformanceConfig(),
+        progressCallback,
+        fallback: async () => {
+          const { canvas, report } = await frameFromImage(await loadImageElement(imageUrl), profile, options)
+          return { imageUrl: await canvasToDataURL(canvas), report }
+        },
+      },
+    )
+  } catch (error) {
+    console.error("Error framing image:", error)
+    throw toAppError(error, "Failed to frame image")
+  }
+}
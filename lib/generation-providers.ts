@@ -0,0 +1,645 @@
+import { AppError, getErrorTypeForStatus, InvalidInputError, NetworkError, ProviderError } from "./errors"
+import { renderMockImage } from "./mock-renderer"
+import type { SizeConstraints } from "./output-size"
+import type { GenerateImageParams, GenerationMode } from "./types"
+
+// Capability flags advertised by each generation backend
+export interface ProviderCapabilities {
+  textToImage: boolean
+  imageToImage: boolean
+  inpainting: boolean
+  negativePrompt: boolean
+  requiresApiKey: boolean
+  seed: boolean
+  steps: boolean
+  guidanceScale: boolean
+  schedulers: string[] // Selectable schedulers/samplers; empty when the backend picks its own
+  sizeConstraints: SizeConstraints
+}
+
+// Runtime configuration for a provider (base URL, credentials, polling)
+export interface ProviderConfig {
+  baseUrl: string
+  apiKey?: string | null
+  pollIntervalMs?: number
+  timeoutMs?: number
+}
+
+// A model exposed by a provider in the model picker
+export interface ProviderModel {
+  id: string
+  name: string
+  description: string
+  endpoint: string
+}
+
+// Sampling controls for reproducible generation
+export interface SamplingParams {
+  seed?: number
+  steps?: number
+  guidanceScale?: number
+  scheduler?: string
+}
+
+// Defaults used when a provider supports a control but none was chosen
+export const DEFAULT_SAMPLING = {
+  steps: 30,
+  guidanceScale: 7.5,
+}
+
+// Normalized request passed to every provider adapter
+export interface ProviderRequest extends SamplingParams {
+  model: ProviderModel
+  prompt: string
+  negativePrompt: string
+  width: number
+  height: number
+  mode: GenerationMode
+  initImage?: string // PNG data URL for img2img / inpainting
+  maskImage?: string // PNG data URL, white = regenerate
+  strength?: number
+  params?: GenerateImageParams
+  productImage?: string // Processed product image, for providers that composite it locally
+  signal?: AbortSignal
+}
+
+// HTTP request produced by an adapter's request builder
+export interface ProviderHttpRequest {
+  url: string
+  init: RequestInit
+}
+
+// Adapter interface implemented by each generation backend.
+// Network adapters run inside the /api/generate route so credentials stay on the server.
+export interface GenerationProvider {
+  id: string
+  name: string
+  description: string
+  capabilities: ProviderCapabilities
+  defaultConfig: ProviderConfig
+  models: ProviderModel[]
+  buildRequest: (request: ProviderRequest, config: ProviderConfig) => ProviderHttpRequest
+  parseResponse: (response: Response, config: ProviderConfig, request: ProviderRequest) => Promise<string>
+  // Optional async step before building the request (e.g. uploading input images)
+  prepareRequest?: (request: ProviderRequest, config: ProviderConfig) => Promise<ProviderRequest>
+  // Providers that run entirely in the browser (e.g. the mock) skip the HTTP round trip
+  generateLocally?: (request: ProviderRequest, config: ProviderConfig) => Promise<string>
+  resolveApiKey?: () => string | null
+}
+
+// Model listing entry used by the model picker dialog
+export interface GenerationModelOption extends ProviderModel {
+  providerId: string
+  providerName: string
+  capabilities: ProviderCapabilities
+}
+
+// Error raised when a provider responds with a non-2xx status, categorized by that status
+export class ProviderHttpError extends AppError {
+  declare readonly status: number
+
+  constructor(message: string, status: number) {
+    super(getErrorTypeForStatus(status), message, { status })
+    this.name = "ProviderHttpError"
+  }
+}
+
+// Registered providers and per-provider config overrides
+const providers = new Map<string, GenerationProvider>()
+const configOverrides = new Map<string, Partial<ProviderConfig>>()
+
+// Register a generation provider (replaces any provider with the same ID)
+export function registerProvider(provider: GenerationProvider): void {
+  providers.set(provider.id, provider)
+}
+
+// Remove a registered provider
+export function unregisterProvider(providerId: string): void {
+  providers.delete(providerId)
+  configOverrides.delete(providerId)
+}
+
+// Get a provider by ID
+export function getProvider(providerId: string): GenerationProvider | undefined {
+  return providers.get(providerId)
+}
+
+// Get all registered providers
+export function getProviders(): GenerationProvider[] {
+  return Array.from(providers.values())
+}
+
+// Override part of a provider's configuration (e.g. point it at a different server)
+export function configureProvider(providerId: string, config: Partial<ProviderConfig>): void {
+  configOverrides.set(providerId, { ...configOverrides.get(providerId), ...config })
+}
+
+// Get the effective configuration for a provider
+export function getProviderConfig(provider: GenerationProvider): ProviderConfig {
+  const config: ProviderConfig = { ...provider.defaultConfig, ...configOverrides.get(provider.id) }
+
+  if (!config.apiKey && provider.resolveApiKey) {
+    config.apiKey = provider.resolveApiKey()
+  }
+
+  return config
+}
+
+// List every model from every registered provider
+export function listGenerationModels(): GenerationModelOption[] {
+  return getProviders().flatMap((provider) =>
+    provider.models.map((model) => ({
+      ...model,
+      providerId: provider.id,
+      providerName: provider.name,
+      capabilities: provider.capabilities,
+    })),
+  )
+}
+
+// Find the provider and model for a model ID
+export function resolveGenerationModel(
+  modelId: string,
+): { provider: GenerationProvider; model: ProviderModel } | undefined {
+  for (const provider of providers.values()) {
+    const model = provider.models.find((m) => m.id === modelId)
+    if (model) {
+      return { provider, model }
+    }
+  }
+
+  return undefined
+}
+
+// Create a random 32-bit seed
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32)
+}
+
+// Keep only the sampling controls a provider supports, filling defaults for supported ones
+export function resolveSamplingParams(provider: GenerationProvider, requested: SamplingParams): SamplingParams {
+  const { capabilities } = provider
+
+  return {
+    seed: capabilities.seed ? (requested.seed ?? createRandomSeed()) : undefined,
+    steps: capabilities.steps ? (requested.steps ?? DEFAULT_SAMPLING.steps) : undefined,
+    guidanceScale: capabilities.guidanceScale ? (requested.guidanceScale ?? DEFAULT_SAMPLING.guidanceScale) : undefined,
+    scheduler:
+      requested.scheduler && capabilities.schedulers.includes(requested.scheduler)
+        ? requested.scheduler
+        : capabilities.schedulers[0],
+  }
+}
+
+// Pick the closest generation mode a provider supports: inpainting falls back to
+// img2img (dropping the mask), and img2img falls back to text-only
+export function resolveGenerationMode(provider: GenerationProvider, requested: GenerationMode): GenerationMode {
+  const { capabilities } = provider
+
+  if (requested === "inpainting" && capabilities.inpainting) return "inpainting"
+  if (requested !== "text" && capabilities.imageToImage) return "image-to-image"
+  return "text"
+}
+
+// Run a request through a provider's request builder and response parser
+export async function runProvider(provider: GenerationProvider, request: ProviderRequest): Promise<string> {
+  const config = getProviderConfig(provider)
+
+  if (provider.generateLocally) {
+    return provider.generateLocally(request, config)
+  }
+
+  const preparedRequest = provider.prepareRequest ? await provider.prepareRequest(request, config) : request
+  const { url, init } = provider.buildRequest(preparedRequest, config)
+  const response = await fetch(url, { ...init, signal: request.signal })
+
+  if (!response.ok) {
+    let errorMessage = `${provider.name} error`
+    try {
+      const errorData = await response.json()
+      errorMessage = `${provider.name} error: ${errorData.error || errorData.detail || JSON.stringify(errorData)}`
+    } catch {
+      errorMessage = `${provider.name} error: ${response.status} ${response.statusText}`
+    }
+    throw new ProviderHttpError(errorMessage, response.status)
+  }
+
+  return provider.parseResponse(response, config, preparedRequest)
+}
+
+// Split a data URL into its MIME type and base64 payload
+function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(dataUrl)
+  if (!match) {
+    throw new InvalidInputError("Expected a base64 data URL for the input image")
+  }
+
+  return { mimeType: match[1], base64: match[2] }
+}
+
+// Helper to wait between polling attempts
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Build the placeholder URL used where no canvas is available (e.g. on the server)
+export function createMockImageUrl(params: GenerateImageParams | undefined, width: number, height: number, errorMessage?: string): string {
+  let placeholderQuery = params?.customPrompt || "model wearing clothes"
+
+  if (params && !params.customPrompt) {
+    const { modelSettings, backgroundType } = params
+    const bodyType = modelSettings.bodyType < 33 ? "petite" : modelSettings.bodyType < 66 ? "average" : "plus-size"
+    placeholderQuery = `${modelSettings.gender} ${bodyType} model wearing clothes on ${backgroundType} background`
+  }
+
+  if (errorMessage) {
+    placeholderQuery = `Error: ${errorMessage} - ${placeholderQuery}`
+  }
+
+  return `/placeholder.svg?height=${height}&width=${width}&query=${encodeURIComponent(placeholderQuery)}`
+}
+
+// Hugging Face Inference API
+export const huggingFaceProvider: GenerationProvider = {
+  id: "huggingface",
+  name: "Hugging Face Inference",
+  description: "Hosted open-source models on the Hugging Face Inference API",
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    inpainting: false,
+    negativePrompt: true,
+    requiresApiKey: true,
+    seed: true,
+    steps: true,
+    guidanceScale: true,
+    schedulers: [
+      "DPMSolverMultistepScheduler",
+      "EulerDiscreteScheduler",
+      "EulerAncestralDiscreteScheduler",
+      "DDIMScheduler",
+      "PNDMScheduler",
+    ],
+    sizeConstraints: { multipleOf: 8, minSide: 256, maxSide: 1536, maxPixels: 1536 * 1024 },
+  },
+  defaultConfig: {
+    baseUrl: "https://api-inference.huggingface.co/models",
+  },
+  models: [
+    {
+      id: "hf-stable-diffusion-xl",
+      name: "Stable Diffusion XL (HF)",
+      description: "SDXL base 1.0 on the Hugging Face Inference API",
+      endpoint: "stabilityai/stable-diffusion-xl-base-1.0",
+    },
+    {
+      id: "hf-stable-diffusion",
+      name: "Stable Diffusion 1.5 (HF)",
+      description: "Stable Diffusion 1.5 on the Hugging Face Inference API",
+      endpoint: "runwayml/stable-diffusion-v1-5",
+    },
+  ],
+  buildRequest(request, config) {
+    // Image-to-image takes the base64 image as inputs and the prompt as a parameter
+    const body =
+      request.mode === "image-to-image" && request.initImage
+        ? {
+            inputs: parseDataUrl(request.initImage).base64,
+            parameters: {
+              prompt: request.prompt,
+              negative_prompt: request.negativePrompt,
+              strength: request.strength,
+              seed: request.seed,
+              num_inference_steps: request.steps,
+              guidance_scale: request.guidanceScale,
+              scheduler: request.scheduler,
+            },
+          }
+        : {
+            inputs: request.prompt,
+            parameters: {
+              width: request.width,
+              height: request.height,
+              negative_prompt: request.negativePrompt,
+              seed: request.seed,
+              num_inference_steps: request.steps,
+              guidance_scale: request.guidanceScale,
+              scheduler: request.scheduler,
+            },
+          }
+
+    return {
+      url: `${config.baseUrl}/${request.model.endpoint}`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify(body),
+      },
+    }
+  },
+  async parseResponse(response) {
+    // The response is the image bytes; return them inline so the browser can use them
+    const contentType = response.headers.get("content-type") || "image/png"
+    const buffer = Buffer.from(await response.arrayBuffer())
+    return `data:${contentType};base64,${buffer.toString("base64")}`
+  },
+  resolveApiKey() {
+    // Server-only variable: never exposed to the browser bundle
+    return process.env.HUGGINGFACE_API_KEY || null
+  },
+}
+
+// Our local FastAPI fashion generation service
+export const localFashionProvider: GenerationProvider = {
+  id: "local-fashion",
+  name: "Local Fashion Service",
+  description: "Self-hosted FastAPI service exposing /fashion/generate_new",
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    negativePrompt: false,
+    requiresApiKey: false,
+    seed: false,
+    steps: false,
+    guidanceScale: false,
+    schedulers: [],
+    sizeConstraints: { multipleOf: 64, minSide: 256, maxSide: 1024, maxPixels: 1024 * 1024 },
+  },
+  defaultConfig: {
+    baseUrl: process.env.FASHION_API_URL || "http://localhost:8000",
+  },
+  models: [
+    {
+      id: "stable-diffusion-xl",
+      name: "Stable Diffusion XL",
+      description: "High quality general-purpose image generation",
+      endpoint: "Stable Diffusion XL",
+    },
+    {
+      id: "stable-diffusion",
+      name: "Stable Diffusion 1.5",
+      description: "Faster generation with good quality",
+      endpoint: "runwayml/stable-diffusion-v1-5",
+    },
+    {
+      id: "pixart-alpha",
+      name: "PixArt-Alpha",
+      description: "Specialized for artistic and detailed images",
+      endpoint: "PixArt-alpha/PixArt-XL-2-1024-MS",
+    },
+    {
+      id: "kandinsky",
+      name: "Kandinsky",
+      description: "Russian model with unique artistic style",
+      endpoint: "kandinsky-community/kandinsky-2-2-decoder",
+    },
+  ],
+  buildRequest(request, config) {
+    const formData = new FormData()
+    formData.append("prompt", request.prompt)
+    formData.append("model_choice", request.model.endpoint)
+
+    return {
+      url: `${config.baseUrl}/fashion/generate_new`,
+      init: {
+        method: "POST",
+        body: formData, // no need to set headers manually
+      },
+    }
+  },
+  async parseResponse(response) {
+    const data = await response.json()
+    if (!data.result) {
+      throw new ProviderError("Image URL not found in response")
+    }
+
+    return data.result // hosted image URL
+  },
+}
+
+// Minimal workflow in ComfyUI's API format. Text mode starts from an empty latent;
+// img2img encodes the uploaded product image, and inpainting adds a latent noise mask.
+function createComfyWorkflow(request: ProviderRequest): Record<string, unknown> {
+  const workflow: Record<string, unknown> = {
+    "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: request.model.endpoint } },
+    "5": { class_type: "EmptyLatentImage", inputs: { width: request.width, height: request.height, batch_size: 1 } },
+    "6": { class_type: "CLIPTextEncode", inputs: { text: request.prompt, clip: ["4", 1] } },
+    "7": { class_type: "CLIPTextEncode", inputs: { text: request.negativePrompt, clip: ["4", 1] } },
+    "8": { class_type: "VAEDecode", inputs: { samples: ["3", 0], vae: ["4", 2] } },
+    "9": { class_type: "SaveImage", inputs: { filename_prefix: "product", images: ["8", 0] } },
+  }
+
+  let latentImage: [string, number] = ["5", 0]
+  let denoise = 1
+
+  if (request.mode !== "text" && request.initImage) {
+    workflow["10"] = { class_type: "LoadImage", inputs: { image: request.initImage } }
+    workflow["11"] = { class_type: "VAEEncode", inputs: { pixels: ["10", 0], vae: ["4", 2] } }
+    latentImage = ["11", 0]
+    denoise = request.strength ?? 0.75
+
+    if (request.mode === "inpainting" && request.maskImage) {
+      workflow["12"] = { class_type: "LoadImage", inputs: { image: request.maskImage } }
+      workflow["13"] = { class_type: "ImageToMask", inputs: { image: ["12", 0], channel: "red" } }
+      workflow["14"] = { class_type: "SetLatentNoiseMask", inputs: { samples: ["11", 0], mask: ["13", 0] } }
+      latentImage = ["14", 0]
+    }
+  }
+
+  workflow["3"] = {
+    class_type: "KSampler",
+    inputs: {
+      seed: request.seed ?? createRandomSeed(),
+      steps: request.steps ?? DEFAULT_SAMPLING.steps,
+      cfg: request.guidanceScale ?? DEFAULT_SAMPLING.guidanceScale,
+      sampler_name: request.scheduler || "euler",
+      scheduler: "normal",
+      denoise,
+      model: ["4", 0],
+      positive: ["6", 0],
+      negative: ["7", 0],
+      latent_image: latentImage,
+    },
+  }
+
+  return workflow
+}
+
+// Upload a data URL image to a ComfyUI server and return its input filename
+async function uploadComfyImage(dataUrl: string, name: string, config: ProviderConfig): Promise<string> {
+  const { mimeType, base64 } = parseDataUrl(dataUrl)
+  const formData = new FormData()
+  formData.append("image", new Blob([Buffer.from(base64, "base64")], { type: mimeType }), name)
+  formData.append("overwrite", "true")
+
+  const response = await fetch(`${config.baseUrl}/upload/image`, { method: "POST", body: formData })
+  if (!response.ok) {
+    throw new ProviderHttpError(
+      `ComfyUI Server error: failed to upload ${name} (${response.status} ${response.statusText})`,
+      response.status,
+    )
+  }
+
+  const data: { name: string; subfolder?: string } = await response.json()
+  return data.subfolder ? `${data.subfolder}/${data.name}` : data.name
+}
+
+// Download an output image from the ComfyUI server and return it inline; the server is usually only
+// reachable from here, so its URL must not reach the browser
+async function fetchComfyImage(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new ProviderHttpError(
+      `ComfyUI Server error: failed to download the result (${response.status} ${response.statusText})`,
+      response.status,
+    )
+  }
+
+  const contentType = response.headers.get("content-type") || "image/png"
+  const buffer = Buffer.from(await response.arrayBuffer())
+  return `data:${contentType};base64,${buffer.toString("base64")}`
+}
+
+// ComfyUI-style server: queue a workflow, then poll /history for the output image
+export const comfyUIProvider: GenerationProvider = {
+  id: "comfyui",
+  name: "ComfyUI Server",
+  description: "ComfyUI-compatible server accepting API-format workflows",
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    inpainting: true,
+    negativePrompt: true,
+    requiresApiKey: false,
+    seed: true,
+    steps: true,
+    guidanceScale: true,
+    schedulers: ["euler", "euler_ancestral", "dpmpp_2m", "dpmpp_2m_sde", "ddim"],
+    sizeConstraints: { multipleOf: 8, minSide: 256, maxSide: 2048, maxPixels: 2048 * 2048 },
+  },
+  defaultConfig: {
+    baseUrl: process.env.COMFYUI_URL || "http://127.0.0.1:8188",
+    pollIntervalMs: 1000,
+    timeoutMs: 120000,
+  },
+  models: [
+    {
+      id: "comfyui-sdxl",
+      name: "SDXL (ComfyUI)",
+      description: "SDXL base checkpoint on a ComfyUI server",
+      endpoint: "sd_xl_base_1.0.safetensors",
+    },
+  ],
+  async prepareRequest(request, config) {
+    if (request.mode === "text" || !request.initImage) return request
+
+    const suffix = Date.now().toString(36)
+    return {
+      ...request,
+      initImage: await uploadComfyImage(request.initImage, `product-${suffix}.png`, config),
+      maskImage:
+        request.mode === "inpainting" && request.maskImage
+          ? await uploadComfyImage(request.maskImage, `mask-${suffix}.png`, config)
+          : undefined,
+    }
+  },
+  buildRequest(request, config) {
+    return {
+      url: `${config.baseUrl}/prompt`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt: createComfyWorkflow(request) }),
+      },
+    }
+  },
+  async parseResponse(response, config, request) {
+    const { prompt_id: promptId } = await response.json()
+    if (!promptId) {
+      throw new ProviderError("ComfyUI did not return a prompt ID")
+    }
+
+    const deadline = Date.now() + (config.timeoutMs || 120000)
+    while (Date.now() < deadline) {
+      await delay(config.pollIntervalMs || 1000)
+      request.signal?.throwIfAborted()
+
+      const historyResponse = await fetch(`${config.baseUrl}/history/${promptId}`, { signal: request.signal })
+      if (!historyResponse.ok) continue
+
+      const history = await historyResponse.json()
+      const outputs = history[promptId]?.outputs
+      if (!outputs) continue
+
+      for (const output of Object.values(outputs) as { images?: { filename: string; subfolder: string; type: string }[] }[]) {
+        const image = output.images?.[0]
+        if (image) {
+          const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder, type: image.type })
+          return fetchComfyImage(`${config.baseUrl}/view?${query.toString()}`, request.signal)
+        }
+      }
+    }
+
+    throw new NetworkError("Timed out waiting for ComfyUI to finish")
+  },
+}
+
+// Mock generator for testing without API calls
+export const mockProvider: GenerationProvider = {
+  id: "mock",
+  name: "Mock Generator",
+  description: "Works without any provider API key - perfect for testing",
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    negativePrompt: true,
+    requiresApiKey: false,
+    seed: true,
+    steps: false,
+    guidanceScale: false,
+    schedulers: [],
+    sizeConstraints: { multipleOf: 1, minSide: 64, maxSide: 4096, maxPixels: 4096 * 4096 },
+  },
+  defaultConfig: {
+    baseUrl: "",
+  },
+  models: [
+    {
+      id: "mock",
+      name: "Mock Generator",
+      description: "Works without any provider API key - perfect for testing",
+      endpoint: "mock",
+    },
+  ],
+  buildRequest() {
+    throw new Error("The mock generator does not make HTTP requests")
+  },
+  async parseResponse() {
+    throw new Error("The mock generator does not make HTTP requests")
+  },
+  async generateLocally(request) {
+    if (typeof document === "undefined") {
+      return createMockImageUrl(request.params, request.width, request.height)
+    }
+
+    return renderMockImage({
+      width: request.width,
+      height: request.height,
+      seed: request.seed ?? 0,
+      prompt: request.prompt,
+      params: request.params,
+      productImage: request.productImage,
+    })
+  },
+}
+
+// Register the built-in providers
+registerProvider(localFashionProvider)
+registerProvider(huggingFaceProvider)
+registerProvider(comfyUIProvider)
+registerProvider(mockProvider)
@@ -0,0 +1,271 @@
+import { AppError, NetworkError } from "./errors"
+
+// Job states shown in the UI
+export type GenerationJobState = "queued" | "running" | "retrying" | "done" | "failed" | "cancelled"
+
+// A queued generation job
+export interface GenerationJob<T = unknown> {
+  id: string
+  label: string
+  state: GenerationJobState
+  attempts: number
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+  nextRetryAt?: number
+  error?: string
+  result?: T
+}
+
+// Queue options
+export interface GenerationQueueOptions {
+  maxConcurrency: number
+  maxRetries: number
+  baseRetryDelayMs: number
+  maxRetryDelayMs: number
+  timeoutMs: number
+}
+
+// Work run by a job; it must honor the abort signal
+export type GenerationTask<T> = (signal: AbortSignal) => Promise<T>
+
+// Handle returned when a job is enqueued
+export interface EnqueuedJob<T> {
+  id: string
+  promise: Promise<T>
+}
+
+const defaultQueueOptions: GenerationQueueOptions = {
+  maxConcurrency: 2,
+  maxRetries: 3,
+  baseRetryDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+  timeoutMs: 120000,
+}
+
+// Statuses that mean "try again later"
+const RETRYABLE_STATUSES = [429, 503]
+
+// Error raised when a job exceeds its timeout; a hung provider looks like a dropped connection to the user
+export class GenerationTimeoutError extends NetworkError {
+  constructor(timeoutMs: number) {
+    super(`Generation timed out after ${Math.round(timeoutMs / 1000)}s`)
+    this.name = "GenerationTimeoutError"
+  }
+}
+
+// Error raised when a job is cancelled
+export class GenerationCancelledError extends AppError {
+  constructor() {
+    super("unknown", "Generation was cancelled")
+    this.name = "GenerationCancelledError"
+  }
+}
+
+// Rate limits, temporary unavailability and timeouts are retried; everything else fails the job
+export function isRetryableGenerationError(error: unknown): boolean {
+  if (error instanceof GenerationTimeoutError) return true
+
+  const status = (error as { status?: unknown } | null)?.status
+  return typeof status === "number" && RETRYABLE_STATUSES.includes(status)
+}
+
+// Exponential backoff with jitter
+function getRetryDelay(attempt: number, options: GenerationQueueOptions): number {
+  const exponential = options.baseRetryDelayMs * 2 ** (attempt - 1)
+  const jitter = Math.random() * options.baseRetryDelayMs
+  return Math.min(options.maxRetryDelayMs, exponential + jitter)
+}
+
+// Create a generation queue with bounded concurrency, per-job cancellation and retries
+export function createGenerationQueue(options: Partial<GenerationQueueOptions> = {}) {
+  const queueOptions: GenerationQueueOptions = { ...defaultQueueOptions, ...options }
+
+  let jobs: GenerationJob[] = []
+  const controllers = new Map<string, AbortController>()
+  const pending: { id: string; run: () => void }[] = []
+  const listeners = new Set<(jobs: GenerationJob[]) => void>()
+  let running = 0
+
+  // Replace a job with an updated copy and notify subscribers
+  function updateJob(id: string, changes: Partial<GenerationJob>) {
+    jobs = jobs.map((job) => (job.id === id ? { ...job, ...changes } : job))
+    listeners.forEach((listener) => listener(jobs))
+  }
+
+  function getJob(id: string): GenerationJob | undefined {
+    return jobs.find((job) => job.id === id)
+  }
+
+  // Start queued jobs while there is capacity
+  function drain() {
+    while (running < queueOptions.maxConcurrency && pending.length > 0) {
+      const next = pending.shift()
+      if (next) {
+        running++
+        next.run()
+      }
+    }
+  }
+
+  // Wait for the backoff delay, stopping early if the job is cancelled
+  function waitForRetry(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms)
+      signal.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer)
+          reject(new GenerationCancelledError())
+        },
+        { once: true },
+      )
+    })
+  }
+
+  // Run one attempt with a timeout tied to the job's abort signal
+  async function runAttempt<T>(task: GenerationTask<T>, jobSignal: AbortSignal): Promise<T> {
+    const attemptController = new AbortController()
+    const abortAttempt = () => attemptController.abort()
+    jobSignal.addEventListener("abort", abortAttempt, { once: true })
+
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      attemptController.abort()
+    }, queueOptions.timeoutMs)
+
+    try {
+      return await task(attemptController.signal)
+    } catch (error) {
+      if (jobSignal.aborted) throw new GenerationCancelledError()
+      if (timedOut) throw new GenerationTimeoutError(queueOptions.timeoutMs)
+      throw error
+    } finally {
+      clearTimeout(timer)
+      jobSignal.removeEventListener("abort", abortAttempt)
+    }
+  }
+
+  // Add a job to the queue
+  function enqueue<T>(label: string, task: GenerationTask<T>): EnqueuedJob<T> {
+    const id = Math.random().toString(36).substring(2, 11)
+    const controller = new AbortController()
+    controllers.set(id, controller)
+
+    jobs = [...jobs, { id, label, state: "queued", attempts: 0, createdAt: Date.now() }]
+    listeners.forEach((listener) => listener(jobs))
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const run = async () => {
+        try {
+          for (let attempt = 1; ; attempt++) {
+            if (controller.signal.aborted) throw new GenerationCancelledError()
+
+            updateJob(id, {
+              state: attempt === 1 ? "running" : "retrying",
+              attempts: attempt,
+              startedAt: getJob(id)?.startedAt ?? Date.now(),
+              nextRetryAt: undefined,
+            })
+
+            try {
+              const result = await runAttempt(task, controller.signal)
+              updateJob(id, { state: "done", result, error: undefined, finishedAt: Date.now() })
+              resolve(result)
+              return
+            } catch (error) {
+              if (
+                error instanceof GenerationCancelledError ||
+                attempt > queueOptions.maxRetries ||
+                !isRetryableGenerationError(error)
+              ) {
+                throw error
+              }
+
+              const delayMs = getRetryDelay(attempt, queueOptions)
+              updateJob(id, {
+                state: "retrying",
+                error: error instanceof Error ? error.message : String(error),
+                nextRetryAt: Date.now() + delayMs,
+              })
+              await waitForRetry(delayMs, controller.signal)
+            }
+          }
+        } catch (error) {
+          const cancelled = error instanceof GenerationCancelledError
+          updateJob(id, {
+            state: cancelled ? "cancelled" : "failed",
+            error: error instanceof Error ? error.message : String(error),
+            finishedAt: Date.now(),
+            nextRetryAt: undefined,
+          })
+          reject(error)
+        } finally {
+          controllers.delete(id)
+          running--
+          drain()
+        }
+      }
+
+      pending.push({ id, run })
+    })
+
+    drain()
+    return { id, promise }
+  }
+
+  // Cancel a job, whether it is still queued or already running
+  function cancel(id: string) {
+    const queuedIndex = pending.findIndex((item) => item.id === id)
+    if (queuedIndex !== -1) {
+      // Let the job start so it rejects with a cancellation and frees its slot normally
+      const [item] = pending.splice(queuedIndex, 1)
+      controllers.get(id)?.abort()
+      running++
+      item.run()
+      return
+    }
+
+    controllers.get(id)?.abort()
+  }
+
+  // Cancel every unfinished job
+  function cancelAll() {
+    jobs.filter((job) => !isFinished(job)).forEach((job) => cancel(job.id))
+  }
+
+  // Remove finished jobs from the list
+  function clearFinished() {
+    jobs = jobs.filter((job) => !isFinished(job))
+    listeners.forEach((listener) => listener(jobs))
+  }
+
+  // Subscribe to job changes; returns an unsubscribe function
+  function subscribe(listener: (jobs: GenerationJob[]) => void): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  return {
+    enqueue,
+    cancel,
+    cancelAll,
+    clearFinished,
+    subscribe,
+    getJobs: () => jobs,
+    getOptions: () => ({ ...queueOptions }),
+  }
+}
+
+export type GenerationQueue = ReturnType<typeof createGenerationQueue>
+
+// Check whether a job has reached a final state
+export function isFinished(job: GenerationJob): boolean {
+  return job.state === "done" || job.state === "failed" || job.state === "cancelled"
+}
+
+// Shared queue used by the editor and try-on generation
+export const generationQueue = createGenerationQueue()
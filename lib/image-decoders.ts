@@ -0,0 +1,432 @@
+// Decoders for formats browsers can't draw: TIFF, the flattened composite of a PSD, and HEIC.
+// All produce straight (not premultiplied) 8-bit RGBA ready for ImageData.
+import { InvalidInputError } from "./errors"
+
+export interface DecodedImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray<ArrayBuffer>
+}
+
+// Dropzone file types for uploads. Browsers often send PSD and HEIC files without a MIME type, so
+// they're matched by extension too.
+export const imageFileTypes: Record<string, string[]> = {
+  "image/*": [".jpeg", ".jpg", ".png", ".webp", ".tif", ".tiff", ".avif", ".heic", ".heif"],
+  "image/vnd.adobe.photoshop": [".psd"],
+}
+
+const EXTENSIONS = Object.values(imageFileTypes).flat()
+
+export function isImageFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return file.type.startsWith("image/") || EXTENSIONS.some((extension) => name.endsWith(extension))
+}
+
+// Undo PackBits run-length encoding, used by TIFF and by PSD's RLE compression
+function unpackBits(input: Uint8Array, output: Uint8Array, outputOffset = 0, outputEnd = output.length) {
+  let i = 0
+  let o = outputOffset
+  while (i < input.length && o < outputEnd) {
+    const header = (input[i++] << 24) >> 24 // Signed byte
+    if (header >= 0) {
+      const count = Math.min(header + 1, outputEnd - o, input.length - i)
+      output.set(input.subarray(i, i + count), o)
+      i += count
+      o += count
+    } else if (header !== -128) {
+      const count = Math.min(1 - header, outputEnd - o)
+      output.fill(input[i++], o, o + count)
+      o += count
+    }
+  }
+}
+
+// TIFF LZW: MSB-first codes from 9 to 12 bits, widened one code early
+function decodeLzw(input: Uint8Array, output: Uint8Array) {
+  const prefix = new Int16Array(4096)
+  const suffix = new Uint8Array(4096)
+  const first = new Uint8Array(4096)
+  const lengths = new Uint16Array(4096)
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1
+    suffix[i] = first[i] = i
+    lengths[i] = 1
+  }
+
+  let bit = 0
+  let width = 9
+  let next = 258
+  let previous = -1
+  let o = 0
+
+  const readCode = () => {
+    if (bit + width > input.length * 8) return 257
+    let code = 0
+    for (let i = 0; i < width; i++, bit++) {
+      code = (code << 1) | ((input[bit >> 3] >> (7 - (bit & 7))) & 1)
+    }
+    return code
+  }
+
+  // Write a dictionary entry; its bytes are linked from last to first
+  const write = (code: number) => {
+    const length = lengths[code]
+    for (let i = length - 1, c = code; i >= 0; i--, c = prefix[c]) {
+      if (o + i < output.length) output[o + i] = suffix[c]
+    }
+    o += length
+  }
+
+  const add = (code: number, byte: number) => {
+    if (next >= 4096) return
+    prefix[next] = code
+    suffix[next] = byte
+    first[next] = first[code]
+    lengths[next] = lengths[code] + 1
+    next++
+  }
+
+  while (o < output.length) {
+    const code = readCode()
+    if (code === 257) break
+    if (code === 256) {
+      width = 9
+      next = 258
+      previous = -1
+      continue
+    }
+
+    if (previous === -1) {
+      write(code)
+    } else if (code < next) {
+      write(code)
+      add(previous, first[code])
+    } else {
+      add(previous, first[previous])
+      write(next - 1)
+    }
+    previous = code
+    if (next + 1 >= 1 << width && width < 12) width++
+  }
+}
+
+async function inflate(input: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream("deflate"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const TIFF_WIDTH = 256
+const TIFF_HEIGHT = 257
+const TIFF_BITS_PER_SAMPLE = 258
+const TIFF_COMPRESSION = 259
+const TIFF_PHOTOMETRIC = 262
+const TIFF_STRIP_OFFSETS = 273
+const TIFF_SAMPLES_PER_PIXEL = 277
+const TIFF_ROWS_PER_STRIP = 278
+const TIFF_STRIP_BYTE_COUNTS = 279
+const TIFF_PLANAR_CONFIGURATION = 284
+const TIFF_PREDICTOR = 317
+const TIFF_COLOR_MAP = 320
+const TIFF_TILE_WIDTH = 322
+const TIFF_TILE_LENGTH = 323
+const TIFF_TILE_OFFSETS = 324
+const TIFF_TILE_BYTE_COUNTS = 325
+const TIFF_EXTRA_SAMPLES = 338
+const TIFF_SAMPLE_FORMAT = 339
+
+// Integer fields of the first IFD, keyed by tag; every value is kept since strip tables can be long
+function readTiffFields(view: DataView, littleEndian: boolean): Map<number, number[]> {
+  const fields = new Map<number, number[]>()
+  const offset = view.getUint32(4, littleEndian)
+  const count = view.getUint16(offset, littleEndian)
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12
+    const tag = view.getUint16(entry, littleEndian)
+    const type = view.getUint16(entry + 2, littleEndian)
+    const length = view.getUint32(entry + 4, littleEndian)
+    const size = type === 3 ? 2 : type === 4 ? 4 : type === 1 ? 1 : 0
+    if (!size) continue
+
+    const valueOffset = size * length <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+    if (valueOffset + size * length > view.byteLength) continue
+
+    const values: number[] = []
+    for (let j = 0; j < length; j++) {
+      const at = valueOffset + j * size
+      values.push(
+        size === 1
+          ? view.getUint8(at)
+          : size === 2
+            ? view.getUint16(at, littleEndian)
+            : view.getUint32(at, littleEndian),
+      )
+    }
+    fields.set(tag, values)
+  }
+
+  return fields
+}
+
+// Decode the first image of a TIFF. Handles strips and tiles, chunky and planar layouts, 8 and 16 bits
+// per sample, gray, RGB, palette and CMYK, and alpha; uncompressed, PackBits, LZW or Deflate.
+export async function decodeTiff(bytes: Uint8Array<ArrayBuffer>): Promise<DecodedImage> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const littleEndian = bytes[0] === 0x49
+  if (view.getUint16(2, littleEndian) !== 42) {
+    throw new InvalidInputError("This TIFF variant (BigTIFF) is not supported")
+  }
+
+  const fields = readTiffFields(view, littleEndian)
+  const field = (tag: number, fallback: number) => fields.get(tag)?.[0] ?? fallback
+
+  const width = field(TIFF_WIDTH, 0)
+  const height = field(TIFF_HEIGHT, 0)
+  const samplesPerPixel = field(TIFF_SAMPLES_PER_PIXEL, 1)
+  const bits = field(TIFF_BITS_PER_SAMPLE, 1)
+  const compression = field(TIFF_COMPRESSION, 1)
+  const photometric = field(TIFF_PHOTOMETRIC, 1)
+  const planar = field(TIFF_PLANAR_CONFIGURATION, 1) === 2
+  const predictor = field(TIFF_PREDICTOR, 1)
+  const colorMap = fields.get(TIFF_COLOR_MAP)
+  const extraSamples = fields.get(TIFF_EXTRA_SAMPLES) ?? []
+
+  if (!width || !height) throw new InvalidInputError("The TIFF has no image size")
+  if (bits !== 8 && bits !== 16) throw new InvalidInputError(`${bits}-bit TIFFs are not supported`)
+  if (field(TIFF_SAMPLE_FORMAT, 1) === 3) throw new InvalidInputError("Floating-point TIFFs are not supported")
+  if (![0, 1, 2, 3, 5].includes(photometric)) {
+    throw new InvalidInputError("Only gray, RGB, palette and CMYK TIFFs are supported")
+  }
+  if (photometric === 3 && (!colorMap || bits !== 8)) throw new InvalidInputError("The TIFF palette is missing")
+  if (![1, 5, 8, 32773, 32946].includes(compression)) {
+    throw new InvalidInputError("This TIFF compression (probably JPEG) is not supported")
+  }
+
+  // Strips are tiles as wide as the image
+  const tiled = fields.has(TIFF_TILE_OFFSETS)
+  const chunkWidth = tiled ? field(TIFF_TILE_WIDTH, width) : width
+  const chunkHeight = tiled ? field(TIFF_TILE_LENGTH, height) : Math.min(field(TIFF_ROWS_PER_STRIP, height), height)
+  const offsets = fields.get(tiled ? TIFF_TILE_OFFSETS : TIFF_STRIP_OFFSETS) ?? []
+  const byteCounts = fields.get(tiled ? TIFF_TILE_BYTE_COUNTS : TIFF_STRIP_BYTE_COUNTS) ?? []
+  const across = Math.ceil(width / chunkWidth)
+  const down = Math.ceil(height / chunkHeight)
+  const planes = planar ? samplesPerPixel : 1
+  const chunkSamples = planar ? 1 : samplesPerPixel
+  const rowBytes = (chunkWidth * chunkSamples * bits) / 8
+
+  // Every sample, reduced to 8 bits, interleaved per pixel
+  const samples = new Uint8Array(width * height * samplesPerPixel)
+
+  for (let plane = 0; plane < planes; plane++) {
+    for (let chunkY = 0; chunkY < down; chunkY++) {
+      for (let chunkX = 0; chunkX < across; chunkX++) {
+        const index = (plane * down + chunkY) * across + chunkX
+        const start = offsets[index]
+        if (start === undefined) continue
+        const input = bytes.subarray(start, start + (byteCounts[index] ?? bytes.length - start))
+
+        let chunk = new Uint8Array(rowBytes * chunkHeight)
+        if (compression === 1) chunk.set(input.subarray(0, chunk.length))
+        else if (compression === 32773) unpackBits(input, chunk)
+        else if (compression === 5) decodeLzw(input, chunk)
+        else chunk = await inflate(input)
+
+        // 16-bit samples in file byte order; typed arrays wrap around like the predictor expects
+        const values = bits === 16 ? new Uint16Array(chunk.length >> 1) : chunk
+        if (bits === 16) {
+          const chunkView = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+          for (let i = 0; i < values.length; i++) values[i] = chunkView.getUint16(i * 2, littleEndian)
+        }
+
+        const rowValues = chunkWidth * chunkSamples
+        if (predictor === 2) {
+          for (let y = 0; y < chunkHeight; y++) {
+            for (let i = y * rowValues + chunkSamples; i < (y + 1) * rowValues && i < values.length; i++) {
+              values[i] += values[i - chunkSamples]
+            }
+          }
+        }
+
+        const shift = bits === 16 ? 8 : 0
+        for (let y = 0; y < chunkHeight; y++) {
+          const imageY = chunkY * chunkHeight + y
+          if (imageY >= height) break
+          for (let x = 0; x < chunkWidth; x++) {
+            const imageX = chunkX * chunkWidth + x
+            if (imageX >= width) break
+            for (let s = 0; s < chunkSamples; s++) {
+              const value = values[y * rowValues + x * chunkSamples + s] ?? 0
+              samples[(imageY * width + imageX) * samplesPerPixel + plane + s] = value >> shift
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Extra samples after the color ones; the first is alpha when marked as such
+  const colorSamples = photometric === 2 ? 3 : photometric === 5 ? 4 : 1
+  const alphaType = samplesPerPixel > colorSamples ? extraSamples[0] ?? 2 : 0
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * samplesPerPixel
+    let r: number
+    let g: number
+    let b: number
+    if (photometric === 2) {
+      r = samples[i]
+      g = samples[i + 1]
+      b = samples[i + 2]
+    } else if (photometric === 5) {
+      const k = 255 - samples[i + 3]
+      r = ((255 - samples[i]) * k) / 255
+      g = ((255 - samples[i + 1]) * k) / 255
+      b = ((255 - samples[i + 2]) * k) / 255
+    } else if (photometric === 3 && colorMap) {
+      // 16-bit palette: all reds, then all greens, then all blues
+      r = colorMap[samples[i]] >> 8
+      g = colorMap[256 + samples[i]] >> 8
+      b = colorMap[512 + samples[i]] >> 8
+    } else {
+      r = g = b = photometric === 0 ? 255 - samples[i] : samples[i]
+    }
+
+    const alpha = alphaType ? samples[i + colorSamples] : 255
+    // Associated alpha is premultiplied; ImageData isn't
+    const scale = alphaType === 1 && alpha > 0 ? 255 / alpha : 1
+    data[p * 4] = r * scale
+    data[p * 4 + 1] = g * scale
+    data[p * 4 + 2] = b * scale
+    data[p * 4 + 3] = alpha
+  }
+
+  return { width, height, data }
+}
+
+const PSD_MODE_GRAYSCALE = 1
+const PSD_MODE_INDEXED = 2
+const PSD_MODE_RGB = 3
+const PSD_MODE_CMYK = 4
+// Image resource recording whether the file holds a real composite ("Maximize Compatibility")
+const PSD_RESOURCE_VERSION_INFO = 1057
+
+// Decode the flattened composite Photoshop stores after the layers. PSB files are read too.
+export function decodePsd(bytes: Uint8Array): DecodedImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const version = view.getUint16(4)
+  const channels = view.getUint16(12)
+  const height = view.getUint32(14)
+  const width = view.getUint32(18)
+  const depth = view.getUint16(22)
+  const mode = view.getUint16(24)
+  const isPsb = version === 2
+
+  if (depth !== 8 && depth !== 16) throw new InvalidInputError(`${depth}-bit Photoshop files are not supported`)
+  if (![PSD_MODE_GRAYSCALE, PSD_MODE_INDEXED, PSD_MODE_RGB, PSD_MODE_CMYK].includes(mode)) {
+    throw new InvalidInputError("Only RGB, CMYK, grayscale and indexed Photoshop files are supported")
+  }
+
+  let offset = 26
+  const colorModeLength = view.getUint32(offset)
+  const palette = bytes.subarray(offset + 4, offset + 4 + colorModeLength)
+  offset += 4 + colorModeLength
+
+  const resourcesLength = view.getUint32(offset)
+  const resourcesEnd = offset + 4 + resourcesLength
+  for (let at = offset + 4; at + 12 <= resourcesEnd; ) {
+    const id = view.getUint16(at + 4)
+    const nameLength = bytes[at + 6]
+    at += 6 + nameLength + 1 + ((nameLength + 1) % 2) // Pascal string padded to an even size
+    const size = view.getUint32(at)
+    if (id === PSD_RESOURCE_VERSION_INFO && bytes[at + 4 + 4] === 0) {
+      throw new InvalidInputError('This PSD has no flattened image; save it with "Maximize Compatibility" on')
+    }
+    at += 4 + size + (size % 2)
+  }
+  offset = resourcesEnd
+
+  // A negative layer count means the first extra channel is the composite's transparency
+  const readLength = (at: number) => (isPsb ? Number(view.getBigUint64(at)) : view.getUint32(at))
+  const lengthSize = isPsb ? 8 : 4
+  const layerAndMaskLength = readLength(offset)
+  const layerInfoLength = layerAndMaskLength > 0 ? readLength(offset + lengthSize) : 0
+  const hasTransparency = layerInfoLength > 0 && view.getInt16(offset + lengthSize * 2) < 0
+  offset += lengthSize + layerAndMaskLength
+
+  const compression = view.getUint16(offset)
+  offset += 2
+  if (compression !== 0 && compression !== 1) throw new InvalidInputError("This PSD compression is not supported")
+
+  const colorChannels = mode === PSD_MODE_RGB ? 3 : mode === PSD_MODE_CMYK ? 4 : 1
+  const used = Math.min(channels, colorChannels + (hasTransparency ? 1 : 0))
+  const rowBytes = (width * depth) / 8
+  // Channels are stored one after another, each as full rows
+  const planes = new Uint8Array(rowBytes * height * used)
+
+  if (compression === 0) {
+    planes.set(bytes.subarray(offset, offset + planes.length))
+  } else {
+    const countSize = isPsb ? 4 : 2
+    let data = offset + channels * height * countSize
+    for (let row = 0; row < used * height; row++) {
+      const count = isPsb ? view.getUint32(offset + row * countSize) : view.getUint16(offset + row * countSize)
+      unpackBits(bytes.subarray(data, data + count), planes, row * rowBytes, (row + 1) * rowBytes)
+      data += count
+    }
+  }
+
+  const planeSize = rowBytes * height
+  // 16-bit samples are big-endian; the high byte is enough for display
+  const sample = (channel: number, p: number) => planes[channel * planeSize + (depth === 16 ? p * 2 : p)]
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  for (let p = 0; p < width * height; p++) {
+    if (mode === PSD_MODE_RGB) {
+      data[p * 4] = sample(0, p)
+      data[p * 4 + 1] = sample(1, p)
+      data[p * 4 + 2] = sample(2, p)
+    } else if (mode === PSD_MODE_CMYK) {
+      // Stored inverted: 255 is no ink
+      const k = sample(3, p)
+      data[p * 4] = (sample(0, p) * k) / 255
+      data[p * 4 + 1] = (sample(1, p) * k) / 255
+      data[p * 4 + 2] = (sample(2, p) * k) / 255
+    } else if (mode === PSD_MODE_INDEXED) {
+      // 256 reds, then greens, then blues
+      const index = sample(0, p)
+      data[p * 4] = palette[index]
+      data[p * 4 + 1] = palette[256 + index]
+      data[p * 4 + 2] = palette[512 + index]
+    } else {
+      data[p * 4] = data[p * 4 + 1] = data[p * 4 + 2] = sample(0, p)
+    }
+    data[p * 4 + 3] = used > colorChannels ? sample(colorChannels, p) : 255
+  }
+
+  return { width, height, data }
+}
+
+// HEIC through a WebAssembly build of libheif, loaded on first use since it is about 2 MB. libheif
+// applies the file's rotation and mirroring itself.
+export async function decodeHeic(bytes: Uint8Array): Promise<DecodedImage> {
+  const { HeifDecoder } = await import("libheif-js/wasm-bundle")
+  const images = new HeifDecoder().decode(bytes)
+
+  try {
+    const image = images.find((candidate) => candidate.is_primary()) ?? images[0]
+    if (!image) throw new InvalidInputError("The HEIC file holds no image")
+
+    const width = image.get_width()
+    const height = image.get_height()
+    const data = new Uint8ClampedArray(width * height * 4)
+    await new Promise<void>((resolve, reject) =>
+      image.display({ data, width, height }, (result) =>
+        result ? resolve() : reject(new InvalidInputError("The HEIC image could not be decoded")),
+      ),
+    )
+    return { width, height, data }
+  } finally {
+    for (const image of images) image.free()
+  }
+}
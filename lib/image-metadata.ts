@@ -0,0 +1,560 @@
+// Reading and stripping JPEG, PNG and WebP metadata. The byte-level parts are plain TypeScript so
+// they run in the browser and in the generation route alike.
+import { CanvasError, InvalidInputError } from "./errors"
+import { decodeHeic, decodePsd, decodeTiff, type DecodedImage } from "./image-decoders"
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "tiff" | "psd" | "avif" | "heic" | "unknown"
+
+export interface GpsPosition {
+  latitude: number
+  longitude: number
+  altitude?: number // Meters above sea level
+}
+
+export interface ImageMetadata {
+  format: ImageFormat
+  orientation: number // EXIF orientation, 1-8; 1 is upright
+  make?: string
+  model?: string
+  lens?: string
+  software?: string
+  takenAt?: string // "YYYY-MM-DD HH:MM:SS", in the camera's local time
+  gps?: GpsPosition
+  hasPersonalData: boolean // GPS, owner, artist, copyright or serial number present
+}
+
+// An upload with metadata removed and orientation applied to the pixels
+export interface IngestedImage {
+  url: string
+  metadata: ImageMetadata
+}
+
+const TAG_ORIENTATION = 0x0112
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_SOFTWARE = 0x0131
+const TAG_DATE_TIME = 0x0132
+const TAG_ARTIST = 0x013b
+const TAG_COPYRIGHT = 0x8298
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_OWNER_NAME = 0xa430
+const TAG_SERIAL_NUMBER = 0xa431
+const TAG_LENS_MODEL = 0xa434
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+// PNG chunks that hold EXIF, free text (which can carry XMP) or a modification time
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]
+// VP8X flag bits for the EXIF and XMP chunks
+const WEBP_EXIF_FLAG = 0x08
+const WEBP_XMP_FLAG = 0x04
+// HEIF brands of AVIF files, and of HEIC ones ("mif1" alone is any HEIF image, usually HEIC)
+const AVIF_BRANDS = ["avif", "avis"]
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]
+// Formats no canvas can draw everywhere; they're decoded and re-encoded as PNG on upload
+const DECODED_FORMATS: ImageFormat[] = ["tiff", "psd", "avif", "heic"]
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length))
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg"
+  if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) return "png"
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "webp"
+  if (ascii(bytes, 0, 4) === "II*\0" || ascii(bytes, 0, 4) === "MM\0*") return "tiff"
+  if (ascii(bytes, 0, 4) === "8BPS") return "psd"
+
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    // Major brand, then the compatible brands after the minor version
+    const size = Math.min(bytes.length, (bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3])
+    const brands = [ascii(bytes, 8, 4)]
+    for (let offset = 16; offset + 4 <= size; offset += 4) brands.push(ascii(bytes, offset, 4))
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "avif"
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return "heic"
+  }
+
+  return "unknown"
+}
+
+// Fields read from one TIFF IFD, keyed by tag
+type IfdValues = Map<number, string | number[]>
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): IfdValues {
+  const values: IfdValues = new Map()
+  const count = view.getUint16(offset, littleEndian)
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12
+    const tag = view.getUint16(entry, littleEndian)
+    const type = view.getUint16(entry + 2, littleEndian)
+    const length = view.getUint32(entry + 4, littleEndian)
+    const size = TYPE_SIZES[type]
+    if (!size) continue
+
+    const valueOffset = size * length <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+    if (valueOffset + size * length > view.byteLength) continue
+
+    if (type === 2) {
+      const chars: number[] = []
+      for (let j = 0; j < length; j++) chars.push(view.getUint8(valueOffset + j))
+      values.set(tag, String.fromCharCode(...chars).replace(/\0+$/, "").trim())
+      continue
+    }
+
+    const numbers: number[] = []
+    for (let j = 0; j < Math.min(length, 16); j++) {
+      const at = valueOffset + j * size
+      if (type === 1 || type === 7) numbers.push(view.getUint8(at))
+      else if (type === 3) numbers.push(view.getUint16(at, littleEndian))
+      else if (type === 4) numbers.push(view.getUint32(at, littleEndian))
+      else if (type === 9) numbers.push(view.getInt32(at, littleEndian))
+      else if (type === 5) numbers.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1))
+      else numbers.push(view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1))
+    }
+    values.set(tag, numbers)
+  }
+
+  return values
+}
+
+const getText = (values: IfdValues, tag: number) => {
+  const value = values.get(tag)
+  return typeof value === "string" && value ? value : undefined
+}
+
+const getNumbers = (values: IfdValues, tag: number) => {
+  const value = values.get(tag)
+  return Array.isArray(value) ? value : undefined
+}
+
+// Degrees from EXIF's [degrees, minutes, seconds] and its N/S/E/W reference
+function toDegrees(parts: number[] | undefined, reference: string | undefined): number | undefined {
+  if (!parts || parts.length < 3) return undefined
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600
+  return reference === "S" || reference === "W" ? -degrees : degrees
+}
+
+// Parse a TIFF-structured EXIF block into `metadata`. Damaged blocks are read as far as they go.
+function readExif(tiff: Uint8Array, metadata: ImageMetadata) {
+  try {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+    const littleEndian = ascii(tiff, 0, 2) === "II"
+    if (view.getUint16(2, littleEndian) !== 42) return
+
+    const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian)
+    const orientation = getNumbers(ifd0, TAG_ORIENTATION)?.[0]
+    if (orientation && orientation >= 1 && orientation <= 8) metadata.orientation = orientation
+    metadata.make = getText(ifd0, TAG_MAKE)
+    metadata.model = getText(ifd0, TAG_MODEL)
+    metadata.software = getText(ifd0, TAG_SOFTWARE)
+    metadata.takenAt = getText(ifd0, TAG_DATE_TIME)
+    let personal = !!(getText(ifd0, TAG_ARTIST) || getText(ifd0, TAG_COPYRIGHT))
+
+    const exifOffset = getNumbers(ifd0, TAG_EXIF_IFD)?.[0]
+    if (exifOffset) {
+      const exif = readIfd(view, exifOffset, littleEndian)
+      metadata.takenAt = getText(exif, TAG_DATE_TIME_ORIGINAL) || metadata.takenAt
+      metadata.lens = getText(exif, TAG_LENS_MODEL)
+      personal ||= !!(getText(exif, TAG_OWNER_NAME) || getText(exif, TAG_SERIAL_NUMBER))
+    }
+
+    const gpsOffset = getNumbers(ifd0, TAG_GPS_IFD)?.[0]
+    if (gpsOffset) {
+      const gps = readIfd(view, gpsOffset, littleEndian)
+      const latitude = toDegrees(getNumbers(gps, 2), getText(gps, 1))
+      const longitude = toDegrees(getNumbers(gps, 4), getText(gps, 3))
+      const altitude = getNumbers(gps, 6)?.[0]
+      if (latitude !== undefined && longitude !== undefined) {
+        metadata.gps = {
+          latitude,
+          longitude,
+          altitude: altitude === undefined ? undefined : getNumbers(gps, 5)?.[0] === 1 ? -altitude : altitude,
+        }
+      }
+      personal ||= gps.size > 0
+    }
+
+    // "YYYY:MM:DD HH:MM:SS" to a readable date
+    if (metadata.takenAt) metadata.takenAt = metadata.takenAt.replace(/^(\d{4}):(\d{2}):(\d{2})/, "$1-$2-$3")
+    metadata.hasPersonalData ||= personal
+  } catch (error) {
+    console.warn("Could not read EXIF data:", error)
+  }
+}
+
+// Visit each JPEG segment before the image data as (marker, start of data, end of data)
+function forEachJpegSegment(bytes: Uint8Array, visit: (marker: number, start: number, end: number) => void): number {
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    if (marker === 0xda || marker === 0xd9) break // Start of scan or end of image
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+    visit(marker, offset + 4, Math.min(end, bytes.length))
+    offset = end
+  }
+  return offset
+}
+
+// Called with a chunk's type, where the chunk starts, where its data starts and the data length
+type ChunkVisitor = (type: string, start: number, data: number, length: number) => void
+
+function forEachPngChunk(bytes: Uint8Array, visit: ChunkVisitor) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 8
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    visit(ascii(bytes, offset + 4, 4), offset, offset + 8, length)
+    offset += 12 + length
+  }
+}
+
+function forEachWebpChunk(bytes: Uint8Array, visit: ChunkVisitor) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true)
+    visit(ascii(bytes, offset, 4), offset, offset + 8, length)
+    offset += 8 + length + (length % 2) // Chunks are padded to an even size
+  }
+}
+
+// Visit each ISO BMFF box between start and end, as used by HEIF; `data` skips the box header
+function forEachBox(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  visit: (type: string, data: number, end: number) => void,
+) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    let header = 8
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8))
+      header = 16
+    } else if (size === 0) {
+      size = end - offset // Runs to the end of its parent
+    }
+    if (size < header) break
+    visit(ascii(bytes, offset + 4, 4), offset + header, Math.min(end, offset + size))
+    offset += size
+  }
+}
+
+// Read the EXIF item of a HEIF file (HEIC, AVIF): `iinf` names it, `iloc` says where its bytes are
+function readHeifExif(bytes: Uint8Array, metadata: ImageMetadata) {
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    let exifId: number | undefined
+    const locations = new Map<number, [number, number]>() // Item id to first extent's offset and length
+
+    forEachBox(bytes, 0, bytes.length, (type, data, end) => {
+      if (type !== "meta") return
+      // Full box: version and flags come first
+      forEachBox(bytes, data + 4, end, (child, childData, childEnd) => {
+        const version = bytes[childData]
+        if (child === "iinf") {
+          const entries = version === 0 ? childData + 6 : childData + 8
+          forEachBox(bytes, entries, childEnd, (entry, entryData) => {
+            const entryVersion = bytes[entryData]
+            if (entry !== "infe" || entryVersion < 2) return
+            const id = entryVersion === 2 ? view.getUint16(entryData + 4) : view.getUint32(entryData + 4)
+            const itemType = ascii(bytes, entryData + (entryVersion === 2 ? 8 : 10), 4)
+            if (itemType === "Exif") exifId = id
+            else if (itemType === "mime") metadata.hasPersonalData = true // XMP
+          })
+        } else if (child === "iloc") {
+          const sizes = view.getUint16(childData + 4)
+          const offsetSize = sizes >> 12
+          const lengthSize = (sizes >> 8) & 15
+          const baseOffsetSize = (sizes >> 4) & 15
+          const indexSize = version === 1 || version === 2 ? sizes & 15 : 0
+          const readSized = (at: number, size: number) => {
+            if (size === 8) return Number(view.getBigUint64(at))
+            return size === 4 ? view.getUint32(at) : size === 2 ? view.getUint16(at) : 0
+          }
+
+          let at = childData + 6
+          const count = version < 2 ? view.getUint16(at) : view.getUint32(at)
+          at += version < 2 ? 2 : 4
+          for (let i = 0; i < count && at < childEnd; i++) {
+            const id = version < 2 ? view.getUint16(at) : view.getUint32(at)
+            at += version < 2 ? 2 : 4
+            const constructionMethod = version === 1 || version === 2 ? view.getUint16(at) & 15 : 0
+            if (version === 1 || version === 2) at += 2
+            at += 2 // Data reference index
+            const baseOffset = readSized(at, baseOffsetSize)
+            at += baseOffsetSize
+            const extentCount = view.getUint16(at)
+            at += 2
+            for (let j = 0; j < extentCount; j++) {
+              at += indexSize
+              const extentOffset = readSized(at, offsetSize)
+              const extentLength = readSized(at + offsetSize, lengthSize)
+              at += offsetSize + lengthSize
+              // Only items stored in the file itself; `idat` items are rare for EXIF
+              if (j === 0 && constructionMethod === 0) locations.set(id, [baseOffset + extentOffset, extentLength])
+            }
+          }
+        }
+      })
+    })
+
+    const extent = exifId === undefined ? undefined : locations.get(exifId)
+    if (!extent) return
+
+    // The item starts with the offset of the TIFF header, past an optional "Exif\0\0"
+    const [start, length] = extent
+    const tiffStart = start + 4 + view.getUint32(start)
+    readExif(bytes.subarray(tiffStart, start + length), metadata)
+    // HEIF rotates with its own `irot`/`imir` properties, which decoders apply; the EXIF tag is informational
+    metadata.orientation = 1
+  } catch (error) {
+    console.warn("Could not read HEIF metadata:", error)
+  }
+}
+
+const EXIF_HEADER = "Exif\0\0"
+
+export function readImageMetadata(bytes: Uint8Array): ImageMetadata {
+  const format = detectImageFormat(bytes)
+  const metadata: ImageMetadata = { format, orientation: 1, hasPersonalData: false }
+
+  if (format === "jpeg") {
+    forEachJpegSegment(bytes, (marker, start, end) => {
+      if (marker !== 0xe1) return
+      if (ascii(bytes, start, 6) === EXIF_HEADER) readExif(bytes.subarray(start + 6, end), metadata)
+      else metadata.hasPersonalData = true // XMP, which can hold location and creator
+    })
+  } else if (format === "png") {
+    forEachPngChunk(bytes, (type, _, data, length) => {
+      if (type === "eXIf") readExif(bytes.subarray(data, data + length), metadata)
+      else if (type === "iTXt" || type === "tEXt" || type === "zTXt") metadata.hasPersonalData = true
+    })
+  } else if (format === "tiff") {
+    // A TIFF's own header is the structure EXIF borrows
+    readExif(bytes, metadata)
+  } else if (format === "heic" || format === "avif") {
+    readHeifExif(bytes, metadata)
+  } else if (format === "webp") {
+    forEachWebpChunk(bytes, (type, _, data, length) => {
+      if (type === "EXIF") {
+        const offset = ascii(bytes, data, 6) === EXIF_HEADER ? 6 : 0
+        readExif(bytes.subarray(data + offset, data + length), metadata)
+      } else if (type === "XMP ") {
+        metadata.hasPersonalData = true
+      }
+    })
+  }
+
+  return metadata
+}
+
+// Copy of the image without EXIF, XMP, IPTC, comments or text chunks. Pixels, color profiles and
+// everything needed to decode are kept; other formats are returned unchanged.
+export function stripImageMetadata(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const format = detectImageFormat(bytes)
+  const parts: Uint8Array<ArrayBuffer>[] = []
+
+  if (format === "jpeg") {
+    parts.push(bytes.subarray(0, 2))
+    const scanStart = forEachJpegSegment(bytes, (marker, start, end) => {
+      const isIccProfile = marker === 0xe2 && ascii(bytes, start, 11) === "ICC_PROFILE"
+      const isMetadata = (marker >= 0xe1 && marker <= 0xef && marker !== 0xee && !isIccProfile) || marker === 0xfe
+      if (!isMetadata) parts.push(bytes.subarray(start - 4, end))
+    })
+    parts.push(bytes.subarray(scanStart))
+  } else if (format === "png") {
+    parts.push(bytes.subarray(0, 8))
+    forEachPngChunk(bytes, (type, start, data, length) => {
+      if (!PNG_METADATA_CHUNKS.includes(type)) parts.push(bytes.subarray(start, data + length + 4))
+    })
+  } else if (format === "webp") {
+    parts.push(bytes.subarray(0, 12))
+    forEachWebpChunk(bytes, (type, start, data, length) => {
+      if (type === "EXIF" || type === "XMP ") return
+      const chunk = bytes.slice(start, Math.min(bytes.length, data + length + (length % 2)))
+      if (type === "VP8X") chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG)
+      parts.push(chunk)
+    })
+  } else {
+    return bytes
+  }
+
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+
+  // The RIFF header holds the size of everything after it
+  if (format === "webp") new DataView(result.buffer).setUint32(4, result.length - 8, true)
+
+  return result
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  let binary: string
+  try {
+    binary = atob(base64)
+  } catch (error) {
+    throw new InvalidInputError("The image data URL is not valid base64", { cause: error })
+  }
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// Strip metadata from a base64 image data URL; anything else is returned unchanged
+export function stripDataUrlMetadata(dataUrl: string): string {
+  const match = /^data:(image\/[\w+.-]+);base64,(.*)$/.exec(dataUrl)
+  if (!match) return dataUrl
+  return `data:${match[1]};base64,${bytesToBase64(stripImageMetadata(base64ToBytes(match[2])))}`
+}
+
+// Canvas transform that turns stored pixels upright for each EXIF orientation
+function getOrientationTransform(
+  orientation: number,
+  width: number,
+  height: number,
+): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2:
+      return [-1, 0, 0, 1, width, 0]
+    case 3:
+      return [-1, 0, 0, -1, width, height]
+    case 4:
+      return [1, 0, 0, -1, 0, height]
+    case 5:
+      return [0, 1, 1, 0, 0, 0]
+    case 6:
+      return [0, 1, -1, 0, height, 0]
+    case 7:
+      return [0, -1, -1, 0, height, width]
+    case 8:
+      return [0, -1, 1, 0, 0, width]
+    default:
+      return [1, 0, 0, 1, 0, 0]
+  }
+}
+
+// Kept local so the generation route can import this module without pulling in TensorFlow.js
+function loadBlobImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new InvalidInputError("The image could not be decoded"))
+    img.src = url
+  })
+}
+
+// Draw stored pixels onto a new canvas, turned upright for the EXIF orientation
+function drawUpright(source: CanvasImageSource, width: number, height: number, orientation: number) {
+  const swapsSides = orientation >= 5
+  const canvas = document.createElement("canvas")
+  canvas.width = swapsSides ? height : width
+  canvas.height = swapsSides ? width : height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new CanvasError("Could not get canvas context")
+
+  ctx.setTransform(...getOrientationTransform(orientation, width, height))
+  ctx.drawImage(source, 0, 0)
+  return canvas
+}
+
+async function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.95))
+  if (!blob) throw new CanvasError("Could not encode the image")
+  return blob
+}
+
+// Decode a TIFF, PSD, AVIF or HEIC upload onto an upright canvas
+async function decodeToCanvas(file: Blob, bytes: Uint8Array<ArrayBuffer>, metadata: ImageMetadata) {
+  if (metadata.format === "avif" || metadata.format === "heic") {
+    // The browser's decoder where it has one (AVIF everywhere current, HEIC in Safari); it applies
+    // the rotation itself
+    let bitmap: ImageBitmap | undefined
+    try {
+      bitmap = await createImageBitmap(file)
+    } catch (error) {
+      if (metadata.format === "avif") {
+        throw new InvalidInputError("AVIF images can't be decoded in this browser. Export the photo as JPEG or PNG.", {
+          cause: error,
+        })
+      }
+    }
+    if (bitmap) {
+      try {
+        return drawUpright(bitmap, bitmap.width, bitmap.height, 1)
+      } finally {
+        bitmap.close()
+      }
+    }
+  }
+
+  let image: DecodedImage
+  if (metadata.format === "heic") image = await decodeHeic(bytes)
+  else if (metadata.format === "tiff") image = await decodeTiff(bytes)
+  else image = decodePsd(bytes)
+
+  // HEIF rotation is applied by the decoder rather than through EXIF
+  const orientation = metadata.format === "heic" ? 1 : metadata.orientation
+  const { width, height, data } = image
+  const decoded = document.createElement("canvas")
+  decoded.width = width
+  decoded.height = height
+  const ctx = decoded.getContext("2d")
+  if (!ctx) throw new CanvasError("Could not get canvas context")
+  ctx.putImageData(new ImageData(data, width, height), 0, 0)
+  return orientation === 1 ? decoded : drawUpright(decoded, width, height, orientation)
+}
+
+// Prepare an uploaded file for the gallery: read its metadata, strip it, and bake the EXIF
+// orientation into the pixels. The metadata is stripped first so the browser can't rotate it again.
+// TIFF, PSD, AVIF and HEIC files become PNGs any canvas can draw.
+export async function ingestImageFile(file: Blob): Promise<IngestedImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const metadata = readImageMetadata(bytes)
+
+  if (metadata.format === "unknown") {
+    return { url: URL.createObjectURL(file), metadata }
+  }
+
+  // Re-encoding leaves their metadata behind
+  if (DECODED_FORMATS.includes(metadata.format)) {
+    try {
+      const canvas = await decodeToCanvas(file, bytes, metadata)
+      return { url: URL.createObjectURL(await canvasToBlob(canvas, "image/png")), metadata }
+    } catch (error) {
+      if (error instanceof InvalidInputError || error instanceof CanvasError) throw error
+      throw new InvalidInputError(`The ${metadata.format.toUpperCase()} file could not be read`, { cause: error })
+    }
+  }
+
+  const strippedUrl = URL.createObjectURL(new Blob([stripImageMetadata(bytes)], { type: file.type }))
+  if (metadata.orientation === 1) {
+    return { url: strippedUrl, metadata }
+  }
+
+  try {
+    const img = await loadBlobImage(strippedUrl)
+    const canvas = drawUpright(img, img.width, img.height, metadata.orientation)
+    return { url: URL.createObjectURL(await canvasToBlob(canvas, `image/${metadata.format}`)), metadata }
+  } finally {
+    URL.revokeObjectURL(strippedUrl)
+  }
+}
@@ -3,12 +3,19 @@ import "@tensorflow/tfjs-backend-webgl"
 import * as bodyPix from "@tensorflow-models/body-pix"
 import * as deeplab from "@tensorflow-models/deeplab"
 import * as mobilenet from "@tensorflow-models/mobilenet"
+import { applyColorCorrection, computeColorCorrection, type ColorCorrectionOptions } from "./color-correction"
+import { AppError, CanvasError, InvalidInputError, ModelLoadError, toAppError } from "./errors"
+import { Mask, type MaskBoundingBox } from "./mask"
+import { getMattingDefaults, refineAlphaMatte, type EdgeRefinement } from "./matting"
+import { runSegmentationTask, terminateSegmentationWorker } from "./segmentation-worker-client"
+import { buildMaskInTiles, getTiles, getTileSize, resampleMask } from "./tiling"
 
 // Model cache
 interface ModelCache {
   bodyPix?: bodyPix.BodyPix
   deeplab?: deeplab.SemanticSegmentation
   mobilenet?: mobilenet.MobileNet
+  superResolution?: tf.GraphModel
 }
 
 const modelCache: ModelCache = {}
@@ -20,6 +27,7 @@ export interface PerformanceConfig {
   useWebGPU: boolean
   precision: "high" | "medium" | "low"
   memoryManagement: "aggressive" | "balanced" | "performance"
+  edgeRefinement: EdgeRefinement // "matting" trades speed for soft hair and sheer fabric edges
 }
 
 let performanceConfig: PerformanceConfig = {
@@ -28,6 +36,7 @@ let performanceConfig: PerformanceConfig = {
   useWebGPU: false,
   precision: "medium",
   memoryManagement: "balanced",
+  edgeRefinement: "feather",
 }
 
 // Initialize TensorFlow.js with optimal settings
@@ -81,10 +90,16 @@ export async function initTensorFlow(config?: Partial<PerformanceConfig>): Promi
 
 // Model types
 export type SegmentationModel = "bodypix" | "deeplab" | "mobilenet"
+export type UpscaleModel = "super-resolution"
+
+// ESRGAN (2x) converted for TensorFlow.js; override to self-host the weights
+export const SUPER_RESOLUTION_MODEL_URL =
+  process.env.NEXT_PUBLIC_SUPER_RESOLUTION_MODEL_URL ||
+  "https://cdn.jsdelivr.net/npm/@upscalerjs/esrgan-slim@1.0.0-beta.12/models/x2/model.json"
 
 // Model loading with progress callback
 export async function loadModel(
-  modelType: SegmentationModel,
+  modelType: SegmentationModel | UpscaleModel,
   progressCallback?: (progress: number, message: string) => void,
 ): Promise<any> {
   // Return cached model if available
@@ -94,6 +109,8 @@ export async function loadModel(
     return modelCache.deeplab
   } else if (modelType === "mobilenet" && modelCache.mobilenet) {
     return modelCache.mobilenet
+  } else if (modelType === "super-resolution" && modelCache.superResolution) {
+    return modelCache.superResolution
   }
 
   // Load the model
@@ -133,251 +150,252 @@ export async function loadModel(
       })
       progressCallback?.(1.0, "MobileNet model loaded")
       return modelCache.mobilenet
+    } else if (modelType === "super-resolution") {
+      progressCallback?.(0.3, "Downloading super-resolution model...")
+      modelCache.superResolution = await tf.loadGraphModel(SUPER_RESOLUTION_MODEL_URL, {
+        onProgress: (fraction) => progressCallback?.(0.3 + fraction * 0.7, "Downloading super-resolution model..."),
+      })
+      progressCallback?.(1.0, "Super-resolution model loaded")
+      return modelCache.superResolution
     }
 
-    throw new Error(`Unknown model type: ${modelType}`)
+    throw new InvalidInputError(`Unknown model type: ${modelType}`)
   } catch (error) {
     console.error(`Error loading ${modelType} model:`, error)
-    throw new Error(`Failed to load ${modelType} model: ${error instanceof Error ? error.message : String(error)}`)
+    if (error instanceof AppError) throw error
+    throw new ModelLoadError(
+      `Failed to load ${modelType} model: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    )
   }
 }
 
-// Function to remove background from an image using the specified model
-export async function removeBackground(
-  imageUrl: string,
-  options: {
-    modelType?: SegmentationModel
-    backgroundBlur?: number
-    edgeBlur?: number
-    foregroundColor?: { r: number; g: number; b: number; a: number }
-    backgroundColor?: { r: number; g: number; b: number; a: number }
-    threshold?: number
-    progressCallback?: (progress: number, message: string) => void
-  } = {},
-): Promise<string> {
-  const {
-    modelType = "bodypix",
-    backgroundBlur = 0,
-    edgeBlur = 3,
-    foregroundColor = { r: 0, g: 0, b: 0, a: 0 }, // Transparent
-    backgroundColor = { r: 255, g: 255, b: 255, a: 1 }, // White
-    threshold = 0.7,
-    progressCallback,
-  } = options
-
-  try {
-    // Initialize TensorFlow if not already done
-    progressCallback?.(0.1, "Initializing TensorFlow.js...")
-    await initTensorFlow()
+// Anything the segmentation pipeline can draw: an <img> on the main thread, an ImageBitmap in the worker
+export type SegmentationSource = HTMLImageElement | ImageBitmap
 
-    // Load the model
-    progressCallback?.(0.2, `Loading ${modelType} model...`)
-    const model = await loadModel(modelType, progressCallback)
+// A canvas on the main thread, or an OffscreenCanvas inside a worker
+export type CanvasLike = HTMLCanvasElement | OffscreenCanvas
+export type CanvasLikeContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
 
-    // Create an image element from the URL
-    progressCallback?.(0.5, "Processing image...")
-    const img = new Image()
-    img.crossOrigin = "anonymous"
+function isOffscreenCanvas(canvas: CanvasLike): canvas is OffscreenCanvas {
+  return typeof OffscreenCanvas !== "undefined" && canvas instanceof OffscreenCanvas
+}
 
-    // Wait for the image to load
-    try {
-      await new Promise((resolve, reject) => {
-        img.onload = resolve
-        img.onerror = reject
-        img.src = imageUrl
-      })
-    } catch (error) {
-      console.error("Error loading image:", error)
-      throw new Error("Failed to load image: " + (error instanceof Error ? error.message : String(error)))
-    }
+// Create a canvas that works both with and without a DOM
+export function createCanvas(width: number, height: number): CanvasLike {
+  if (typeof document === "undefined") {
+    return new OffscreenCanvas(width, height)
+  }
 
-    // Run segmentation based on the model type
-    progressCallback?.(0.7, "Running segmentation...")
-    let segmentation: any
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
 
-    if (modelType === "bodypix") {
-      segmentation = await (model as bodyPix.BodyPix).segmentPerson(img, {
-        flipHorizontal: false,
-        internalResolution: performanceConfig.precision === "high" ? "high" : "medium",
-        segmentationThreshold: threshold,
-      })
-    } else if (modelType === "deeplab") {
-      segmentation = await (model as deeplab.SemanticSegmentation).segment(img)
-    } else if (modelType === "mobilenet") {
-      // MobileNet doesn't do segmentation directly, so we'll use it for classification
-      // and then use a simple threshold-based approach for segmentation
-      const predictions = await (model as mobilenet.MobileNet).classify(img)
-
-      // Create a canvas to analyze the image
-      const canvas = document.createElement("canvas")
-      canvas.width = img.width
-      canvas.height = img.height
-      const ctx = canvas.getContext("2d")
-      if (!ctx) throw new Error("Could not get canvas context")
-
-      ctx.drawImage(img, 0, 0)
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-
-      // Create a simple segmentation mask based on color difference from edges
-      const mask = new Uint8Array(img.width * img.height)
-
-      // Get edge pixels
-      const edgePixels = []
-      for (let x = 0; x < img.width; x++) {
-        edgePixels.push(imageData.data[(0 * img.width + x) * 4])
-        edgePixels.push(imageData.data[((img.height - 1) * img.width + x) * 4])
-      }
-      for (let y = 0; y < img.height; y++) {
-        edgePixels.push(imageData.data[(y * img.width + 0) * 4])
-        edgePixels.push(imageData.data[(y * img.width + (img.width - 1)) * 4])
-      }
+export function getCanvasContext(canvas: CanvasLike, name = "canvas"): CanvasLikeContext {
+  const ctx = isOffscreenCanvas(canvas) ? canvas.getContext("2d") : canvas.getContext("2d")
+  if (!ctx) {
+    throw new CanvasError(`Could not get ${name} context`)
+  }
+  return ctx
+}
 
-      // Calculate average edge color
-      const avgEdgeColor = edgePixels.reduce((sum, val) => sum + val, 0) / edgePixels.length
+// Encode a canvas as a PNG data URL; OffscreenCanvas has no toDataURL, so go through a Blob
+export async function canvasToDataURL(canvas: CanvasLike): Promise<string> {
+  if (!isOffscreenCanvas(canvas)) {
+    return canvas.toDataURL("image/png")
+  }
 
-      // Create mask based on difference from edge color
-      for (let i = 0; i < img.width * img.height; i++) {
-        const r = imageData.data[i * 4]
-        const g = imageData.data[i * 4 + 1]
-        const b = imageData.data[i * 4 + 2]
-        const colorDiff = Math.abs(r - avgEdgeColor) + Math.abs(g - avgEdgeColor) + Math.abs(b - avgEdgeColor)
-        mask[i] = colorDiff > threshold * 255 ? 1 : 0
-      }
+  const blob = await canvas.convertToBlob({ type: "image/png" })
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
 
-      segmentation = { width: img.width, height: img.height, data: mask }
-    }
+// Load an image for segmentation, reporting broken or CORS-blocked URLs as canvas errors
+async function loadSourceImage(imageUrl: string): Promise<HTMLImageElement> {
+  try {
+    return await loadImageElement(imageUrl)
+  } catch (error) {
+    console.error("Error loading image:", error)
+    throw new CanvasError("Failed to load image (broken URL or blocked by CORS)", { cause: error })
+  }
+}
 
-    progressCallback?.(0.8, "Creating masked image...")
+// Decode an image into an ImageBitmap so it can be transferred to the segmentation worker
+export async function loadImageBitmap(imageUrl: string): Promise<ImageBitmap> {
+  return createImageBitmap(await loadSourceImage(imageUrl))
+}
 
-    // Create a canvas to draw the result
-    const canvas = document.createElement("canvas")
-    canvas.width = img.width
-    canvas.height = img.height
-    const ctx = canvas.getContext("2d")
+// Read the pixels of an image source, or of one region of it; every model accepts ImageData,
+// on and off the main thread
+function getSourceImageData(
+  img: SegmentationSource,
+  region: MaskBoundingBox = { x: 0, y: 0, width: img.width, height: img.height },
+): ImageData {
+  const canvas = createCanvas(region.width, region.height)
+  const ctx = getCanvasContext(canvas)
+  ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height)
+  return ctx.getImageData(0, 0, region.width, region.height)
+}
 
-    if (!ctx) {
-      throw new Error("Could not get canvas context")
-    }
+// Pixels of an image scaled down so its long edge fits in maxSize
+function getScaledImageData(img: SegmentationSource, maxSize: number): ImageData {
+  const scale = maxSize / Math.max(img.width, img.height)
+  if (scale >= 1) return getSourceImageData(img)
+
+  const width = Math.max(1, Math.round(img.width * scale))
+  const height = Math.max(1, Math.round(img.height * scale))
+  const canvas = createCanvas(width, height)
+  const ctx = getCanvasContext(canvas)
+  ctx.imageSmoothingQuality = "high"
+  ctx.drawImage(img, 0, 0, width, height)
+  return ctx.getImageData(0, 0, width, height)
+}
 
-    // Draw the segmentation mask
-    let mask
-    if (modelType === "bodypix") {
-      mask = bodyPix.toMask(segmentation, foregroundColor, backgroundColor, backgroundBlur, edgeBlur)
-    } else if (modelType === "deeplab") {
-      // Create a mask from DeepLab segmentation
-      const coloredPartImage = new ImageData(segmentation.width, segmentation.height)
-      let mask = new Uint8ClampedArray(segmentation.width * segmentation.height * 4)
-
-      for (let i = 0; i < segmentation.height; i++) {
-        for (let j = 0; j < segmentation.width; j++) {
-          const n = i * segmentation.width + j
-          const isForeground = segmentation.segmentationMap[n] !== 0 // 0 is background
-
-          mask[n * 4] = isForeground ? foregroundColor.r : backgroundColor.r
-          mask[n * 4 + 1] = isForeground ? foregroundColor.g : backgroundColor.g
-          mask[n * 4 + 2] = isForeground ? foregroundColor.b : backgroundColor.b
-          mask[n * 4 + 3] = isForeground ? foregroundColor.a * 255 : backgroundColor.a * 255
-        }
-      }
+let maxTextureSize: number | undefined
 
-      coloredPartImage.data.set(mask)
-      mask = coloredPartImage
-    } else {
-      // Create a mask from our custom segmentation
-      const coloredPartImage = new ImageData(segmentation.width, segmentation.height)
-      const maskData = new Uint8ClampedArray(segmentation.width * segmentation.height * 4)
+// Tile size for full-resolution passes, from the memory setting and the GPU's texture limit
+export function getProcessingTileSize(): number {
+  maxTextureSize ??= checkWebGLCapabilities().maxTextureSize
+  return getTileSize(performanceConfig.memoryManagement, maxTextureSize)
+}
 
-      for (let i = 0; i < segmentation.data.length; i++) {
-        const isForeground = segmentation.data[i] === 1
+// Widest band guided upsampling refines; beyond this the edge is left as bilinear scaling made it
+const MAX_UPSAMPLE_BAND = 24
+
+// Guided upsampling: scale the model's mask up tile by tile, then snap the soft band that
+// bilinear scaling leaves along the edge to edges in the full-resolution photo
+function upsampleMask(mask: Mask, img: SegmentationSource, tileSize: number): Mask {
+  const factor = Math.ceil(Math.max(img.width / mask.width, img.height / mask.height))
+  const band = Math.min(2 * factor, MAX_UPSAMPLE_BAND)
+  const matting = { bandWidth: band, radius: band }
+
+  return buildMaskInTiles(img.width, img.height, tileSize, matting.bandWidth + 2 * matting.radius, (region) => {
+    const scaled = resampleMask(mask, region, img.width, img.height)
+    // Tiles entirely inside or outside the subject have no edge to refine
+    const first = scaled.data[0]
+    if (scaled.data.every((value) => value === first)) return scaled
+    return refineAlphaMatte(scaled, getSourceImageData(img, region), matting)
+  })
+}
 
-        maskData[i * 4] = isForeground ? foregroundColor.r : backgroundColor.r
-        maskData[i * 4 + 1] = isForeground ? foregroundColor.g : backgroundColor.g
-        maskData[i * 4 + 2] = isForeground ? foregroundColor.b : backgroundColor.b
-        maskData[i * 4 + 3] = isForeground ? foregroundColor.a * 255 : backgroundColor.a * 255
-      }
+// Cache of recent masks keyed by image hash, model and settings, so re-processing the same
+// upload (or cropping then removing its background) doesn't run the model twice
+const MASK_CACHE_SIZE = 8
+const maskCache = new Map<string, Mask>()
 
-      coloredPartImage.data.set(maskData)
-      mask = coloredPartImage
-    }
+// Content hash of an image's pixels; SHA-256 where SubtleCrypto is available, FNV-1a otherwise
+export async function hashImageData(imageData: ImageData): Promise<string> {
+  const header = `${imageData.width}x${imageData.height}:`
 
-    // Draw the original image
-    ctx.drawImage(img, 0, 0)
+  if (typeof crypto !== "undefined" && crypto.subtle) {
+    const digest = await crypto.subtle.digest("SHA-256", imageData.data)
+    return header + Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  }
 
-    // Apply the mask to the image
-    const maskCanvas = document.createElement("canvas")
-    maskCanvas.width = mask.width
-    maskCanvas.height = mask.height
-    const maskCtx = maskCanvas.getContext("2d")
+  let hash = 0x811c9dc5
+  for (let i = 0; i < imageData.data.length; i++) {
+    hash = Math.imul(hash ^ imageData.data[i], 0x01000193)
+  }
+  return header + (hash >>> 0).toString(16)
+}
 
-    if (!maskCtx) {
-      throw new Error("Could not get mask canvas context")
+// Turn a model's raw output into a foreground alpha mask
+async function runSegmentationModel(
+  model: any,
+  modelType: SegmentationModel,
+  imageData: ImageData,
+  threshold: number,
+): Promise<Mask> {
+  const { width, height } = imageData
+
+  if (modelType === "bodypix") {
+    const segmentation = await (model as bodyPix.BodyPix).segmentPerson(imageData, {
+      flipHorizontal: false,
+      internalResolution: performanceConfig.precision === "high" ? "high" : "medium",
+      segmentationThreshold: threshold,
+    })
+    return new Mask(segmentation.width, segmentation.height, Float32Array.from(segmentation.data))
+  } else if (modelType === "deeplab") {
+    // The segmentation map is an RGBA color per class; black is the background class
+    const segmentation = await (model as deeplab.SemanticSegmentation).segment(imageData)
+    const colors = segmentation.segmentationMap
+    const mask = new Mask(segmentation.width, segmentation.height)
+    for (let i = 0; i < mask.data.length; i++) {
+      mask.data[i] = colors[i * 4] || colors[i * 4 + 1] || colors[i * 4 + 2] ? 1 : 0
     }
+    return mask
+  }
 
-    // Put the mask on the canvas
-    maskCtx.putImageData(mask, 0, 0)
-
-    // Clear the original canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-    // Draw the original image
-    ctx.drawImage(img, 0, 0)
-
-    // Set composite operation to use the mask
-    ctx.globalCompositeOperation = "destination-in"
-
-    // Draw the mask
-    ctx.drawImage(maskCanvas, 0, 0)
-
-    // Reset composite operation
-    ctx.globalCompositeOperation = "source-over"
-
-    // If we want a white background instead of transparency
-    if (backgroundColor.a > 0) {
-      // Create a new canvas for the final image with background
-      const finalCanvas = document.createElement("canvas")
-      finalCanvas.width = canvas.width
-      finalCanvas.height = canvas.height
-      const finalCtx = finalCanvas.getContext("2d")
-
-      if (!finalCtx) {
-        throw new Error("Could not get final canvas context")
-      }
-
-      // Fill with background color
-      finalCtx.fillStyle = `rgba(${backgroundColor.r}, ${backgroundColor.g}, ${backgroundColor.b}, ${backgroundColor.a})`
-      finalCtx.fillRect(0, 0, finalCanvas.width, finalCanvas.height)
-
-      // Draw the foreground image
-      finalCtx.drawImage(canvas, 0, 0)
-
-      progressCallback?.(1.0, "Background removal complete")
-
-      // Return the data URL of the final canvas
-      return finalCanvas.toDataURL("image/png")
-    }
+  // MobileNet doesn't do segmentation directly, so we'll use it for classification
+  // and then use a simple threshold-based approach for segmentation
+  await (model as mobilenet.MobileNet).classify(imageData)
 
-    progressCallback?.(1.0, "Background removal complete")
+  // Get edge pixels
+  const edgePixels = []
+  for (let x = 0; x < width; x++) {
+    edgePixels.push(imageData.data[(0 * width + x) * 4])
+    edgePixels.push(imageData.data[((height - 1) * width + x) * 4])
+  }
+  for (let y = 0; y < height; y++) {
+    edgePixels.push(imageData.data[(y * width + 0) * 4])
+    edgePixels.push(imageData.data[(y * width + (width - 1)) * 4])
+  }
 
-    // Return the data URL of the canvas
-    return canvas.toDataURL("image/png")
-  } catch (error) {
-    console.error("Error removing background:", error)
-    throw new Error("Failed to remove background from image")
+  // Calculate average edge color
+  const avgEdgeColor = edgePixels.reduce((sum, val) => sum + val, 0) / edgePixels.length
+
+  // Create mask based on difference from edge color
+  const mask = new Mask(width, height)
+  for (let i = 0; i < width * height; i++) {
+    const r = imageData.data[i * 4]
+    const g = imageData.data[i * 4 + 1]
+    const b = imageData.data[i * 4 + 2]
+    const colorDiff = Math.abs(r - avgEdgeColor) + Math.abs(g - avgEdgeColor) + Math.abs(b - avgEdgeColor)
+    mask.data[i] = colorDiff > threshold * 255 ? 1 : 0
   }
+
+  return mask
 }
 
-// Function to auto-crop an image to focus on the main subject
-export async function autoCropImage(
-  imageUrl: string,
+// Segment an image into a foreground alpha mask with the given model. Shared by background
+// removal, cropping, replacement and try-on; results are cached by image content.
+export async function segment(
+  img: SegmentationSource,
+  modelType: SegmentationModel = "bodypix",
   options: {
-    modelType?: SegmentationModel
-    padding?: number
+    threshold?: number
+    upsample?: boolean // False returns the model-resolution mask, for callers that only need a preview
     progressCallback?: (progress: number, message: string) => void
   } = {},
-): Promise<string> {
-  const { modelType = "bodypix", padding = 0.1, progressCallback } = options
-
-  try {
+): Promise<Mask> {
+  const { threshold = 0.7, upsample = true, progressCallback } = options
+
+  // Photos larger than a tile are segmented scaled down, so the model's input fits in a GPU
+  // texture; the cache keeps that low-resolution mask and it is upsampled on every use
+  progressCallback?.(0.05, "Processing image...")
+  const tileSize = getProcessingTileSize()
+  const imageData = getScaledImageData(img, tileSize)
+  const cacheKey = [
+    await hashImageData(imageData),
+    `${img.width}x${img.height}`,
+    modelType,
+    threshold,
+    performanceConfig.precision,
+  ].join(":")
+
+  let mask = maskCache.get(cacheKey)
+  if (mask) {
+    // Move to the end so the least recently used mask is evicted first
+    maskCache.delete(cacheKey)
+    maskCache.set(cacheKey, mask)
+    progressCallback?.(0.7, "Using cached segmentation...")
+  } else {
     // Initialize TensorFlow if not already done
     progressCallback?.(0.1, "Initializing TensorFlow.js...")
     await initTensorFlow()
@@ -386,147 +404,200 @@ export async function autoCropImage(
     progressCallback?.(0.2, `Loading ${modelType} model...`)
     const model = await loadModel(modelType, progressCallback)
 
-    // Create an image element from the URL
-    progressCallback?.(0.5, "Processing image...")
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-
-    // Wait for the image to load
-    await new Promise((resolve, reject) => {
-      img.onload = resolve
-      img.onerror = reject
-      img.src = imageUrl
-    })
-
     // Run segmentation based on the model type
     progressCallback?.(0.7, "Running segmentation...")
-    let segmentation: any
+    mask = await runSegmentationModel(model, modelType, imageData, threshold)
 
-    if (modelType === "bodypix") {
-      segmentation = await (model as bodyPix.BodyPix).segmentPerson(img, {
-        flipHorizontal: false,
-        internalResolution: performanceConfig.precision === "high" ? "high" : "medium",
-        segmentationThreshold: 0.7,
-      })
-    } else if (modelType === "deeplab") {
-      segmentation = await (model as deeplab.SemanticSegmentation).segment(img)
-
-      // Convert DeepLab segmentation to a format we can use
-      const width = segmentation.width
-      const height = segmentation.height
-      const mask = new Uint8Array(width * height)
-
-      for (let i = 0; i < height; i++) {
-        for (let j = 0; j < width; j++) {
-          const n = i * width + j
-          mask[n] = segmentation.segmentationMap[n] !== 0 ? 1 : 0 // 0 is background
-        }
-      }
+    maskCache.set(cacheKey, mask)
+    if (maskCache.size > MASK_CACHE_SIZE) {
+      maskCache.delete(maskCache.keys().next().value as string)
+    }
+  }
 
-      segmentation = { width, height, data: mask }
-    } else if (modelType === "mobilenet") {
-      // Similar approach as in removeBackground for MobileNet
-      const predictions = await (model as mobilenet.MobileNet).classify(img)
+  if (upsample && (mask.width !== img.width || mask.height !== img.height)) {
+    progressCallback?.(0.72, "Upsampling mask to full resolution...")
+    mask = upsampleMask(mask, img, tileSize)
+  }
 
-      const canvas = document.createElement("canvas")
-      canvas.width = img.width
-      canvas.height = img.height
-      const ctx = canvas.getContext("2d")
-      if (!ctx) throw new Error("Could not get canvas context")
+  return mask
+}
 
-      ctx.drawImage(img, 0, 0)
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+export interface RemoveBackgroundOptions {
+  modelType?: SegmentationModel
+  edgeBlur?: number // Feather radius in pixels
+  backgroundColor?: { r: number; g: number; b: number; a: number } // a = 0 keeps the background transparent
+  threshold?: number
+  mask?: Mask // Hand-edited mask to use instead of running segmentation
+  progressCallback?: (progress: number, message: string) => void
+}
 
-      const mask = new Uint8Array(img.width * img.height)
+// Background removal on an already decoded image; runs unchanged on the main thread or in the worker
+export async function removeBackgroundFromImage(
+  img: SegmentationSource,
+  options: RemoveBackgroundOptions = {},
+): Promise<CanvasLike> {
+  const {
+    modelType = "bodypix",
+    edgeBlur = 3,
+    backgroundColor = { r: 255, g: 255, b: 255, a: 1 }, // White
+    threshold = 0.7,
+    progressCallback,
+  } = options
 
-      const edgePixels = []
-      for (let x = 0; x < img.width; x++) {
-        edgePixels.push(imageData.data[(0 * img.width + x) * 4])
-        edgePixels.push(imageData.data[((img.height - 1) * img.width + x) * 4])
-      }
-      for (let y = 0; y < img.height; y++) {
-        edgePixels.push(imageData.data[(y * img.width + 0) * 4])
-        edgePixels.push(imageData.data[(y * img.width + (img.width - 1)) * 4])
-      }
+  const { width, height } = img
+  const tileSize = getProcessingTileSize()
+  let mask = options.mask || (await segment(img, modelType, { threshold, progressCallback }))
 
-      const avgEdgeColor = edgePixels.reduce((sum, val) => sum + val, 0) / edgePixels.length
+  // Edited masks may have been painted on a smaller preview
+  if (mask.width !== width || mask.height !== height) {
+    const source = mask
+    mask = buildMaskInTiles(width, height, tileSize, 0, (region) => resampleMask(source, region, width, height))
+  }
 
-      for (let i = 0; i < img.width * img.height; i++) {
-        const r = imageData.data[i * 4]
-        const g = imageData.data[i * 4 + 1]
-        const b = imageData.data[i * 4 + 2]
-        const colorDiff = Math.abs(r - avgEdgeColor) + Math.abs(g - avgEdgeColor) + Math.abs(b - avgEdgeColor)
-        mask[i] = colorDiff > 0.7 * 255 ? 1 : 0
-      }
+  // Soften the binary edge: a plain feather, or a matte that follows hair and fabric detail.
+  // Edited masks already have the edges the user painted. Both run per tile, with enough
+  // overlap that the tiles match a single full-size pass.
+  const source = mask
+  if (options.mask) {
+    progressCallback?.(0.7, "Using edited mask...")
+  } else if (performanceConfig.edgeRefinement === "matting") {
+    progressCallback?.(0.75, "Refining edges with alpha matting...")
+    const matting = getMattingDefaults(width, height)
+    mask = buildMaskInTiles(width, height, tileSize, matting.bandWidth + 2 * matting.radius, (region) =>
+      refineAlphaMatte(source.crop(region), getSourceImageData(img, region), matting),
+    )
+  } else {
+    mask = buildMaskInTiles(width, height, tileSize, 2 * Math.round(edgeBlur), (region) =>
+      source.crop(region).feather(edgeBlur),
+    )
+  }
 
-      segmentation = { width: img.width, height: img.height, data: mask }
-    }
+  progressCallback?.(0.8, "Creating masked image...")
+  const canvas = createCanvas(width, height)
+  const ctx = getCanvasContext(canvas)
 
-    // Find the bounding box of the person/object
-    progressCallback?.(0.8, "Calculating crop dimensions...")
-    const width = segmentation.width
-    const height = segmentation.height
-    const mask = segmentation.data || segmentation.segmentationMap
-
-    let minX = width
-    let minY = height
-    let maxX = 0
-    let maxY = 0
-
-    // Find the bounds of the person/object in the mask
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const i = y * width + x
-        if (mask && mask[i] === 1) {
-          minX = Math.min(minX, x)
-          minY = Math.min(minY, y)
-          maxX = Math.max(maxX, x)
-          maxY = Math.max(maxY, y)
-        }
-      }
-    }
+  // If we want a solid background instead of transparency
+  if (backgroundColor.a > 0) {
+    ctx.fillStyle = `rgba(${backgroundColor.r}, ${backgroundColor.g}, ${backgroundColor.b}, ${backgroundColor.a})`
+    ctx.fillRect(0, 0, width, height)
+  }
 
-    // Add padding (percentage of the dimensions)
-    const paddingX = Math.floor((maxX - minX) * padding)
-    const paddingY = Math.floor((maxY - minY) * padding)
+  // Cut out one tile at a time, so the alpha matte never needs a full-size canvas of its own
+  for (const { inner } of getTiles(width, height, tileSize)) {
+    const tileCanvas = createCanvas(inner.width, inner.height)
+    const tileCtx = getCanvasContext(tileCanvas, "tile canvas")
+    tileCtx.putImageData(mask.crop(inner).toImageData(), 0, 0)
+    tileCtx.globalCompositeOperation = "source-in"
+    tileCtx.drawImage(img, inner.x, inner.y, inner.width, inner.height, 0, 0, inner.width, inner.height)
+    ctx.drawImage(tileCanvas, inner.x, inner.y)
+  }
 
-    minX = Math.max(0, minX - paddingX)
-    minY = Math.max(0, minY - paddingY)
-    maxX = Math.min(width, maxX + paddingX)
-    maxY = Math.min(height, maxY + paddingY)
+  progressCallback?.(1.0, "Background removal complete")
+  return canvas
+}
 
-    // Calculate crop dimensions
-    const cropWidth = maxX - minX
-    const cropHeight = maxY - minY
+// Function to remove background from an image using the specified model. Runs in the
+// segmentation worker when OffscreenCanvas is available, otherwise on the main thread.
+export async function removeBackground(imageUrl: string, options: RemoveBackgroundOptions = {}): Promise<string> {
+  const { progressCallback, ...taskOptions } = options
 
-    // Create a canvas for the cropped image
-    progressCallback?.(0.9, "Creating cropped image...")
-    const canvas = document.createElement("canvas")
-    canvas.width = cropWidth
-    canvas.height = cropHeight
-    const ctx = canvas.getContext("2d")
+  try {
+    return await runSegmentationTask(
+      async () => ({ type: "remove-background", image: await loadImageBitmap(imageUrl), options: taskOptions }),
+      {
+        performanceConfig,
+        progressCallback,
+        fallback: async () =>
+          canvasToDataURL(await removeBackgroundFromImage(await loadSourceImage(imageUrl), options)),
+      },
+    )
+  } catch (error) {
+    console.error("Error removing background:", error)
+    throw toAppError(error, "Failed to remove background from image")
+  }
+}
 
-    if (!ctx) {
-      throw new Error("Could not get canvas context")
-    }
+export interface AutoCropOptions {
+  modelType?: SegmentationModel
+  padding?: number
+  progressCallback?: (progress: number, message: string) => void
+}
+
+// Auto-crop on an already decoded image; runs unchanged on the main thread or in the worker
+export async function autoCropFromImage(img: SegmentationSource, options: AutoCropOptions = {}): Promise<CanvasLike> {
+  const { modelType = "bodypix", padding = 0.1, progressCallback } = options
 
-    // Draw the cropped portion of the image
-    ctx.drawImage(img, minX, minY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight)
+  const mask = await segment(img, modelType, { progressCallback })
 
-    progressCallback?.(1.0, "Auto-crop complete")
+  // Find the bounding box of the person/object; keep the whole image if nothing was found
+  progressCallback?.(0.8, "Calculating crop dimensions...")
+  const box = mask.getBoundingBox() || { x: 0, y: 0, width: mask.width, height: mask.height }
 
-    // Return the data URL of the canvas
-    return canvas.toDataURL("image/png")
+  // Add padding (percentage of the dimensions)
+  const paddingX = Math.floor(box.width * padding)
+  const paddingY = Math.floor(box.height * padding)
+
+  const minX = Math.max(0, box.x - paddingX)
+  const minY = Math.max(0, box.y - paddingY)
+  const maxX = Math.min(mask.width, box.x + box.width + paddingX)
+  const maxY = Math.min(mask.height, box.y + box.height + paddingY)
+
+  // Calculate crop dimensions
+  const cropWidth = maxX - minX
+  const cropHeight = maxY - minY
+
+  // Create a canvas for the cropped image
+  progressCallback?.(0.9, "Creating cropped image...")
+  const canvas = createCanvas(cropWidth, cropHeight)
+  const ctx = getCanvasContext(canvas)
+
+  // Draw the cropped portion of the image
+  ctx.drawImage(img, minX, minY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight)
+
+  progressCallback?.(1.0, "Auto-crop complete")
+  return canvas
+}
+
+// Function to auto-crop an image to focus on the main subject, in the worker when available
+export async function autoCropImage(imageUrl: string, options: AutoCropOptions = {}): Promise<string> {
+  const { progressCallback, ...taskOptions } = options
+
+  try {
+    return await runSegmentationTask(
+      async () => ({ type: "auto-crop", image: await loadImageBitmap(imageUrl), options: taskOptions }),
+      {
+        performanceConfig,
+        progressCallback,
+        fallback: async () => canvasToDataURL(await autoCropFromImage(await loadSourceImage(imageUrl), options)),
+      },
+    )
   } catch (error) {
     console.error("Error auto-cropping image:", error)
-    throw new Error("Failed to auto-crop image")
+    throw toAppError(error, "Failed to auto-crop image")
   }
 }
 
-// Main function to process an image with background removal and/or auto-cropping
+// White balance and exposure normalization; a cheap per-pixel lookup, so it stays on the main thread
+export async function correctImageColors(imageUrl: string, options: ColorCorrectionOptions): Promise<string> {
+  try {
+    const img = await loadSourceImage(imageUrl)
+    const imageData = getSourceImageData(img)
+    const corrected = applyColorCorrection(imageData, computeColorCorrection(imageData, options))
+
+    const canvas = createCanvas(corrected.width, corrected.height)
+    getCanvasContext(canvas).putImageData(corrected, 0, 0)
+    return await canvasToDataURL(canvas)
+  } catch (error) {
+    console.error("Error correcting image colors:", error)
+    throw toAppError(error, "Failed to correct image colors")
+  }
+}
+
+// Main function to process an image with color correction, background removal and/or auto-cropping
 export async function processImage(
   imageUrl: string,
   options: {
+    colorCorrection?: ColorCorrectionOptions
     removeBackground?: boolean
     autoCrop?: boolean
     backgroundColor?: { r: number; g: number; b: number; a: number }
@@ -536,7 +607,8 @@ export async function processImage(
   },
 ): Promise<string> {
   const {
-    removeBackground = false,
+    colorCorrection,
+    removeBackground: shouldRemoveBackground = false,
     autoCrop = false,
     backgroundColor = { r: 255, g: 255, b: 255, a: 1 },
     modelType = "bodypix",
@@ -548,21 +620,30 @@ export async function processImage(
     let processedImageUrl = imageUrl
     let currentProgress = 0
 
+    // Correct colors first so segmentation sees a normalized image
+    if (colorCorrection) {
+      progressCallback?.(currentProgress, "Correcting white balance and exposure...")
+      processedImageUrl = await correctImageColors(processedImageUrl, colorCorrection)
+      currentProgress = 0.1
+    }
+
     // Apply auto-crop if requested
     if (autoCrop) {
+      const cropStart = currentProgress
+      const cropShare = (1 - cropStart) * 0.5
       progressCallback?.(currentProgress, "Starting auto-crop...")
       processedImageUrl = await autoCropImage(processedImageUrl, {
         modelType,
         progressCallback: (progress, message) => {
-          const scaledProgress = currentProgress + progress * 0.5
+          const scaledProgress = cropStart + progress * cropShare
           progressCallback?.(scaledProgress, message)
         },
       })
-      currentProgress = 0.5
+      currentProgress = cropStart + cropShare
     }
 
     // Apply background removal if requested
-    if (removeBackground) {
+    if (shouldRemoveBackground) {
       progressCallback?.(currentProgress, "Starting background removal...")
       processedImageUrl = await removeBackground(processedImageUrl, {
         modelType,
@@ -579,7 +660,106 @@ export async function processImage(
     return processedImageUrl
   } catch (error) {
     console.error("Error processing image:", error)
-    throw new Error("Failed to process image")
+    throw toAppError(error, "Failed to process image")
+  }
+}
+
+// Load an image element from a URL
+export function loadImageElement(imageUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => resolve(img)
+    img.onerror = reject
+    img.src = imageUrl
+  })
+}
+
+// Fit an image into a width x height PNG data URL (letterboxed on a solid fill)
+// so it can be sent to a generation backend as img2img input
+export async function fitImageToSize(
+  imageUrl: string,
+  width: number,
+  height: number,
+  fillColor: string = "#FFFFFF",
+): Promise<string> {
+  const img = await loadImageElement(imageUrl)
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+
+  if (!ctx) {
+    throw new CanvasError("Could not get canvas context")
+  }
+
+  ctx.fillStyle = fillColor
+  ctx.fillRect(0, 0, width, height)
+
+  // Scale to fit while maintaining aspect ratio
+  const scale = Math.min(width / img.width, height / img.height)
+  const drawWidth = img.width * scale
+  const drawHeight = img.height * scale
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+
+  return canvas.toDataURL("image/png")
+}
+
+// Build an inpainting mask from the segmentation step: white where the generator
+// may paint (background), black where the product must be kept
+export async function createInpaintingMask(
+  imageUrl: string,
+  options: {
+    width: number
+    height: number
+    modelType?: SegmentationModel
+    threshold?: number
+    progressCallback?: (progress: number, message: string) => void
+  },
+): Promise<string> {
+  const { width, height, modelType = "bodypix", threshold = 0.7, progressCallback } = options
+
+  try {
+    // Cut out the product onto a transparent background so alpha marks the product
+    const cutout = await removeBackground(imageUrl, {
+      modelType,
+      threshold,
+      backgroundColor: { r: 0, g: 0, b: 0, a: 0 },
+      progressCallback: (progress, message) => progressCallback?.(progress * 0.9, message),
+    })
+
+    // Fit it to the output size on a transparent fill, matching fitImageToSize
+    const fitted = await loadImageElement(await fitImageToSize(cutout, width, height, "rgba(0, 0, 0, 0)"))
+
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")
+
+    if (!ctx) {
+      throw new CanvasError("Could not get canvas context")
+    }
+
+    ctx.drawImage(fitted, 0, 0)
+    const imageData = ctx.getImageData(0, 0, width, height)
+    const data = imageData.data
+
+    for (let i = 0; i < data.length; i += 4) {
+      const value = data[i + 3] > 127 ? 0 : 255
+      data[i] = value
+      data[i + 1] = value
+      data[i + 2] = value
+      data[i + 3] = 255
+    }
+
+    ctx.putImageData(imageData, 0, 0)
+    progressCallback?.(1.0, "Inpainting mask ready")
+
+    return canvas.toDataURL("image/png")
+  } catch (error) {
+    console.error("Error creating inpainting mask:", error)
+    throw toAppError(error, "Failed to create inpainting mask")
   }
 }
 
@@ -598,6 +778,10 @@ export function clearModelCache(): void {
   modelCache.bodyPix = undefined
   modelCache.deeplab = undefined
   modelCache.mobilenet = undefined
+  modelCache.superResolution?.dispose()
+  modelCache.superResolution = undefined
+  maskCache.clear()
+  terminateSegmentationWorker() // The worker keeps its own copies of the segmentation models
 }
 
 // Function to check if WebGL is available and get capabilities
@@ -608,8 +792,13 @@ export function checkWebGLCapabilities(): {
   extensions: string[]
 } {
   try {
-    const canvas = document.createElement("canvas")
-    const gl = (canvas.getContext("webgl") || canvas.getContext("experimental-webgl")) as WebGLRenderingContext
+    // Probe through an OffscreenCanvas inside the segmentation worker
+    const canvas = createCanvas(1, 1)
+    const gl = (
+      isOffscreenCanvas(canvas)
+        ? canvas.getContext("webgl")
+        : canvas.getContext("webgl") || canvas.getContext("experimental-webgl")
+    ) as WebGLRenderingContext
 
     if (!gl) {
       return {
@@ -620,7 +809,9 @@ export function checkWebGLCapabilities(): {
       }
     }
 
-    const webGL2 = canvas.getContext("webgl2") !== null
+    // A canvas that already holds a WebGL 1 context never hands out a WebGL2 one, so probe a fresh canvas
+    const webGL2Canvas: { getContext(contextId: "webgl2"): WebGL2RenderingContext | null } = createCanvas(1, 1)
+    const webGL2 = webGL2Canvas.getContext("webgl2") !== null
     const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE)
     const extensions = gl.getSupportedExtensions() || []
 
@@ -0,0 +1,301 @@
+import { createCanvas, getCanvasContext, loadImageElement, segment, type SegmentationModel } from "./image-processing"
+import { toAppError } from "./errors"
+import type { Mask } from "./mask"
+import { resampleMask } from "./tiling"
+
+export type QualityCheck = "blur" | "resolution" | "highlights" | "shadows" | "blockiness" | "subject-edge"
+
+export interface QualityIssue {
+  check: QualityCheck
+  severity: "error" | "warning"
+  message: string
+}
+
+// What the analyzer measured, and which limits the image misses. "poor" images have at least one
+// error and can be kept out of batch processing.
+export interface QualityReport {
+  level: "good" | "fair" | "poor"
+  width: number
+  height: number
+  blurScore: number // Variance of the Laplacian over the subject at a fixed size; lower is blurrier
+  highlightClipping: number // Share of subject pixels that are blown out
+  shadowClipping: number // Share of subject pixels that are crushed to black
+  blockiness: number // Edge strength on the 8px JPEG grid relative to inside blocks; ~1 for clean images
+  subjectTouchesEdge: boolean | null // Null when the subject couldn't be found
+  issues: QualityIssue[]
+}
+
+export interface QualityThresholds {
+  minBlurScore: number
+  minDimension: number // Shorter side in px
+  maxClipping: number
+  maxBlockiness: number
+}
+
+export const defaultQualityThresholds: QualityThresholds = {
+  minBlurScore: 100,
+  minDimension: 800,
+  maxClipping: 0.05,
+  maxBlockiness: 1.4,
+}
+
+export interface CheckImageQualityOptions {
+  modelType?: SegmentationModel
+  thresholds?: Partial<QualityThresholds>
+  checkSubject?: boolean // Segment the image to find the subject; the mask is cached for later processing
+}
+
+// Pixels the analyzer looks at: the subject (or whole image) scaled to a fixed size for sharpness,
+// a full-resolution crop for compression artifacts, a downscaled overview for tones, and
+// optionally the subject mask at the overview's size
+export interface QualitySample {
+  width: number
+  height: number
+  sharpness: ImageData
+  detail: ImageData
+  overview: ImageData
+  subject?: Mask
+}
+
+// Longest side sharpness is measured at, so scores compare across resolutions and a smooth
+// seamless background around a small product doesn't read as blur
+const SHARPNESS_SIZE = 1024
+// Size of the full-resolution crop used for compression artifacts
+const DETAIL_SIZE = 1024
+// Long edge of the overview used for exposure and subject placement
+const OVERVIEW_SIZE = 512
+// Luminance at or beyond which a pixel counts as clipped
+const HIGHLIGHT_LEVEL = 250
+const SHADOW_LEVEL = 5
+
+function getLuminance(imageData: ImageData): Float32Array {
+  const { data } = imageData
+  const luminance = new Float32Array(imageData.width * imageData.height)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return luminance
+}
+
+// Variance of the 4-neighbour Laplacian; sharp images have strong, varied second derivatives
+function getBlurScore(luminance: Float32Array, width: number, height: number): number {
+  let sum = 0
+  let sumSquared = 0
+  let count = 0
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const laplacian =
+        luminance[i - 1] + luminance[i + 1] + luminance[i - width] + luminance[i + width] - 4 * luminance[i]
+      sum += laplacian
+      sumSquared += laplacian * laplacian
+      count++
+    }
+  }
+
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSquared / count - mean * mean
+}
+
+// Mean step across the 8px block boundaries divided by the mean step inside blocks. The crop must
+// start on the image's 8px grid.
+function getBlockiness(luminance: Float32Array, width: number, height: number): number {
+  let boundary = 0
+  let boundaryCount = 0
+  let inside = 0
+  let insideCount = 0
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const i = y * width + x
+      const horizontal = Math.abs(luminance[i] - luminance[i - 1])
+      if (x % 8 === 0) {
+        boundary += horizontal
+        boundaryCount++
+      } else {
+        inside += horizontal
+        insideCount++
+      }
+
+      if (y === 0) continue
+      const vertical = Math.abs(luminance[i] - luminance[i - width])
+      if (y % 8 === 0) {
+        boundary += vertical
+        boundaryCount++
+      } else {
+        inside += vertical
+        insideCount++
+      }
+    }
+  }
+
+  if (boundaryCount === 0 || inside === 0) return 1
+  return boundary / boundaryCount / (inside / insideCount)
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+// Score a sampled image against the thresholds; pure, so it can run anywhere
+export function analyzeImageQuality(
+  sample: QualitySample,
+  thresholds: QualityThresholds = defaultQualityThresholds,
+): QualityReport {
+  const { width, height, sharpness, detail, overview, subject } = sample
+  const issues: QualityIssue[] = []
+
+  const blurScore = getBlurScore(getLuminance(sharpness), sharpness.width, sharpness.height)
+  const blockiness = getBlockiness(getLuminance(detail), detail.width, detail.height)
+
+  // Exposure is judged on the subject when it was found, so a white studio background isn't "blown out"
+  const box = subject?.getBoundingBox() ?? null
+  const subjectMask = box ? subject : undefined
+  const overviewLuminance = getLuminance(overview)
+  let highlights = 0
+  let shadows = 0
+  let counted = 0
+  for (let i = 0; i < overviewLuminance.length; i++) {
+    if (subjectMask && subjectMask.data[i] <= 0.5) continue
+    if (overviewLuminance[i] >= HIGHLIGHT_LEVEL) highlights++
+    if (overviewLuminance[i] <= SHADOW_LEVEL) shadows++
+    counted++
+  }
+  const highlightClipping = counted > 0 ? highlights / counted : 0
+  const shadowClipping = counted > 0 ? shadows / counted : 0
+
+  const subjectTouchesEdge = box
+    ? box.x <= 0 || box.y <= 0 || box.x + box.width >= overview.width || box.y + box.height >= overview.height
+    : null
+
+  if (blurScore < thresholds.minBlurScore) {
+    issues.push({
+      check: "blur",
+      severity: "error",
+      message: `The image looks blurry (sharpness ${Math.round(blurScore)}, needs ${thresholds.minBlurScore})`,
+    })
+  }
+
+  if (Math.min(width, height) < thresholds.minDimension) {
+    issues.push({
+      check: "resolution",
+      severity: "error",
+      message: `${width}×${height}px is below the ${thresholds.minDimension}px minimum on the shorter side`,
+    })
+  }
+
+  if (highlightClipping > thresholds.maxClipping) {
+    issues.push({
+      check: "highlights",
+      severity: "warning",
+      message: `${percent(highlightClipping)} of the product is blown out to white`,
+    })
+  }
+
+  if (shadowClipping > thresholds.maxClipping) {
+    issues.push({
+      check: "shadows",
+      severity: "warning",
+      message: `${percent(shadowClipping)} of the product is crushed to black`,
+    })
+  }
+
+  if (blockiness > thresholds.maxBlockiness) {
+    issues.push({
+      check: "blockiness",
+      severity: "warning",
+      message: "Visible JPEG compression blocks; use a higher-quality export if possible",
+    })
+  }
+
+  if (subjectTouchesEdge) {
+    issues.push({
+      check: "subject-edge",
+      severity: "warning",
+      message: "The product touches the edge of the frame and may be cut off",
+    })
+  }
+
+  return {
+    level: issues.some((issue) => issue.severity === "error") ? "poor" : issues.length > 0 ? "fair" : "good",
+    width,
+    height,
+    blurScore,
+    highlightClipping,
+    shadowClipping,
+    blockiness,
+    subjectTouchesEdge,
+    issues,
+  }
+}
+
+// Sample an image and check its quality. The subject check runs segmentation; when that fails
+// the check is skipped rather than failing the whole report.
+export async function checkImageQuality(
+  imageUrl: string,
+  options: CheckImageQualityOptions = {},
+): Promise<QualityReport> {
+  const { modelType = "bodypix", checkSubject = true } = options
+  const thresholds = { ...defaultQualityThresholds, ...options.thresholds }
+
+  try {
+    const img = await loadImageElement(imageUrl)
+    const { width, height } = img
+
+    // Centered crop at full resolution, aligned to the 8px grid JPEG blocks start on
+    const detailWidth = Math.min(width, DETAIL_SIZE)
+    const detailHeight = Math.min(height, DETAIL_SIZE)
+    const detailX = Math.floor((width - detailWidth) / 16) * 8
+    const detailY = Math.floor((height - detailHeight) / 16) * 8
+    const detailCanvas = createCanvas(detailWidth, detailHeight)
+    const detailCtx = getCanvasContext(detailCanvas)
+    detailCtx.drawImage(img, detailX, detailY, detailWidth, detailHeight, 0, 0, detailWidth, detailHeight)
+
+    const scale = Math.min(1, OVERVIEW_SIZE / Math.max(width, height))
+    const overviewWidth = Math.max(1, Math.round(width * scale))
+    const overviewHeight = Math.max(1, Math.round(height * scale))
+    const overviewCanvas = createCanvas(overviewWidth, overviewHeight)
+    const overviewCtx = getCanvasContext(overviewCanvas)
+    overviewCtx.drawImage(img, 0, 0, overviewWidth, overviewHeight)
+
+    let subject: Mask | undefined
+    if (checkSubject) {
+      try {
+        // The model-resolution mask from the shared cache is plenty for a 512px check, so skip upsampling
+        const mask = await segment(img, modelType, { upsample: false })
+        const overview = { x: 0, y: 0, width: overviewWidth, height: overviewHeight }
+        subject = resampleMask(mask, overview, overviewWidth, overviewHeight)
+      } catch (error) {
+        console.error("Subject check skipped:", error)
+      }
+    }
+
+    // The subject's box in the photo, scaled down to the working size
+    const box = subject?.getBoundingBox() ?? { x: 0, y: 0, width: overviewWidth, height: overviewHeight }
+    const boxX = Math.floor(box.x / scale)
+    const boxY = Math.floor(box.y / scale)
+    const boxWidth = Math.max(1, Math.min(width - boxX, Math.ceil(box.width / scale)))
+    const boxHeight = Math.max(1, Math.min(height - boxY, Math.ceil(box.height / scale)))
+    const sharpnessScale = Math.min(1, SHARPNESS_SIZE / Math.max(boxWidth, boxHeight))
+    const sharpnessWidth = Math.max(1, Math.round(boxWidth * sharpnessScale))
+    const sharpnessHeight = Math.max(1, Math.round(boxHeight * sharpnessScale))
+    const sharpnessCanvas = createCanvas(sharpnessWidth, sharpnessHeight)
+    const sharpnessCtx = getCanvasContext(sharpnessCanvas)
+    sharpnessCtx.drawImage(img, boxX, boxY, boxWidth, boxHeight, 0, 0, sharpnessWidth, sharpnessHeight)
+
+    return analyzeImageQuality(
+      {
+        width,
+        height,
+        sharpness: sharpnessCtx.getImageData(0, 0, sharpnessWidth, sharpnessHeight),
+        detail: detailCtx.getImageData(0, 0, detailWidth, detailHeight),
+        overview: overviewCtx.getImageData(0, 0, overviewWidth, overviewHeight),
+        subject,
+      },
+      thresholds,
+    )
+  } catch (error) {
+    console.error("Error checking image quality:", error)
+    throw toAppError(error, "Failed to check image quality")
+  }
+}
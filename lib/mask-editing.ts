@@ -0,0 +1,133 @@
+import type { Mask, MaskBoundingBox } from "./mask"
+
+export type MaskBrushMode = "add" | "erase"
+
+// Paint one round brush dab into the mask in place. Hardness is the fraction of the radius
+// painted at full strength; the rest falls off linearly. Returns the region that changed.
+export function paintMaskDab(
+  mask: Mask,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  hardness: number,
+  mode: MaskBrushMode,
+): MaskBoundingBox | null {
+  const x0 = Math.max(0, Math.floor(centerX - radius))
+  const y0 = Math.max(0, Math.floor(centerY - radius))
+  const x1 = Math.min(mask.width - 1, Math.ceil(centerX + radius))
+  const y1 = Math.min(mask.height - 1, Math.ceil(centerY + radius))
+  if (x0 > x1 || y0 > y1) return null
+
+  const solidRadius = radius * Math.min(1, Math.max(0, hardness))
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const distance = Math.hypot(x - centerX, y - centerY)
+      if (distance > radius) continue
+
+      const strength = distance <= solidRadius ? 1 : 1 - (distance - solidRadius) / (radius - solidRadius)
+      const i = y * mask.width + x
+      mask.data[i] = mode === "add" ? Math.max(mask.data[i], strength) : Math.min(mask.data[i], 1 - strength)
+    }
+  }
+
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 }
+}
+
+// Paint dabs along a segment so fast strokes don't leave gaps
+export function paintMaskStroke(
+  mask: Mask,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  radius: number,
+  hardness: number,
+  mode: MaskBrushMode,
+): MaskBoundingBox | null {
+  const spacing = Math.max(1, radius / 4)
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing))
+  let dirty: MaskBoundingBox | null = null
+
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps
+    const box = paintMaskDab(mask, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, radius, hardness, mode)
+    dirty = unionBoxes(dirty, box)
+  }
+
+  return dirty
+}
+
+function unionBoxes(a: MaskBoundingBox | null, b: MaskBoundingBox | null): MaskBoundingBox | null {
+  if (!a) return b
+  if (!b) return a
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  }
+}
+
+// Magic wand: flood fill from a pixel across neighbours whose color is within `tolerance`
+// (0-255, max channel difference) of the seed color, then set those pixels in the mask
+export function magicWandFill(
+  mask: Mask,
+  imageData: ImageData,
+  seedX: number,
+  seedY: number,
+  tolerance: number,
+  mode: MaskBrushMode,
+): MaskBoundingBox | null {
+  const { width, height, data } = imageData
+  const startX = Math.floor(seedX)
+  const startY = Math.floor(seedY)
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return null
+
+  const seed = (startY * width + startX) * 4
+  const [seedR, seedG, seedB] = [data[seed], data[seed + 1], data[seed + 2]]
+  const value = mode === "add" ? 1 : 0
+
+  const visited = new Uint8Array(width * height)
+  const stack = [startY * width + startX]
+  visited[stack[0]] = 1
+
+  let minX = startX
+  let minY = startY
+  let maxX = startX
+  let maxY = startY
+
+  while (stack.length > 0) {
+    const i = stack.pop() as number
+    const x = i % width
+    const y = (i - x) / width
+
+    mask.data[i] = value
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+
+    for (const [nx, ny] of [
+      [x - 1, y],
+      [x + 1, y],
+      [x, y - 1],
+      [x, y + 1],
+    ]) {
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+      const n = ny * width + nx
+      if (visited[n]) continue
+      visited[n] = 1
+
+      const p = n * 4
+      const difference = Math.max(
+        Math.abs(data[p] - seedR),
+        Math.abs(data[p + 1] - seedG),
+        Math.abs(data[p + 2] - seedB),
+      )
+      if (difference <= tolerance) stack.push(n)
+    }
+  }
+
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
@@ -0,0 +1,213 @@
+// Color used when rendering a mask; alpha is 0-1 like the other color options
+export interface MaskColor {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+export interface MaskBoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Columns filtered together in `separablePass`
+const COLUMN_BLOCK = 64
+
+// Filter for one row or column: writes the result for each sample's window of `radius` either side
+type LineFilter = (line: Float32Array, length: number, radius: number, out: Float32Array) => void
+
+// Separable sliding-window pass over rows then columns. The line filters run in constant time per
+// sample, so wide radii on full-resolution masks stay cheap.
+function separablePass(
+  source: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  createFilter: (size: number, radius: number) => LineFilter,
+): Float32Array {
+  const size = Math.max(width, height)
+  const filter = createFilter(size, radius)
+  const out = new Float32Array(size)
+
+  const horizontal = new Float32Array(source.length)
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    filter(source.subarray(row, row + width), width, radius, out)
+    horizontal.set(out.subarray(0, width), row)
+  }
+
+  // Columns are copied out a block at a time so memory is still read along rows
+  const result = new Float32Array(source.length)
+  const columns = new Float32Array(COLUMN_BLOCK * height)
+  for (let x0 = 0; x0 < width; x0 += COLUMN_BLOCK) {
+    const blockWidth = Math.min(COLUMN_BLOCK, width - x0)
+    for (let y = 0; y < height; y++) {
+      for (let k = 0; k < blockWidth; k++) columns[k * height + y] = horizontal[y * width + x0 + k]
+    }
+    for (let k = 0; k < blockWidth; k++) {
+      filter(columns.subarray(k * height, (k + 1) * height), height, radius, out)
+      columns.set(out.subarray(0, height), k * height)
+    }
+    for (let y = 0; y < height; y++) {
+      for (let k = 0; k < blockWidth; k++) result[y * width + x0 + k] = columns[k * height + y]
+    }
+  }
+  return result
+}
+
+// Running max or min (van Herk/Gil-Werman): extrema of blocks of the window's size, accumulated
+// forwards and backwards, give each window's extremum from two lookups. Outside the line counts as
+// `identity`, so windows are clipped at the edges.
+function createExtremumFilter(isMax: boolean, identity: number) {
+  return (size: number, radius: number): LineFilter => {
+    const window = 2 * radius + 1
+    const padded = new Float32Array(size + 2 * radius)
+    const forward = new Float32Array(padded.length)
+    const backward = new Float32Array(padded.length)
+    const pick = (a: number, b: number) => (isMax ? (a > b ? a : b) : a < b ? a : b)
+
+    return (line, length, r, out) => {
+      const paddedLength = length + 2 * r
+      padded.fill(identity, 0, paddedLength)
+      padded.set(line.subarray(0, length), r)
+
+      for (let start = 0; start < paddedLength; start += window) {
+        const end = Math.min(start + window, paddedLength) - 1
+        forward[start] = padded[start]
+        for (let j = start + 1; j <= end; j++) forward[j] = pick(forward[j - 1], padded[j])
+        backward[end] = padded[end]
+        for (let j = end - 1; j >= start; j--) backward[j] = pick(backward[j + 1], padded[j])
+      }
+      for (let i = 0; i < length; i++) out[i] = pick(backward[i], forward[i + window - 1])
+    }
+  }
+}
+
+const maxFilter = createExtremumFilter(true, 0)
+const minFilter = createExtremumFilter(false, 1)
+
+// Mean over the clipped window from running sums
+function meanFilter(size: number): LineFilter {
+  const sums = new Float64Array(size + 1)
+  return (line, length, radius, out) => {
+    for (let i = 0; i < length; i++) sums[i + 1] = sums[i] + line[i]
+    for (let i = 0; i < length; i++) {
+      const start = Math.max(0, i - radius)
+      const end = Math.min(length - 1, i + radius)
+      out[i] = (sums[end + 1] - sums[start]) / (end - start + 1)
+    }
+  }
+}
+
+// Per-pixel foreground alpha in 0-1, as produced by `segment`. Operations return new masks,
+// so a cached mask can be shared safely.
+export class Mask {
+  readonly width: number
+  readonly height: number
+  readonly data: Float32Array
+
+  constructor(width: number, height: number, data: Float32Array = new Float32Array(width * height)) {
+    this.width = width
+    this.height = height
+    this.data = data
+  }
+
+  // Rebuild a mask from its fields, e.g. after it was structured-cloned to or from a worker
+  static from(value: { width: number; height: number; data: Float32Array }): Mask {
+    return new Mask(value.width, value.height, value.data)
+  }
+
+  // Read a mask back from the alpha channel of a cutout
+  static fromAlpha(imageData: ImageData): Mask {
+    const mask = new Mask(imageData.width, imageData.height)
+    for (let i = 0; i < mask.data.length; i++) {
+      mask.data[i] = imageData.data[i * 4 + 3] / 255
+    }
+    return mask
+  }
+
+  clone(): Mask {
+    return new Mask(this.width, this.height, this.data.slice())
+  }
+
+  // Smallest box containing every pixel above the threshold, or null for an empty mask
+  getBoundingBox(threshold = 0.5): MaskBoundingBox | null {
+    let minX = this.width
+    let minY = this.height
+    let maxX = -1
+    let maxY = -1
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (this.data[y * this.width + x] > threshold) {
+          minX = Math.min(minX, x)
+          minY = Math.min(minY, y)
+          maxX = Math.max(maxX, x)
+          maxY = Math.max(maxY, y)
+        }
+      }
+    }
+
+    if (maxX < 0) return null
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+  }
+
+  // Soften the edge; two box blurs approximate a Gaussian of the same radius
+  feather(radius: number): Mask {
+    const r = Math.round(radius)
+    if (r <= 0) return this
+    const once = separablePass(this.data, this.width, this.height, r, meanFilter)
+    return new Mask(this.width, this.height, separablePass(once, this.width, this.height, r, meanFilter))
+  }
+
+  // Grow the foreground by `radius` pixels
+  dilate(radius: number): Mask {
+    const r = Math.round(radius)
+    if (r <= 0) return this
+    return new Mask(this.width, this.height, separablePass(this.data, this.width, this.height, r, maxFilter))
+  }
+
+  // Shrink the foreground by `radius` pixels
+  erode(radius: number): Mask {
+    const r = Math.round(radius)
+    if (r <= 0) return this
+    return new Mask(this.width, this.height, separablePass(this.data, this.width, this.height, r, minFilter))
+  }
+
+  // Copy of a rectangular region
+  crop(box: MaskBoundingBox): Mask {
+    const result = new Mask(box.width, box.height)
+    for (let y = 0; y < box.height; y++) {
+      const start = (box.y + y) * this.width + box.x
+      result.data.set(this.data.subarray(start, start + box.width), y * box.width)
+    }
+    return result
+  }
+
+  invert(): Mask {
+    return new Mask(this.width, this.height, this.data.map((value) => 1 - value))
+  }
+
+  // Render as pixels: `foreground` where the mask is 1, `background` where it is 0, blended in between.
+  // The defaults give an alpha matte for "destination-in" compositing.
+  toImageData(
+    foreground: MaskColor = { r: 0, g: 0, b: 0, a: 1 },
+    background: MaskColor = { r: 0, g: 0, b: 0, a: 0 },
+  ): ImageData {
+    const imageData = new ImageData(this.width, this.height)
+    const pixels = imageData.data
+
+    for (let i = 0; i < this.data.length; i++) {
+      const alpha = this.data[i]
+      pixels[i * 4] = background.r + (foreground.r - background.r) * alpha
+      pixels[i * 4 + 1] = background.g + (foreground.g - background.g) * alpha
+      pixels[i * 4 + 2] = background.b + (foreground.b - background.b) * alpha
+      pixels[i * 4 + 3] = (background.a + (foreground.a - background.a) * alpha) * 255
+    }
+
+    return imageData
+  }
+}
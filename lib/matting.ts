@@ -0,0 +1,128 @@
+import { Mask } from "./mask"
+
+// How the edge of a segmentation mask is softened before compositing
+export type EdgeRefinement = "feather" | "matting"
+
+export interface MattingOptions {
+  bandWidth?: number // Half-width of the unknown band around the mask edge, in pixels
+  radius?: number // Guided filter window radius, in pixels
+  epsilon?: number // Guided filter regularization; lower follows image edges more closely
+}
+
+// Trimap from a coarse mask: 1 inside the eroded mask, 0 outside the dilated mask,
+// 0.5 in the band between where the true edge is unknown
+export function createTrimap(mask: Mask, bandWidth: number): Mask {
+  const inside = mask.erode(bandWidth)
+  const outside = mask.dilate(bandWidth)
+  const trimap = new Mask(mask.width, mask.height)
+
+  for (let i = 0; i < trimap.data.length; i++) {
+    trimap.data[i] = inside.data[i] > 0.5 ? 1 : outside.data[i] < 0.5 ? 0 : 0.5
+  }
+
+  return trimap
+}
+
+// Mean over a (2r + 1)² window using a summed-area table, clamped at the borders
+function boxMean(source: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const stride = width + 1
+  const integral = new Float64Array(stride * (height + 1))
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += source[y * width + x]
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum
+    }
+  }
+
+  const result = new Float32Array(source.length)
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius)
+    const y1 = Math.min(height, y + radius + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius)
+      const x1 = Math.min(width, x + radius + 1)
+      const sum =
+        integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0]
+      result[y * width + x] = sum / ((x1 - x0) * (y1 - y0))
+    }
+  }
+
+  return result
+}
+
+// Guided filter (He et al.) with a grayscale guide: smooths `input` while snapping its
+// transitions to edges in `guide`, which is what turns a blocky mask into strands of hair
+function guidedFilter(
+  guide: Float32Array,
+  input: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  epsilon: number,
+): Float32Array {
+  const n = guide.length
+  const guideInput = new Float32Array(n)
+  const guideSquared = new Float32Array(n)
+  for (let i = 0; i < n; i++) {
+    guideInput[i] = guide[i] * input[i]
+    guideSquared[i] = guide[i] * guide[i]
+  }
+
+  const meanGuide = boxMean(guide, width, height, radius)
+  const meanInput = boxMean(input, width, height, radius)
+  const meanGuideInput = boxMean(guideInput, width, height, radius)
+  const meanGuideSquared = boxMean(guideSquared, width, height, radius)
+
+  // Per-window linear model: output = a * guide + b
+  const a = new Float32Array(n)
+  const b = new Float32Array(n)
+  for (let i = 0; i < n; i++) {
+    const covariance = meanGuideInput[i] - meanGuide[i] * meanInput[i]
+    const variance = meanGuideSquared[i] - meanGuide[i] * meanGuide[i]
+    a[i] = covariance / (variance + epsilon)
+    b[i] = meanInput[i] - a[i] * meanGuide[i]
+  }
+
+  const meanA = boxMean(a, width, height, radius)
+  const meanB = boxMean(b, width, height, radius)
+  const output = new Float32Array(n)
+  for (let i = 0; i < n; i++) {
+    output[i] = meanA[i] * guide[i] + meanB[i]
+  }
+
+  return output
+}
+
+// Band and filter radius for an image of this size. Tiled callers pass the full image's size
+// so every tile refines the same way.
+export function getMattingDefaults(width: number, height: number): { bandWidth: number; radius: number } {
+  const scale = Math.max(1, Math.round(Math.min(width, height) / 200))
+  return { bandWidth: 4 * scale, radius: 4 * scale }
+}
+
+// Refine a coarse segmentation mask into a soft alpha matte for hair, fur, lace and tulle.
+// Pixels the trimap marks as certain keep their value; the unknown band takes the guided filter result.
+export function refineAlphaMatte(mask: Mask, imageData: ImageData, options: MattingOptions = {}): Mask {
+  const { width, height } = mask
+  const defaults = getMattingDefaults(width, height)
+  const { bandWidth = defaults.bandWidth, radius = defaults.radius, epsilon = 1e-3 } = options
+
+  // Luminance guide in 0-1
+  const guide = new Float32Array(width * height)
+  for (let i = 0; i < guide.length; i++) {
+    guide[i] =
+      (0.299 * imageData.data[i * 4] + 0.587 * imageData.data[i * 4 + 1] + 0.114 * imageData.data[i * 4 + 2]) / 255
+  }
+
+  const trimap = createTrimap(mask, bandWidth)
+  const filtered = guidedFilter(guide, trimap.data, width, height, radius, epsilon)
+
+  const matte = new Mask(width, height)
+  for (let i = 0; i < matte.data.length; i++) {
+    matte.data[i] = trimap.data[i] === 0.5 ? Math.min(1, Math.max(0, filtered[i])) : trimap.data[i]
+  }
+
+  return matte
+}
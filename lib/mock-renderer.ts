@@ -0,0 +1,250 @@
+import { CanvasError } from "./errors"
+import type { GenerateImageParams } from "./types"
+
+// Everything the mock renderer needs to draw an image
+export interface MockRenderOptions {
+  width: number
+  height: number
+  seed: number
+  prompt: string
+  params?: GenerateImageParams
+  productImage?: string // Processed product image to composite onto the model
+  errorMessage?: string // Shown as a banner when the mock stands in for a failed provider
+}
+
+// Small seeded PRNG (mulberry32) so the same seed always draws the same image
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => resolve(img)
+    img.onerror = reject
+    img.src = src
+  })
+}
+
+// Studio sweep or a simple room, tinted by the seed
+function drawBackground(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  backgroundType: "studio" | "lifestyle",
+  random: () => number,
+) {
+  const hue = Math.floor(random() * 360)
+  const floorY = height * 0.82
+
+  if (backgroundType === "studio") {
+    const sweep = ctx.createLinearGradient(0, 0, 0, height)
+    sweep.addColorStop(0, `hsl(${hue}, 8%, 94%)`)
+    sweep.addColorStop(0.7, `hsl(${hue}, 6%, 84%)`)
+    sweep.addColorStop(1, `hsl(${hue}, 6%, 74%)`)
+    ctx.fillStyle = sweep
+    ctx.fillRect(0, 0, width, height)
+
+    // Soft key light
+    const light = ctx.createRadialGradient(width * 0.5, height * 0.35, 0, width * 0.5, height * 0.35, width * 0.7)
+    light.addColorStop(0, "rgba(255, 255, 255, 0.5)")
+    light.addColorStop(1, "rgba(255, 255, 255, 0)")
+    ctx.fillStyle = light
+    ctx.fillRect(0, 0, width, height)
+    return
+  }
+
+  // Lifestyle: wall, floor, a window and a couple of props
+  ctx.fillStyle = `hsl(${hue}, 25%, 86%)`
+  ctx.fillRect(0, 0, width, floorY)
+  ctx.fillStyle = `hsl(${(hue + 30) % 360}, 20%, 62%)`
+  ctx.fillRect(0, floorY, width, height - floorY)
+
+  const windowX = random() < 0.5 ? width * 0.06 : width * 0.66
+  const windowWidth = width * 0.28
+  const windowHeight = height * 0.4
+  ctx.fillStyle = `hsl(${(hue + 180) % 360}, 45%, 90%)`
+  ctx.fillRect(windowX, height * 0.12, windowWidth, windowHeight)
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.9)"
+  ctx.lineWidth = Math.max(2, width * 0.008)
+  ctx.strokeRect(windowX, height * 0.12, windowWidth, windowHeight)
+  ctx.beginPath()
+  ctx.moveTo(windowX + windowWidth / 2, height * 0.12)
+  ctx.lineTo(windowX + windowWidth / 2, height * 0.12 + windowHeight)
+  ctx.stroke()
+
+  const propCount = 1 + Math.floor(random() * 3)
+  for (let i = 0; i < propCount; i++) {
+    const radius = width * (0.03 + random() * 0.05)
+    const x = random() < 0.5 ? width * (0.05 + random() * 0.2) : width * (0.75 + random() * 0.2)
+    ctx.fillStyle = `hsl(${Math.floor(random() * 360)}, 35%, 55%)`
+    ctx.beginPath()
+    ctx.arc(x, floorY - radius, radius, 0, Math.PI * 2)
+    ctx.fill()
+  }
+}
+
+// Faceless mannequin shaped by the model settings; returns the torso box for the product
+function drawSilhouette(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  params: GenerateImageParams | undefined,
+  random: () => number,
+): { x: number; y: number; width: number; height: number } {
+  const modelSettings = params?.modelSettings
+  const heightScale = modelSettings ? 0.85 + ((modelSettings.height - 60) / 18) * 0.15 : 0.92
+  const build = modelSettings ? 0.8 + (modelSettings.bodyType / 100) * 0.5 : 1
+
+  const figureHeight = height * 0.78 * heightScale
+  const centerX = width * (0.5 + (random() - 0.5) * 0.12)
+  const feetY = height * 0.9
+  const topY = feetY - figureHeight
+  const unit = figureHeight / 8 // Eight-head figure proportions
+
+  const shoulderWidth = unit * 2 * build
+  const hipWidth = unit * (modelSettings?.gender === "male" ? 1.6 : 1.8) * build
+  const neckY = topY + unit
+  const hipY = topY + unit * 4
+
+  // Floor shadow
+  ctx.fillStyle = "rgba(0, 0, 0, 0.15)"
+  ctx.beginPath()
+  ctx.ellipse(centerX, feetY, shoulderWidth * 0.8, unit * 0.18, 0, 0, Math.PI * 2)
+  ctx.fill()
+
+  ctx.fillStyle = "rgba(45, 45, 55, 0.85)"
+
+  // Head and neck
+  ctx.beginPath()
+  ctx.ellipse(centerX, topY + unit * 0.45, unit * 0.34, unit * 0.45, 0, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillRect(centerX - unit * 0.12, topY + unit * 0.8, unit * 0.24, unit * 0.3)
+
+  // Torso
+  ctx.beginPath()
+  ctx.moveTo(centerX - shoulderWidth / 2, neckY + unit * 0.15)
+  ctx.lineTo(centerX + shoulderWidth / 2, neckY + unit * 0.15)
+  ctx.lineTo(centerX + hipWidth / 2, hipY)
+  ctx.lineTo(centerX - hipWidth / 2, hipY)
+  ctx.closePath()
+  ctx.fill()
+
+  // Arms and legs as thick rounded strokes
+  ctx.strokeStyle = "rgba(45, 45, 55, 0.85)"
+  ctx.lineCap = "round"
+  ctx.lineWidth = unit * 0.3 * build
+  const armSwing = (random() - 0.5) * unit * 0.6
+  for (const side of [-1, 1]) {
+    ctx.beginPath()
+    ctx.moveTo(centerX + (side * shoulderWidth) / 2, neckY + unit * 0.3)
+    ctx.lineTo(centerX + side * (shoulderWidth / 2 + unit * 0.25) + armSwing * side, hipY + unit * 0.2)
+    ctx.stroke()
+  }
+
+  ctx.lineWidth = unit * 0.42 * build
+  for (const side of [-1, 1]) {
+    ctx.beginPath()
+    ctx.moveTo(centerX + (side * hipWidth) / 4, hipY)
+    ctx.lineTo(centerX + (side * hipWidth) / 3, feetY - unit * 0.1)
+    ctx.stroke()
+  }
+
+  return {
+    x: centerX - shoulderWidth * 0.65,
+    y: neckY,
+    width: shoulderWidth * 1.3,
+    height: hipY - neckY + unit * 1.5,
+  }
+}
+
+// Draw text in a band, wrapped to a few lines with an ellipsis
+function drawCaption(ctx: CanvasRenderingContext2D, width: number, height: number, text: string, maxLines = 3) {
+  const fontSize = Math.max(11, Math.round(width / 42))
+  const padding = fontSize * 0.8
+  ctx.font = `${fontSize}px sans-serif`
+
+  const lines: string[] = []
+  let line = ""
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (ctx.measureText(candidate).width > width - padding * 2 && line) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/\s+\S*$/, "")}…`
+  }
+
+  const bandHeight = lines.length * fontSize * 1.3 + padding * 2
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)"
+  ctx.fillRect(0, height - bandHeight, width, bandHeight)
+  ctx.fillStyle = "#FFFFFF"
+  ctx.textBaseline = "top"
+  lines.forEach((captionLine, index) => {
+    ctx.fillText(captionLine, padding, height - bandHeight + padding + index * fontSize * 1.3)
+  })
+}
+
+// Render a deterministic stand-in for a generated image as a PNG data URL
+export async function renderMockImage(options: MockRenderOptions): Promise<string> {
+  const { width, height, seed, prompt, params, productImage, errorMessage } = options
+  const random = createRandom(seed)
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new CanvasError("Could not get canvas context")
+  }
+
+  drawBackground(ctx, width, height, params?.backgroundType || "studio", random)
+  const torso = drawSilhouette(ctx, width, height, params, random)
+
+  // Composite the product over the torso, fitted without distortion
+  if (productImage) {
+    try {
+      const product = await loadImage(productImage)
+      const scale = Math.min(torso.width / product.width, torso.height / product.height)
+      const drawWidth = product.width * scale
+      const drawHeight = product.height * scale
+      ctx.drawImage(product, torso.x + (torso.width - drawWidth) / 2, torso.y, drawWidth, drawHeight)
+    } catch (error) {
+      console.warn("Mock renderer could not load the product image:", error)
+    }
+  }
+
+  // Label the image as a mock so it can't be mistaken for a real generation
+  const labelSize = Math.max(10, Math.round(width / 50))
+  ctx.font = `bold ${labelSize}px sans-serif`
+  ctx.textBaseline = "top"
+  ctx.fillStyle = "rgba(0, 0, 0, 0.5)"
+  ctx.fillText(`MOCK · seed ${seed}`, labelSize * 0.8, labelSize * 0.8)
+
+  if (errorMessage) {
+    const bannerHeight = labelSize * 2.4
+    ctx.fillStyle = "rgba(185, 28, 28, 0.85)"
+    ctx.fillRect(0, labelSize * 2.4, width, bannerHeight)
+    ctx.fillStyle = "#FFFFFF"
+    ctx.fillText(`Provider error: ${errorMessage}`.slice(0, 120), labelSize * 0.8, labelSize * 3.1)
+  }
+
+  drawCaption(ctx, width, height, prompt)
+
+  return canvas.toDataURL("image/png")
+}
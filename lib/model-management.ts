@@ -1,14 +1,17 @@
 import * as tf from "@tensorflow/tfjs"
 import { openDB, type IDBPDatabase } from "idb"
+import type { ImageAdjustments } from "./adjustments"
+import type { GenerateImageParams, GenerateImageResult } from "./types"
 
 // Database name and version
 const DB_NAME = "ai-product-image-generator"
-const DB_VERSION = 1
+const DB_VERSION = 2
 
 // Store names
 const MODEL_STORE = "models"
 const MODEL_INFO_STORE = "model-info"
 const CUSTOM_CLASSES_STORE = "custom-classes"
+const GENERATION_HISTORY_STORE = "generation-history"
 
 // Model types
 export type ModelType = "mobilenet" | "custom" | "trained"
@@ -37,6 +40,30 @@ export interface CustomClassesMapping {
   name: string
 }
 
+// A generated image with everything needed to reproduce it
+export interface GenerationHistoryRecord {
+  id: string
+  createdAt: number
+  image: Blob
+  params: GenerateImageParams // Snapshot of the request as sent to generateImage
+  prompt: string // Resolved prompt after templates and variations
+  negativePrompt?: string
+  providerId: string
+  providerName: string
+  aiModel: string
+  seed?: number
+  processingTime: number
+  metadata: GenerateImageResult["metadata"]
+  adjustments?: ImageAdjustments // Editor adjustments when the image was generated; missing in older records
+}
+
+// Filters for browsing history
+export interface GenerationHistoryFilter {
+  providerId?: string
+  search?: string // Matched against the prompt and negative prompt
+  since?: number
+}
+
 // Database connection
 let db: IDBPDatabase | null = null
 
@@ -61,6 +88,12 @@ async function initDB(): Promise<IDBPDatabase> {
         const customClassesStore = database.createObjectStore(CUSTOM_CLASSES_STORE, { keyPath: "id" })
         customClassesStore.createIndex("modelId", "modelId")
       }
+
+      if (!database.objectStoreNames.contains(GENERATION_HISTORY_STORE)) {
+        const historyStore = database.createObjectStore(GENERATION_HISTORY_STORE, { keyPath: "id" })
+        historyStore.createIndex("createdAt", "createdAt")
+        historyStore.createIndex("providerId", "providerId")
+      }
     },
   })
 
@@ -195,6 +228,67 @@ export async function modelExists(modelId: string): Promise<boolean> {
   return !!modelInfo
 }
 
+// Save a generated image to the history store
+export async function saveGenerationRecord(
+  imageUrl: string,
+  record: Omit<GenerationHistoryRecord, "id" | "createdAt" | "image">,
+): Promise<GenerationHistoryRecord> {
+  const database = await initDB()
+
+  // Store the image itself so the record survives expiring object and data URLs
+  const response = await fetch(imageUrl)
+  const image = await response.blob()
+
+  const completeRecord: GenerationHistoryRecord = {
+    ...record,
+    id: Math.random().toString(36).substring(2, 11),
+    createdAt: Date.now(),
+    image,
+  }
+
+  await database.put(GENERATION_HISTORY_STORE, completeRecord)
+  return completeRecord
+}
+
+// Get generation history, newest first
+export async function getGenerationHistory(filter: GenerationHistoryFilter = {}): Promise<GenerationHistoryRecord[]> {
+  const database = await initDB()
+
+  const records: GenerationHistoryRecord[] = filter.providerId
+    ? await database.getAllFromIndex(GENERATION_HISTORY_STORE, "providerId", filter.providerId)
+    : await database.getAll(GENERATION_HISTORY_STORE)
+
+  const search = filter.search?.trim().toLowerCase()
+
+  return records
+    .filter((record) => !filter.since || record.createdAt >= filter.since)
+    .filter(
+      (record) =>
+        !search ||
+        record.prompt.toLowerCase().includes(search) ||
+        (record.negativePrompt || "").toLowerCase().includes(search),
+    )
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Get a history record by ID
+export async function getGenerationRecord(recordId: string): Promise<GenerationHistoryRecord | undefined> {
+  const database = await initDB()
+  return database.get(GENERATION_HISTORY_STORE, recordId)
+}
+
+// Delete a history record
+export async function deleteGenerationRecord(recordId: string): Promise<void> {
+  const database = await initDB()
+  await database.delete(GENERATION_HISTORY_STORE, recordId)
+}
+
+// Delete all history records
+export async function clearGenerationHistory(): Promise<void> {
+  const database = await initDB()
+  await database.clear(GENERATION_HISTORY_STORE)
+}
+
 // Calculate model size in bytes
 function calculateModelSize(artifacts: tf.io.ModelArtifacts): number {
   let size = 0
@@ -0,0 +1,118 @@
+import type { Resolution } from "./types"
+
+// Named aspect ratios for marketplace and social placements
+export type AspectRatio = "1:1" | "4:5" | "3:4" | "16:9" | "9:16"
+
+// Output size limits a generation backend enforces
+export interface SizeConstraints {
+  multipleOf: number // Width and height must be divisible by this (latent diffusion models use 8 or 64)
+  minSide: number
+  maxSide: number
+  maxPixels: number // Upper bound on width * height
+}
+
+export interface OutputSize {
+  width: number
+  height: number
+}
+
+export const ASPECT_RATIOS: { id: AspectRatio; name: string; description: string; ratio: [number, number] }[] = [
+  { id: "1:1", name: "Square 1:1", description: "Marketplace listings, Instagram feed", ratio: [1, 1] },
+  { id: "4:5", name: "Portrait 4:5", description: "Product detail pages, Instagram portrait", ratio: [4, 5] },
+  { id: "3:4", name: "Portrait 3:4", description: "Fashion PDPs, Pinterest", ratio: [3, 4] },
+  { id: "16:9", name: "Landscape 16:9", description: "Hero banners, YouTube", ratio: [16, 9] },
+  { id: "9:16", name: "Vertical 9:16", description: "Stories, Reels, TikTok", ratio: [9, 16] },
+]
+
+// Long-edge sizes offered for the named aspect ratios
+export const LONG_EDGE_SIZES = [512, 768, 1024, 1536, 2048]
+
+// Limits assumed before a provider has been resolved
+export const DEFAULT_SIZE_CONSTRAINTS: SizeConstraints = {
+  multipleOf: 8,
+  minSide: 256,
+  maxSide: 2048,
+  maxPixels: 2048 * 2048,
+}
+
+// Split a "WIDTHxHEIGHT" string into numbers
+export function parseResolution(resolution: string): OutputSize {
+  const [width, height] = resolution.split("x").map(Number)
+  return { width, height }
+}
+
+export function formatResolution(width: number, height: number): Resolution {
+  return `${width}x${height}`
+}
+
+// Find the named aspect ratio matching a size, allowing for rounding to the size multiple
+export function detectAspectRatio(width: number, height: number): AspectRatio | null {
+  const match = ASPECT_RATIOS.find(({ ratio }) => Math.abs(width / height - ratio[0] / ratio[1]) < 0.02)
+  return match ? match.id : null
+}
+
+// Round to the nearest allowed size, never going below the multiple itself
+function roundToMultiple(value: number, multipleOf: number): number {
+  return Math.max(multipleOf, Math.round(value / multipleOf) * multipleOf)
+}
+
+// Adjust a size to satisfy the constraints while keeping its aspect ratio as close as possible
+export function snapToConstraints(width: number, height: number, constraints: SizeConstraints): OutputSize {
+  // Shrink to fit the longest side and the pixel budget, grow to reach the minimum side
+  const scale = Math.max(
+    Math.min(1, constraints.maxSide / Math.max(width, height), Math.sqrt(constraints.maxPixels / (width * height))),
+    constraints.minSide / Math.min(width, height),
+  )
+
+  let snappedWidth = roundToMultiple(width * scale, constraints.multipleOf)
+  let snappedHeight = roundToMultiple(height * scale, constraints.multipleOf)
+
+  // Rounding up can push the size back over the limits, so step down one multiple at a time
+  while (
+    (snappedWidth > constraints.maxSide ||
+      snappedHeight > constraints.maxSide ||
+      snappedWidth * snappedHeight > constraints.maxPixels) &&
+    snappedWidth > constraints.multipleOf &&
+    snappedHeight > constraints.multipleOf
+  ) {
+    if (snappedWidth >= snappedHeight) {
+      snappedWidth -= constraints.multipleOf
+    } else {
+      snappedHeight -= constraints.multipleOf
+    }
+  }
+
+  return { width: snappedWidth, height: snappedHeight }
+}
+
+// Size for a named aspect ratio at a given long edge, snapped to the constraints
+export function getAspectRatioSize(aspectRatio: AspectRatio, longEdge: number, constraints: SizeConstraints): OutputSize {
+  const [ratioWidth, ratioHeight] = ASPECT_RATIOS.find((r) => r.id === aspectRatio)?.ratio || [1, 1]
+  const width = ratioWidth >= ratioHeight ? longEdge : (longEdge * ratioWidth) / ratioHeight
+  const height = ratioHeight >= ratioWidth ? longEdge : (longEdge * ratioHeight) / ratioWidth
+  return snapToConstraints(width, height, constraints)
+}
+
+// Describe every way a size breaks the constraints; an empty list means it is valid
+export function validateOutputSize(width: number, height: number, constraints: SizeConstraints): string[] {
+  const problems: string[] = []
+
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    return ["Width and height must be positive whole numbers."]
+  }
+
+  if (width % constraints.multipleOf !== 0 || height % constraints.multipleOf !== 0) {
+    problems.push(`Width and height must be multiples of ${constraints.multipleOf}.`)
+  }
+  if (Math.min(width, height) < constraints.minSide) {
+    problems.push(`Each side must be at least ${constraints.minSide}px.`)
+  }
+  if (Math.max(width, height) > constraints.maxSide) {
+    problems.push(`Each side must be at most ${constraints.maxSide}px.`)
+  }
+  if (width * height > constraints.maxPixels) {
+    problems.push(`The image must be at most ${(constraints.maxPixels / 1_000_000).toFixed(1)} megapixels.`)
+  }
+
+  return problems
+}
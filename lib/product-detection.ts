@@ -8,6 +8,7 @@ import {
   cacheImageNetClasses,
   isOnline,
 } from "./model-management"
+import { ModelLoadError, toAppError } from "./errors"
 
 // Define the mapping between MobileNet classifications and our product types
 const productTypeMapping: Record<string, string> = {
@@ -262,7 +263,10 @@ async function loadDetectionModel(): Promise<tf.LayersModel | tf.GraphModel> {
     return model
   } catch (error) {
     console.error("Error loading detection model:", error)
-    throw new Error(`Failed to load detection model: ${error instanceof Error ? error.message : String(error)}`)
+    throw new ModelLoadError(
+      `Failed to load detection model: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    )
   }
 }
 
@@ -412,8 +416,7 @@ export async function detectProductType(imageUrl: string): Promise<ProductDetect
     }
   } catch (error) {
     console.error("Error detecting product type:", error)
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    throw new Error(`Failed to detect product type: ${errorMessage}`)
+    throw toAppError(error, "Failed to detect product type")
   }
 }
 
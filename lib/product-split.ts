@@ -0,0 +1,211 @@
+import {
+  canvasToDataURL,
+  createCanvas,
+  getCanvasContext,
+  loadImageElement,
+  removeBackground,
+  type SegmentationModel,
+} from "./image-processing"
+import { toAppError } from "./errors"
+import { Mask, type MaskBoundingBox } from "./mask"
+
+// One separate object found in the segmentation mask
+export interface ProductRegion {
+  id: number // Label in `ProductRegions.labels`, from 1
+  box: MaskBoundingBox
+  area: number // Foreground pixels
+}
+
+export interface ProductRegions {
+  width: number
+  height: number
+  labels: Int32Array // Region id per pixel; 0 for background and dropped specks
+  regions: ProductRegion[] // Largest first
+}
+
+// Regions found in a photo, with the cutout alpha they were found in
+export interface ProductSplit extends ProductRegions {
+  mask: Mask
+}
+
+export interface FindProductRegionsOptions {
+  threshold?: number // Mask value above which a pixel belongs to an object
+  minAreaRatio?: number // Objects smaller than this share of the photo are treated as specks
+}
+
+export interface DetectProductRegionsOptions extends FindProductRegionsOptions {
+  modelType?: SegmentationModel
+  progressCallback?: (progress: number, message: string) => void
+}
+
+export interface ExtractProductsOptions {
+  padding?: number // Space around each object, as a share of its longer side
+  edgeRadius?: number // How far past an object's core its soft edge is kept, in pixels
+}
+
+// One cropped, background-removed object
+export interface ExtractedProduct {
+  imageUrl: string
+  regionIds: number[]
+  box: MaskBoundingBox // In source pixels
+}
+
+// Label the 8-connected objects of a mask. Specks below the minimum area are dropped and the
+// rest are numbered largest first.
+export function findProductRegions(mask: Mask, options: FindProductRegionsOptions = {}): ProductRegions {
+  const { threshold = 0.5, minAreaRatio = 0.005 } = options
+  const { width, height } = mask
+  const labels = new Int32Array(width * height)
+  const found: ProductRegion[] = []
+  const stack: number[] = []
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== 0 || mask.data[start] <= threshold) continue
+
+    const id = found.length + 1
+    let minX = width
+    let minY = height
+    let maxX = -1
+    let maxY = -1
+    let area = 0
+
+    labels[start] = id
+    stack.push(start)
+    while (stack.length > 0) {
+      const index = stack.pop() as number
+      const x = index % width
+      const y = (index - x) / width
+      area++
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy
+        if (ny < 0 || ny >= height) continue
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          if (nx < 0 || nx >= width) continue
+          const neighbor = ny * width + nx
+          if (labels[neighbor] === 0 && mask.data[neighbor] > threshold) {
+            labels[neighbor] = id
+            stack.push(neighbor)
+          }
+        }
+      }
+    }
+
+    found.push({ id, box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }, area })
+  }
+
+  // Renumber so ids follow size, with specks mapped to background
+  const minArea = minAreaRatio * width * height
+  const kept = found.filter((region) => region.area >= minArea).sort((a, b) => b.area - a.area)
+  const remap = new Int32Array(found.length + 1)
+  kept.forEach((region, index) => (remap[region.id] = index + 1))
+  for (let i = 0; i < labels.length; i++) {
+    labels[i] = remap[labels[i]]
+  }
+
+  return {
+    width,
+    height,
+    labels,
+    regions: kept.map((region, index) => ({ ...region, id: index + 1 })),
+  }
+}
+
+// Segment a photo and find the separate products in it
+export async function detectProductRegions(
+  imageUrl: string,
+  options: DetectProductRegionsOptions = {},
+): Promise<ProductSplit> {
+  const { modelType = "bodypix", threshold, minAreaRatio, progressCallback } = options
+
+  try {
+    const cutout = await loadImageElement(
+      await removeBackground(imageUrl, {
+        modelType,
+        backgroundColor: { r: 0, g: 0, b: 0, a: 0 },
+        progressCallback: (progress, message) => progressCallback?.(progress * 0.9, message),
+      }),
+    )
+
+    progressCallback?.(0.9, "Finding separate products...")
+    const canvas = createCanvas(cutout.width, cutout.height)
+    const ctx = getCanvasContext(canvas)
+    ctx.drawImage(cutout, 0, 0)
+    const mask = Mask.fromAlpha(ctx.getImageData(0, 0, cutout.width, cutout.height))
+    const regions = findProductRegions(mask, { threshold, minAreaRatio })
+
+    progressCallback?.(1.0, `Found ${regions.regions.length} product${regions.regions.length === 1 ? "" : "s"}`)
+    return { ...regions, mask }
+  } catch (error) {
+    console.error("Error finding products:", error)
+    throw toAppError(error, "Failed to find products in image")
+  }
+}
+
+// Cut out one image per group of regions; merged regions come out as a single product
+export async function extractProducts(
+  imageUrl: string,
+  split: ProductSplit,
+  groups: number[][],
+  options: ExtractProductsOptions = {},
+): Promise<ExtractedProduct[]> {
+  const { padding = 0.05, edgeRadius = 4 } = options
+
+  try {
+    const img = await loadImageElement(imageUrl)
+    const products: ExtractedProduct[] = []
+
+    for (const regionIds of groups) {
+      const regions = split.regions.filter((region) => regionIds.includes(region.id))
+      if (regions.length === 0) continue
+
+      // Union of the group's boxes, padded and kept inside the photo
+      const minX = Math.min(...regions.map((region) => region.box.x))
+      const minY = Math.min(...regions.map((region) => region.box.y))
+      const maxX = Math.max(...regions.map((region) => region.box.x + region.box.width))
+      const maxY = Math.max(...regions.map((region) => region.box.y + region.box.height))
+      const pad = Math.round(Math.max(maxX - minX, maxY - minY) * padding) + edgeRadius
+      const x0 = Math.max(0, minX - pad)
+      const y0 = Math.max(0, minY - pad)
+      const box = {
+        x: x0,
+        y: y0,
+        width: Math.min(split.width, maxX + pad) - x0,
+        height: Math.min(split.height, maxY + pad) - y0,
+      }
+
+      // The group's own pixels, grown a little so their soft edges from the cutout survive;
+      // everything else in the crop, including neighbouring products, is cleared
+      const own = new Mask(box.width, box.height)
+      for (let y = 0; y < box.height; y++) {
+        for (let x = 0; x < box.width; x++) {
+          const label = split.labels[(box.y + y) * split.width + box.x + x]
+          own.data[y * box.width + x] = label !== 0 && regionIds.includes(label) ? 1 : 0
+        }
+      }
+      const grown = own.dilate(edgeRadius)
+      const alpha = split.mask.crop(box)
+      for (let i = 0; i < alpha.data.length; i++) {
+        alpha.data[i] *= grown.data[i]
+      }
+
+      const canvas = createCanvas(box.width, box.height)
+      const ctx = getCanvasContext(canvas)
+      ctx.putImageData(alpha.toImageData(), 0, 0)
+      ctx.globalCompositeOperation = "source-in"
+      ctx.drawImage(img, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height)
+
+      products.push({ imageUrl: await canvasToDataURL(canvas), regionIds, box })
+    }
+
+    return products
+  } catch (error) {
+    console.error("Error extracting products:", error)
+    throw toAppError(error, "Failed to extract products")
+  }
+}
@@ -379,3 +379,20 @@ export function fillPromptTemplate(
 
   return filledTemplate
 }
+
+// Variations appended to a prompt when generating several candidates by prompt
+export const promptVariations: string[] = [
+  "front view, soft even lighting",
+  "three-quarter view, dramatic side lighting",
+  "close-up detail shot, shallow depth of field",
+  "full-length shot, natural window light",
+  "slightly elevated angle, bright high-key lighting",
+  "low angle, warm golden-hour tones",
+  "side profile, cool neutral tones",
+  "candid pose, diffused overcast light",
+]
+
+// Function to pick prompt variations for a number of candidates
+export function getPromptVariations(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => promptVariations[index % promptVariations.length])
+}
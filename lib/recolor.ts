@@ -0,0 +1,261 @@
+import {
+  canvasToDataURL,
+  createCanvas,
+  getCanvasContext,
+  getPerformanceConfig,
+  getProcessingTileSize,
+  loadImageBitmap,
+  loadImageElement,
+  segment,
+} from "./image-processing"
+import type { CanvasLike, SegmentationModel, SegmentationSource } from "./image-processing"
+import { InvalidInputError, toAppError } from "./errors"
+import { Mask } from "./mask"
+import { buildMaskInTiles, resampleMask } from "./tiling"
+import { runSegmentationTask } from "./segmentation-worker-client"
+
+// One sellable color of a product
+export interface Colorway {
+  skuSuffix: string // Appended to the base SKU, e.g. "RED" for "SHOE-001-RED"
+  hex: string // Target color as #RRGGBB
+  name?: string
+}
+
+export interface RecolorOptions {
+  modelType?: SegmentationModel
+  threshold?: number
+  mask?: Mask // Hand-edited mask to use instead of running segmentation
+  matchLightness?: boolean // Move the product's lightness to the target too, not just hue and chroma
+  edgeBlur?: number // Feather radius of the recolored region
+  progressCallback?: (progress: number, message: string) => void
+}
+
+// A recolored image ready to download
+export interface ColorwayVariant {
+  colorway: Colorway
+  imageUrl: string
+  fileName: string
+}
+
+type Lab = [number, number, number]
+
+// D65 reference white
+const WHITE_X = 0.95047
+const WHITE_Y = 1
+const WHITE_Z = 1.08883
+
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+})
+
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116)
+const labFInverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27))
+const linearToSrgb = (c: number) =>
+  255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(Math.max(0, c), 1 / 2.4) - 0.055)
+
+function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = SRGB_TO_LINEAR[r]
+  const lg = SRGB_TO_LINEAR[g]
+  const lb = SRGB_TO_LINEAR[b]
+
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X)
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y)
+  const fz = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z)
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+function labToRgb([l, a, b]: Lab): [number, number, number] {
+  const fy = (l + 16) / 116
+  const x = labFInverse(fy + a / 500) * WHITE_X
+  const y = labFInverse(fy) * WHITE_Y
+  const z = labFInverse(fy - b / 200) * WHITE_Z
+
+  return [
+    linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    linearToSrgb(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ]
+}
+
+function parseHex(hex: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim())
+  if (!match) return null
+  const value = parseInt(match[1], 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Parse a swatch list with one colorway per line: "SUFFIX #RRGGBB Optional name".
+// Commas and tabs work as separators too, so spreadsheet columns can be pasted in.
+export function parseColorwayList(text: string): { colorways: Colorway[]; invalidLines: string[] } {
+  const colorways: Colorway[] = []
+  const invalidLines: string[] = []
+
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .forEach((line) => {
+      const [suffix, hex, ...name] = line.split(/[\s,]+/)
+      const skuSuffix = (suffix || "").replace(/^[-_]+/, "").toUpperCase()
+
+      if (!skuSuffix || !hex || !parseHex(hex)) {
+        invalidLines.push(line)
+        return
+      }
+
+      colorways.push({
+        skuSuffix,
+        hex: `#${hex.replace("#", "").toUpperCase()}`,
+        name: name.join(" ") || undefined,
+      })
+    })
+
+  return { colorways, invalidLines }
+}
+
+// File name for one colorway of a product, e.g. "SHOE-001-RED.png"
+export function getColorwayFileName(baseSku: string, colorway: Colorway): string {
+  const base = baseSku.trim().replace(/[^\w.-]+/g, "-") || "product"
+  return `${base}-${colorway.skuSuffix}.png`
+}
+
+// Shift the masked region's chroma (and optionally lightness) so its average lands on the target,
+// keeping each pixel's offset from that average. Shading and texture survive the recolor.
+function recolorImageData(imageData: ImageData, mask: Mask, target: Lab, matchLightness: boolean): ImageData {
+  const { data } = imageData
+  const result = new ImageData(new Uint8ClampedArray(data), imageData.width, imageData.height)
+  const lab = new Float32Array((data.length / 4) * 3)
+
+  // Average color of the product, from pixels that are clearly inside the mask
+  let sumL = 0
+  let sumA = 0
+  let sumB = 0
+  let count = 0
+
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] <= 0) continue
+    const [l, a, b] = rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])
+    lab[i * 3] = l
+    lab[i * 3 + 1] = a
+    lab[i * 3 + 2] = b
+
+    if (mask.data[i] > 0.5) {
+      sumL += l
+      sumA += a
+      sumB += b
+      count++
+    }
+  }
+
+  if (count === 0) {
+    throw new InvalidInputError("No product was found to recolor")
+  }
+
+  const shiftL = matchLightness ? target[0] - sumL / count : 0
+  const shiftA = target[1] - sumA / count
+  const shiftB = target[2] - sumB / count
+
+  for (let i = 0; i < mask.data.length; i++) {
+    const alpha = mask.data[i]
+    if (alpha <= 0) continue
+
+    const rgb = labToRgb([
+      Math.min(100, Math.max(0, lab[i * 3] + shiftL)),
+      lab[i * 3 + 1] + shiftA,
+      lab[i * 3 + 2] + shiftB,
+    ])
+    for (let c = 0; c < 3; c++) {
+      result.data[i * 4 + c] = data[i * 4 + c] + (rgb[c] - data[i * 4 + c]) * alpha
+    }
+  }
+
+  return result
+}
+
+// Recolor on an already decoded image; runs unchanged on the main thread or in the worker
+export async function recolorFromImage(
+  img: SegmentationSource,
+  color: string,
+  options: RecolorOptions = {},
+): Promise<CanvasLike> {
+  const { modelType = "bodypix", threshold = 0.7, matchLightness = true, edgeBlur = 2, progressCallback } = options
+
+  const rgb = parseHex(color)
+  if (!rgb) {
+    throw new InvalidInputError(`"${color}" is not a #RRGGBB color`)
+  }
+
+  const width = img.width
+  const height = img.height
+  const canvas = createCanvas(width, height)
+  const ctx = getCanvasContext(canvas)
+  ctx.drawImage(img, 0, 0)
+
+  let segmented =
+    options.mask ||
+    (await segment(img, modelType, {
+      threshold,
+      progressCallback: (progress, message) => progressCallback?.(progress * 0.7, message),
+    }))
+
+  // Edited masks may have been painted on a smaller preview
+  if (segmented.width !== width || segmented.height !== height) {
+    const source = segmented
+    segmented = buildMaskInTiles(width, height, getProcessingTileSize(), 0, (region) =>
+      resampleMask(source, region, width, height),
+    )
+  }
+
+  progressCallback?.(0.75, "Recoloring product...")
+  // Edited masks are used as painted
+  const mask = options.mask ? segmented : segmented.feather(edgeBlur)
+  const imageData = ctx.getImageData(0, 0, width, height)
+  ctx.putImageData(recolorImageData(imageData, mask, rgbToLab(...rgb), matchLightness), 0, 0)
+
+  progressCallback?.(1.0, "Recolor complete")
+  return canvas
+}
+
+// Recolor the product to one color, in the worker when available
+export async function recolorProduct(imageUrl: string, color: string, options: RecolorOptions = {}): Promise<string> {
+  const { progressCallback, ...taskOptions } = options
+
+  try {
+    return await runSegmentationTask(
+      async () => ({ type: "recolor", image: await loadImageBitmap(imageUrl), color, options: taskOptions }),
+      {
+        performanceConfig: getPerformanceConfig(),
+        progressCallback,
+        fallback: async () => canvasToDataURL(await recolorFromImage(await loadImageElement(imageUrl), color, options)),
+      },
+    )
+  } catch (error) {
+    console.error("Error recoloring product:", error)
+    throw toAppError(error, "Failed to recolor product")
+  }
+}
+
+// One image per colorway. The mask is cached after the first colorway, so the rest only recolor.
+export async function generateColorways(
+  imageUrl: string,
+  baseSku: string,
+  colorways: Colorway[],
+  options: RecolorOptions = {},
+): Promise<ColorwayVariant[]> {
+  const { progressCallback, ...recolorOptions } = options
+  const variants: ColorwayVariant[] = []
+
+  for (let i = 0; i < colorways.length; i++) {
+    const colorway = colorways[i]
+    const variantUrl = await recolorProduct(imageUrl, colorway.hex, {
+      ...recolorOptions,
+      progressCallback: (progress, message) =>
+        progressCallback?.((i + progress) / colorways.length, `${colorway.skuSuffix}: ${message}`),
+    })
+    variants.push({ colorway, imageUrl: variantUrl, fileName: getColorwayFileName(baseSku, colorway) })
+  }
+
+  return variants
+}
@@ -0,0 +1,169 @@
+import { createAppError, type AppErrorType } from "./errors"
+import type { BackgroundOptions, ReplaceBackgroundOptions } from "./background-replacement"
+import type { AutoCropOptions, PerformanceConfig, RemoveBackgroundOptions } from "./image-processing"
+import type { RecolorOptions } from "./recolor"
+import type { FrameImageOptions, FramedImage, FramingProfile, FramingReport } from "./framing"
+
+type ProgressCallback = (progress: number, message: string) => void
+
+// Work the segmentation worker can run; images are transferred to the worker, not copied
+export type SegmentationTask =
+  | { type: "remove-background"; image: ImageBitmap; options: Omit<RemoveBackgroundOptions, "progressCallback"> }
+  | { type: "auto-crop"; image: ImageBitmap; options: Omit<AutoCropOptions, "progressCallback"> }
+  | {
+      type: "replace-background"
+      image: ImageBitmap
+      backgroundImage?: ImageBitmap
+      backgroundOptions: BackgroundOptions
+      options: Omit<ReplaceBackgroundOptions, "progressCallback">
+    }
+  | { type: "recolor"; image: ImageBitmap; color: string; options: Omit<RecolorOptions, "progressCallback"> }
+  | {
+      type: "frame"
+      image: ImageBitmap
+      profile: FramingProfile
+      options: Omit<FrameImageOptions, "progressCallback">
+    }
+
+// Messages to and from the worker
+export interface SegmentationWorkerRequest {
+  id: number
+  task: SegmentationTask
+  performanceConfig: PerformanceConfig // The worker has its own module state, so settings travel with each task
+}
+
+export type SegmentationWorkerResponse =
+  | { id: number; type: "progress"; progress: number; message: string }
+  | { id: number; type: "result"; imageUrl: string; report?: FramingReport } // Framing also returns its report
+  | { id: number; type: "error"; errorType: AppErrorType; message: string }
+
+interface PendingTask {
+  resolve: (result: FramedImage | string) => void
+  reject: (error: unknown) => void
+  progressCallback?: ProgressCallback
+  fallback: () => Promise<FramedImage | string>
+}
+
+let worker: Worker | null = null
+let workerFailed = false
+let offscreenWebGLSupported: boolean | undefined
+let nextTaskId = 0
+const pendingTasks = new Map<number, PendingTask>()
+
+// The worker needs OffscreenCanvas for compositing and WebGL on it for TensorFlow.js
+export function isSegmentationWorkerSupported(): boolean {
+  if (
+    workerFailed ||
+    typeof window === "undefined" ||
+    typeof Worker === "undefined" ||
+    typeof OffscreenCanvas === "undefined" ||
+    typeof createImageBitmap === "undefined"
+  ) {
+    return false
+  }
+
+  if (offscreenWebGLSupported === undefined) {
+    try {
+      offscreenWebGLSupported = new OffscreenCanvas(1, 1).getContext("webgl") !== null
+    } catch {
+      offscreenWebGLSupported = false
+    }
+  }
+
+  return offscreenWebGLSupported
+}
+
+function handleMessage(event: MessageEvent<SegmentationWorkerResponse>) {
+  const response = event.data
+  const pending = pendingTasks.get(response.id)
+  if (!pending) return
+
+  if (response.type === "progress") {
+    pending.progressCallback?.(response.progress, response.message)
+    return
+  }
+
+  pendingTasks.delete(response.id)
+  if (response.type === "result") {
+    pending.resolve(response.report ? { imageUrl: response.imageUrl, report: response.report } : response.imageUrl)
+  } else {
+    pending.reject(createAppError(response.errorType, response.message))
+  }
+}
+
+// Finish any in-flight tasks on the main thread so callers never see the worker go away
+function runPendingOnMainThread() {
+  const tasks = Array.from(pendingTasks.values())
+  pendingTasks.clear()
+  tasks.forEach((task) => task.fallback().then(task.resolve, task.reject))
+}
+
+// The worker script failed to load or crashed: use the main thread from now on
+function handleWorkerError(event: ErrorEvent) {
+  console.error("Segmentation worker failed, falling back to the main thread:", event.message)
+  event.preventDefault()
+  workerFailed = true
+  terminateSegmentationWorker()
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./segmentation.worker.ts", import.meta.url))
+    worker.addEventListener("message", handleMessage)
+    worker.addEventListener("error", handleWorkerError)
+  }
+  return worker
+}
+
+interface RunTaskOptions<T> {
+  performanceConfig: PerformanceConfig
+  progressCallback?: ProgressCallback
+  fallback: () => Promise<T>
+}
+
+async function dispatchTask<T extends FramedImage | string>(
+  createTask: () => Promise<SegmentationTask>,
+  { performanceConfig, progressCallback, fallback }: RunTaskOptions<T>,
+): Promise<T> {
+  if (!isSegmentationWorkerSupported()) {
+    return fallback()
+  }
+
+  const task = await createTask()
+  const transfer: Transferable[] = [task.image]
+  if (task.type === "replace-background" && task.backgroundImage) {
+    transfer.push(task.backgroundImage)
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextTaskId++
+    pendingTasks.set(id, { resolve: (result) => resolve(result as T), reject, progressCallback, fallback })
+
+    const request: SegmentationWorkerRequest = { id, task, performanceConfig }
+    getWorker().postMessage(request, transfer)
+  })
+}
+
+// Run a segmentation task in the worker, or `fallback` on the main thread when the
+// worker is unavailable. Progress is reported through the same callback either way.
+export function runSegmentationTask(
+  createTask: () => Promise<SegmentationTask>,
+  options: RunTaskOptions<string>,
+): Promise<string> {
+  return dispatchTask(createTask, options)
+}
+
+// Same as runSegmentationTask for framing, which resolves with the framed image and its report
+export function runFramingTask(
+  createTask: () => Promise<SegmentationTask & { type: "frame" }>,
+  options: RunTaskOptions<FramedImage>,
+): Promise<FramedImage> {
+  return dispatchTask(createTask, options)
+}
+
+// Stop the worker and release its models; in-flight tasks finish on the main thread
+export function terminateSegmentationWorker(): void {
+  worker?.terminate()
+  worker = null
+  runPendingOnMainThread()
+}
@@ -0,0 +1,78 @@
+import { replaceBackgroundFromImage } from "./background-replacement"
+import { toAppError } from "./errors"
+import { Mask } from "./mask"
+import {
+  autoCropFromImage,
+  canvasToDataURL,
+  removeBackgroundFromImage,
+  updatePerformanceConfig,
+  type CanvasLike,
+} from "./image-processing"
+import { recolorFromImage } from "./recolor"
+import { frameFromImage, type FramingReport } from "./framing"
+import type { SegmentationWorkerRequest, SegmentationWorkerResponse } from "./segmentation-worker-client"
+
+// Segmentation and compositing off the main thread. Models are loaded and cached per worker;
+// images arrive as transferred ImageBitmaps and results go back as PNG data URLs. Edited masks
+// arrive structured-cloned, without their class, so they are rebuilt before use.
+
+function post(response: SegmentationWorkerResponse) {
+  self.postMessage(response)
+}
+
+async function runTask(
+  { task }: SegmentationWorkerRequest,
+  progressCallback: (progress: number, message: string) => void,
+): Promise<CanvasLike | { canvas: CanvasLike; report: FramingReport }> {
+  switch (task.type) {
+    case "remove-background":
+      return removeBackgroundFromImage(task.image, {
+        ...task.options,
+        mask: task.options.mask && Mask.from(task.options.mask),
+        progressCallback,
+      })
+    case "auto-crop":
+      return autoCropFromImage(task.image, { ...task.options, progressCallback })
+    case "replace-background":
+      return replaceBackgroundFromImage(
+        task.image,
+        task.backgroundOptions,
+        { ...task.options, mask: task.options.mask && Mask.from(task.options.mask), progressCallback },
+        task.backgroundImage,
+      )
+    case "recolor":
+      return recolorFromImage(task.image, task.color, {
+        ...task.options,
+        mask: task.options.mask && Mask.from(task.options.mask),
+        progressCallback,
+      })
+    case "frame":
+      return frameFromImage(task.image, task.profile, {
+        ...task.options,
+        mask: task.options.mask && Mask.from(task.options.mask),
+        progressCallback,
+      })
+  }
+}
+
+self.addEventListener("message", async (event: MessageEvent<SegmentationWorkerRequest>) => {
+  const request = event.data
+  const { id, task } = request
+
+  try {
+    updatePerformanceConfig(request.performanceConfig)
+    const result = await runTask(request, (progress, message) => post({ id, type: "progress", progress, message }))
+    if ("report" in result) {
+      post({ id, type: "result", imageUrl: await canvasToDataURL(result.canvas), report: result.report })
+    } else {
+      post({ id, type: "result", imageUrl: await canvasToDataURL(result) })
+    }
+  } catch (error) {
+    console.error(`Error running ${task.type} in the segmentation worker:`, error)
+    const appError = toAppError(error, "Segmentation failed")
+    post({ id, type: "error", errorType: appError.type, message: appError.message })
+  } finally {
+    task.image.close()
+    if (task.type === "replace-background") task.backgroundImage?.close()
+  }
+})
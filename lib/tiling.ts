@@ -0,0 +1,89 @@
+import { Mask } from "./mask"
+import type { MaskBoundingBox } from "./mask"
+
+// One piece of a tiled pass. `outer` adds overlap with the neighbouring tiles so filters see
+// context across the seam; only `inner` is kept, so the seams don't show in the result.
+export interface Tile {
+  inner: MaskBoundingBox
+  outer: MaskBoundingBox
+}
+
+// Longest side processed in one piece for each memory setting
+const TILE_SIZE_BY_MEMORY = {
+  aggressive: 1024,
+  balanced: 2048,
+  performance: 4096,
+} as const
+
+// Tile size that fits both the memory setting and the GPU's texture limit (0 when unknown)
+export function getTileSize(memoryManagement: keyof typeof TILE_SIZE_BY_MEMORY, maxTextureSize: number): number {
+  const size = TILE_SIZE_BY_MEMORY[memoryManagement]
+  return maxTextureSize > 0 ? Math.min(size, maxTextureSize) : size
+}
+
+// Cover a width x height image with tiles of at most tileSize, each grown by `overlap` on every side
+export function getTiles(width: number, height: number, tileSize: number, overlap = 0): Tile[] {
+  const tiles: Tile[] = []
+
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const inner = { x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) }
+      const x0 = Math.max(0, x - overlap)
+      const y0 = Math.max(0, y - overlap)
+      const x1 = Math.min(width, x + inner.width + overlap)
+      const y1 = Math.min(height, y + inner.height + overlap)
+      tiles.push({ inner, outer: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } })
+    }
+  }
+
+  return tiles
+}
+
+// Build a full-size mask one tile at a time. `renderTile` returns the mask for a tile's outer
+// region; its overlap is cropped away before it is written into the result.
+export function buildMaskInTiles(
+  width: number,
+  height: number,
+  tileSize: number,
+  overlap: number,
+  renderTile: (region: MaskBoundingBox) => Mask,
+): Mask {
+  const result = new Mask(width, height)
+
+  for (const { inner, outer } of getTiles(width, height, tileSize, overlap)) {
+    const tileMask = renderTile(outer)
+    for (let y = 0; y < inner.height; y++) {
+      const start = (inner.y - outer.y + y) * tileMask.width + (inner.x - outer.x)
+      result.data.set(tileMask.data.subarray(start, start + inner.width), (inner.y + y) * width + inner.x)
+    }
+  }
+
+  return result
+}
+
+// Bilinear sample of a mask at any resolution over a region of a width x height image
+export function resampleMask(mask: Mask, region: MaskBoundingBox, width: number, height: number): Mask {
+  const result = new Mask(region.width, region.height)
+  const scaleX = mask.width / width
+  const scaleY = mask.height / height
+
+  for (let y = 0; y < region.height; y++) {
+    const sourceY = Math.min(mask.height - 1, Math.max(0, (region.y + y + 0.5) * scaleY - 0.5))
+    const y0 = Math.floor(sourceY)
+    const y1 = Math.min(mask.height - 1, y0 + 1)
+    const fy = sourceY - y0
+
+    for (let x = 0; x < region.width; x++) {
+      const sourceX = Math.min(mask.width - 1, Math.max(0, (region.x + x + 0.5) * scaleX - 0.5))
+      const x0 = Math.floor(sourceX)
+      const x1 = Math.min(mask.width - 1, x0 + 1)
+      const fx = sourceX - x0
+
+      const top = mask.data[y0 * mask.width + x0] * (1 - fx) + mask.data[y0 * mask.width + x1] * fx
+      const bottom = mask.data[y1 * mask.width + x0] * (1 - fx) + mask.data[y1 * mask.width + x1] * fx
+      result.data[y * region.width + x] = top * (1 - fy) + bottom * fy
+    }
+  }
+
+  return result
+}
@@ -1,3 +1,5 @@
+import type { AppErrorType } from "./errors"
+
 export interface ModelSettings {
   gender: "male" | "female" | "non-binary"
   bodyType: number // 0-100 scale (petite to plus size)
@@ -6,12 +8,18 @@ export interface ModelSettings {
   height: number // Height in inches
 }
 
+// Output size as "WIDTHxHEIGHT"
+export type Resolution = `${number}x${number}`
+
+// How the product image conditions generation
+export type GenerationMode = "text" | "image-to-image" | "inpainting"
+
 export interface GenerateImageParams {
   productImage: string
   backgroundRemoved: boolean
   autoCrop: boolean
   modelSettings: ModelSettings
-  resolution: "512x512" | "1024x1024"
+  resolution: Resolution
   backgroundType: "studio" | "lifestyle"
   brightness: number
   contrast: number
@@ -19,6 +27,14 @@ export interface GenerateImageParams {
   customPrompt?: string // Added custom prompt parameter
   negativePrompt?: string // Added negative prompt parameter
   productType?: string // Added product type parameter
+  generationMode?: GenerationMode // Send the product image as img2img or inpainting input
+  strength?: number // 0-1, how far the generator may move away from the product image
+  useSegmentationMask?: boolean // Build an inpainting mask from the segmentation step
+  seed?: number // Fixed seed for reproducible output; random when omitted
+  steps?: number // Number of inference steps
+  guidanceScale?: number // Classifier-free guidance scale
+  scheduler?: string // Sampler/scheduler name, as listed in the provider's capabilities
+  promptVariation?: string // Extra direction appended to the prompt for prompt-varied candidates
 }
 
 export interface GenerateImageResult {
@@ -28,6 +44,44 @@ export interface GenerateImageResult {
     aiModel: string
     prompt?: string
     negativePrompt?: string
+    generationMode?: GenerationMode
+    strength?: number
+    seed?: number
+    steps?: number
+    guidanceScale?: number
+    scheduler?: string
+  }
+}
+
+// Request body accepted by the /api/generate route
+export interface GenerateImageRequest {
+  modelType: string
+  prompt: string
+  negativePrompt: string
+  resolution: Resolution
+  generationMode?: GenerationMode
+  initImage?: string // PNG data URL sized to the resolution
+  maskImage?: string // PNG data URL, white = regenerate, black = keep
+  strength?: number
+  seed?: number
+  steps?: number
+  guidanceScale?: number
+  scheduler?: string
+}
+
+// Normalized error codes returned by the /api/generate route
+export type GenerateImageErrorCode =
+  | "unauthorized"
+  | "invalid_request"
+  | "unknown_model"
+  | "provider_not_configured"
+  | "provider_error"
+
+export interface GenerateImageErrorResponse {
+  error: {
+    code: GenerateImageErrorCode
+    message: string
+    type?: AppErrorType // Category of the underlying failure, for provider errors
   }
 }
 
@@ -0,0 +1,411 @@
+import * as tf from "@tensorflow/tfjs"
+import { checkWebGLCapabilities, initTensorFlow, loadImageElement, loadModel } from "./image-processing"
+import { CanvasError, InvalidInputError, toAppError } from "./errors"
+
+// Upscaling methods
+export type UpscaleMethod = "none" | "lanczos" | "edge-aware" | "super-resolution"
+
+// Upscaling options
+export interface UpscaleOptions {
+  method: UpscaleMethod
+  width: number // Target size in pixels
+  height: number
+  sharpenAmount?: number // 0-2, edge-aware method only
+  tileSize?: number // Preferred tile size; capped by the WebGL texture limit
+  progressCallback?: (progress: number, message: string) => void
+}
+
+export const UPSCALE_METHODS: { id: UpscaleMethod; name: string; description: string }[] = [
+  { id: "none", name: "Browser Resize", description: "Fastest; softens detail when enlarging" },
+  { id: "lanczos", name: "Lanczos", description: "Sharp, ringing-free resampling for most images" },
+  { id: "edge-aware", name: "Edge-Aware Sharpen", description: "Smooth resize, then sharpen edges only" },
+  { id: "super-resolution", name: "AI Super-Resolution", description: "ESRGAN model; best detail, slowest" },
+]
+
+const LANCZOS_LOBES = 3
+const DEFAULT_TILE_SIZE = 512
+const SUPER_RESOLUTION_TILE_SIZE = 128 // Input pixels per tile; ESRGAN memory grows quickly with tile size
+const SUPER_RESOLUTION_TILE_PADDING = 8 // Overlap that hides seams between tiles
+
+// Largest tile the GPU can hold, falling back to a safe size without WebGL
+function getMaxTileSize(preferred: number): number {
+  const { webGLAvailable, maxTextureSize } = checkWebGLCapabilities()
+  return webGLAvailable && maxTextureSize > 0 ? Math.min(preferred, maxTextureSize) : preferred
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new CanvasError("Could not get canvas context")
+  }
+  return { canvas, ctx }
+}
+
+function lanczosKernel(x: number): number {
+  if (x === 0) return 1
+  if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) return 0
+  const px = Math.PI * x
+  return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px)
+}
+
+// Precompute normalized kernel weights for every output position along one axis
+function computeWeights(
+  outputStart: number,
+  outputLength: number,
+  scale: number,
+  sourceLength: number,
+): { first: number; weights: Float32Array }[] {
+  // When shrinking, stretch the kernel so every source pixel contributes
+  const filterScale = Math.max(1, 1 / scale)
+  const support = LANCZOS_LOBES * filterScale
+  const result: { first: number; weights: Float32Array }[] = []
+
+  for (let i = 0; i < outputLength; i++) {
+    const center = (outputStart + i + 0.5) / scale - 0.5
+    const first = Math.max(0, Math.floor(center - support))
+    const last = Math.min(sourceLength - 1, Math.ceil(center + support))
+    const weights = new Float32Array(last - first + 1)
+
+    let total = 0
+    for (let j = first; j <= last; j++) {
+      const weight = lanczosKernel((j - center) / filterScale)
+      weights[j - first] = weight
+      total += weight
+    }
+    for (let k = 0; k < weights.length; k++) {
+      weights[k] /= total || 1
+    }
+
+    result.push({ first, weights })
+  }
+
+  return result
+}
+
+// Lanczos-3 resampling, computed one output tile at a time to bound memory
+async function upscaleLanczos(image: HTMLImageElement | HTMLCanvasElement, options: UpscaleOptions): Promise<HTMLCanvasElement> {
+  const { width, height, progressCallback } = options
+  const sourceWidth = image.width
+  const sourceHeight = image.height
+  const scaleX = width / sourceWidth
+  const scaleY = height / sourceHeight
+
+  const source = createCanvas(sourceWidth, sourceHeight)
+  source.ctx.drawImage(image, 0, 0)
+  const sourceData = source.ctx.getImageData(0, 0, sourceWidth, sourceHeight).data
+
+  const output = createCanvas(width, height)
+  const tileSize = getMaxTileSize(options.tileSize || DEFAULT_TILE_SIZE)
+  const tilesX = Math.ceil(width / tileSize)
+  const tilesY = Math.ceil(height / tileSize)
+
+  for (let tileY = 0; tileY < tilesY; tileY++) {
+    const outY = tileY * tileSize
+    const tileHeight = Math.min(tileSize, height - outY)
+    const rowWeights = computeWeights(outY, tileHeight, scaleY, sourceHeight)
+    const sourceTop = rowWeights[0].first
+    const sourceBottom = rowWeights[tileHeight - 1].first + rowWeights[tileHeight - 1].weights.length
+    const sourceRows = sourceBottom - sourceTop
+
+    for (let tileX = 0; tileX < tilesX; tileX++) {
+      const outX = tileX * tileSize
+      const tileWidth = Math.min(tileSize, width - outX)
+      const columnWeights = computeWeights(outX, tileWidth, scaleX, sourceWidth)
+
+      // Horizontal pass over just the source rows this tile needs
+      const horizontal = new Float32Array(sourceRows * tileWidth * 4)
+      for (let row = 0; row < sourceRows; row++) {
+        const sourceRowOffset = (sourceTop + row) * sourceWidth * 4
+        for (let x = 0; x < tileWidth; x++) {
+          const { first, weights } = columnWeights[x]
+          let r = 0
+          let g = 0
+          let b = 0
+          let a = 0
+          for (let k = 0; k < weights.length; k++) {
+            const index = sourceRowOffset + (first + k) * 4
+            const weight = weights[k]
+            r += sourceData[index] * weight
+            g += sourceData[index + 1] * weight
+            b += sourceData[index + 2] * weight
+            a += sourceData[index + 3] * weight
+          }
+          const outIndex = (row * tileWidth + x) * 4
+          horizontal[outIndex] = r
+          horizontal[outIndex + 1] = g
+          horizontal[outIndex + 2] = b
+          horizontal[outIndex + 3] = a
+        }
+      }
+
+      // Vertical pass into the output tile
+      const tile = output.ctx.createImageData(tileWidth, tileHeight)
+      for (let y = 0; y < tileHeight; y++) {
+        const { first, weights } = rowWeights[y]
+        for (let x = 0; x < tileWidth; x++) {
+          let r = 0
+          let g = 0
+          let b = 0
+          let a = 0
+          for (let k = 0; k < weights.length; k++) {
+            const index = ((first - sourceTop + k) * tileWidth + x) * 4
+            const weight = weights[k]
+            r += horizontal[index] * weight
+            g += horizontal[index + 1] * weight
+            b += horizontal[index + 2] * weight
+            a += horizontal[index + 3] * weight
+          }
+          const outIndex = (y * tileWidth + x) * 4
+          tile.data[outIndex] = r
+          tile.data[outIndex + 1] = g
+          tile.data[outIndex + 2] = b
+          tile.data[outIndex + 3] = a
+        }
+      }
+
+      output.ctx.putImageData(tile, outX, outY)
+
+      const done = tileY * tilesX + tileX + 1
+      progressCallback?.(done / (tilesX * tilesY), `Resampling tile ${done} of ${tilesX * tilesY}...`)
+
+      // Yield so the UI stays responsive on large images
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  return output.canvas
+}
+
+// High-quality browser resize followed by an unsharp mask weighted by edge strength,
+// so edges get crisper without amplifying noise in flat areas
+async function upscaleEdgeAware(image: HTMLImageElement | HTMLCanvasElement, options: UpscaleOptions): Promise<HTMLCanvasElement> {
+  const { width, height, sharpenAmount = 0.8, progressCallback } = options
+
+  const output = createCanvas(width, height)
+  output.ctx.imageSmoothingEnabled = true
+  output.ctx.imageSmoothingQuality = "high"
+  output.ctx.drawImage(image, 0, 0, width, height)
+
+  const tileSize = getMaxTileSize(options.tileSize || DEFAULT_TILE_SIZE)
+  const tilesX = Math.ceil(width / tileSize)
+  const tilesY = Math.ceil(height / tileSize)
+
+  // Read all tiles before writing any, so sharpening never sees already-sharpened neighbors
+  const sharpened: { x: number; y: number; data: ImageData }[] = []
+
+  for (let tileY = 0; tileY < tilesY; tileY++) {
+    for (let tileX = 0; tileX < tilesX; tileX++) {
+      const x0 = tileX * tileSize
+      const y0 = tileY * tileSize
+      const tileWidth = Math.min(tileSize, width - x0)
+      const tileHeight = Math.min(tileSize, height - y0)
+
+      // One pixel of margin for the 3x3 filters
+      const mx0 = Math.max(0, x0 - 1)
+      const my0 = Math.max(0, y0 - 1)
+      const mx1 = Math.min(width, x0 + tileWidth + 1)
+      const my1 = Math.min(height, y0 + tileHeight + 1)
+      const marginWidth = mx1 - mx0
+      const marginHeight = my1 - my0
+      const source = output.ctx.getImageData(mx0, my0, marginWidth, marginHeight).data
+      const result = output.ctx.createImageData(tileWidth, tileHeight)
+
+      const luminance = (x: number, y: number) => {
+        const cx = Math.min(marginWidth - 1, Math.max(0, x))
+        const cy = Math.min(marginHeight - 1, Math.max(0, y))
+        const i = (cy * marginWidth + cx) * 4
+        return 0.299 * source[i] + 0.587 * source[i + 1] + 0.114 * source[i + 2]
+      }
+
+      for (let y = 0; y < tileHeight; y++) {
+        for (let x = 0; x < tileWidth; x++) {
+          const sx = x + (x0 - mx0)
+          const sy = y + (y0 - my0)
+
+          // Sobel magnitude, normalized to 0-1
+          const gx =
+            luminance(sx + 1, sy - 1) +
+            2 * luminance(sx + 1, sy) +
+            luminance(sx + 1, sy + 1) -
+            luminance(sx - 1, sy - 1) -
+            2 * luminance(sx - 1, sy) -
+            luminance(sx - 1, sy + 1)
+          const gy =
+            luminance(sx - 1, sy + 1) +
+            2 * luminance(sx, sy + 1) +
+            luminance(sx + 1, sy + 1) -
+            luminance(sx - 1, sy - 1) -
+            2 * luminance(sx, sy - 1) -
+            luminance(sx + 1, sy - 1)
+          const edge = Math.min(1, Math.sqrt(gx * gx + gy * gy) / 255)
+
+          const centerIndex = (sy * marginWidth + sx) * 4
+          const outIndex = (y * tileWidth + x) * 4
+
+          for (let c = 0; c < 3; c++) {
+            // 3x3 box blur for the unsharp mask
+            let sum = 0
+            for (let dy = -1; dy <= 1; dy++) {
+              for (let dx = -1; dx <= 1; dx++) {
+                const nx = Math.min(marginWidth - 1, Math.max(0, sx + dx))
+                const ny = Math.min(marginHeight - 1, Math.max(0, sy + dy))
+                sum += source[(ny * marginWidth + nx) * 4 + c]
+              }
+            }
+            const original = source[centerIndex + c]
+            result.data[outIndex + c] = original + sharpenAmount * edge * (original - sum / 9)
+          }
+          result.data[outIndex + 3] = source[centerIndex + 3]
+        }
+      }
+
+      sharpened.push({ x: x0, y: y0, data: result })
+
+      const done = tileY * tilesX + tileX + 1
+      progressCallback?.(done / (tilesX * tilesY), `Sharpening tile ${done} of ${tilesX * tilesY}...`)
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  sharpened.forEach(({ x, y, data }) => output.ctx.putImageData(data, x, y))
+  return output.canvas
+}
+
+// ESRGAN super-resolution run tile by tile, then resampled to the exact target size
+async function upscaleSuperResolution(
+  image: HTMLImageElement | HTMLCanvasElement,
+  options: UpscaleOptions,
+): Promise<HTMLCanvasElement> {
+  const { progressCallback } = options
+
+  await initTensorFlow()
+  const model = (await loadModel("super-resolution", (progress, message) =>
+    progressCallback?.(progress * 0.2, message),
+  )) as tf.GraphModel
+
+  const sourceWidth = image.width
+  const sourceHeight = image.height
+  const padding = SUPER_RESOLUTION_TILE_PADDING
+
+  // Keep each padded output tile within the texture limit (the model upscales 2x, allow up to 4x)
+  const maxTextureSize = checkWebGLCapabilities().maxTextureSize || 4096
+  const tileSize = Math.max(
+    16,
+    Math.min(options.tileSize || SUPER_RESOLUTION_TILE_SIZE, Math.floor(maxTextureSize / 4) - padding * 2),
+  )
+
+  const source = createCanvas(sourceWidth, sourceHeight)
+  source.ctx.drawImage(image, 0, 0)
+
+  const tilesX = Math.ceil(sourceWidth / tileSize)
+  const tilesY = Math.ceil(sourceHeight / tileSize)
+  let output: { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } | null = null
+  let modelScale = 0
+
+  for (let tileY = 0; tileY < tilesY; tileY++) {
+    for (let tileX = 0; tileX < tilesX; tileX++) {
+      const x0 = tileX * tileSize
+      const y0 = tileY * tileSize
+      const tileWidth = Math.min(tileSize, sourceWidth - x0)
+      const tileHeight = Math.min(tileSize, sourceHeight - y0)
+
+      // Pad the tile with its neighbors so the model sees context across the seam
+      const px0 = Math.max(0, x0 - padding)
+      const py0 = Math.max(0, y0 - padding)
+      const px1 = Math.min(sourceWidth, x0 + tileWidth + padding)
+      const py1 = Math.min(sourceHeight, y0 + tileHeight + padding)
+      const input = source.ctx.getImageData(px0, py0, px1 - px0, py1 - py0)
+
+      const upscaled = tf.tidy(() => {
+        const tensor = tf.browser.fromPixels(input).toFloat().expandDims(0)
+        const prediction = model.predict(tensor) as tf.Tensor4D
+        return prediction.squeeze([0]).clipByValue(0, 255).round().toInt() as tf.Tensor3D
+      })
+
+      if (!modelScale) {
+        modelScale = Math.round(upscaled.shape[1] / input.width)
+        output = createCanvas(sourceWidth * modelScale, sourceHeight * modelScale)
+      }
+
+      const tileCanvas = createCanvas(upscaled.shape[1], upscaled.shape[0])
+      await tf.browser.toPixels(upscaled, tileCanvas.canvas)
+      upscaled.dispose()
+
+      // Drop the padding and place the tile
+      output!.ctx.drawImage(
+        tileCanvas.canvas,
+        (x0 - px0) * modelScale,
+        (y0 - py0) * modelScale,
+        tileWidth * modelScale,
+        tileHeight * modelScale,
+        x0 * modelScale,
+        y0 * modelScale,
+        tileWidth * modelScale,
+        tileHeight * modelScale,
+      )
+
+      const done = tileY * tilesX + tileX + 1
+      progressCallback?.(0.2 + (done / (tilesX * tilesY)) * 0.7, `Upscaling tile ${done} of ${tilesX * tilesY}...`)
+    }
+  }
+
+  // Alpha isn't modeled by ESRGAN; carry it over from a Lanczos-resized copy
+  const result = output!.canvas
+  const hasAlpha = source.ctx
+    .getImageData(0, 0, sourceWidth, sourceHeight)
+    .data.some((value, index) => index % 4 === 3 && value < 255)
+  if (hasAlpha) {
+    const alpha = await upscaleLanczos(image, { ...options, width: result.width, height: result.height })
+    const alphaData = alpha.getContext("2d")!.getImageData(0, 0, result.width, result.height).data
+    const resultCtx = result.getContext("2d")!
+    const resultData = resultCtx.getImageData(0, 0, result.width, result.height)
+    for (let i = 3; i < resultData.data.length; i += 4) {
+      resultData.data[i] = alphaData[i]
+    }
+    resultCtx.putImageData(resultData, 0, 0)
+  }
+
+  // The model has a fixed scale; resample to the exact target
+  if (result.width === options.width && result.height === options.height) {
+    return result
+  }
+  progressCallback?.(0.9, "Resampling to target size...")
+  return upscaleLanczos(result, { ...options, progressCallback: undefined })
+}
+
+// Resize an image to the target size with the chosen method; returns a PNG data URL
+export async function upscaleImage(imageUrl: string, options: UpscaleOptions): Promise<string> {
+  const { method, width, height, progressCallback } = options
+
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width < 1 || height < 1) {
+    throw new InvalidInputError("Upscale target size must be at least 1×1 pixels")
+  }
+
+  try {
+    progressCallback?.(0, "Loading image...")
+    const image = await loadImageElement(imageUrl)
+
+    let result: HTMLCanvasElement
+    if (method === "lanczos") {
+      result = await upscaleLanczos(image, options)
+    } else if (method === "edge-aware") {
+      result = await upscaleEdgeAware(image, options)
+    } else if (method === "super-resolution") {
+      result = await upscaleSuperResolution(image, options)
+    } else {
+      const output = createCanvas(width, height)
+      output.ctx.imageSmoothingQuality = "high"
+      output.ctx.drawImage(image, 0, 0, width, height)
+      result = output.canvas
+    }
+
+    progressCallback?.(1, "Upscaling complete")
+    return result.toDataURL("image/png")
+  } catch (error) {
+    console.error("Error upscaling image:", error)
+    throw toAppError(error, "Failed to upscale image")
+  }
+}
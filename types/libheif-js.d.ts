@@ -0,0 +1,20 @@
+// The part of libheif-js's JavaScript API the HEIC decoder uses; the package ships no types for it
+declare module "libheif-js/wasm-bundle" {
+  interface HeifDisplayData {
+    data: Uint8ClampedArray
+    width: number
+    height: number
+  }
+
+  interface HeifImage {
+    get_width(): number
+    get_height(): number
+    is_primary(): boolean
+    display(target: HeifDisplayData, callback: (result: HeifDisplayData | null) => void): void
+    free(): void
+  }
+
+  export class HeifDecoder {
+    decode(data: Uint8Array): HeifImage[]
+  }
+}